@@ -16,6 +16,28 @@ import { Logger } from '@turtlepay/logger';
 /** @ignore */
 import IValueArray = DBInterfaces.IValueArray;
 
+/**
+ * The types of the tags found in the extra field of a transaction
+ */
+export enum ExtraTagType {
+    PADDING = 0,
+    PUBLIC_KEY = 1,
+    NONCE = 2,
+    MERGED_MINING = 3,
+    RECIPIENT_PUBLIC_VIEW_KEY = 4,
+    RECIPIENT_PUBLIC_SPEND_KEY = 5,
+    TRANSACTION_PRIVATE_KEY = 6,
+    POOL_NONCE = 7
+}
+
+/**
+ * The types of the sub-tags found within the nonce tag of the extra field of a transaction
+ */
+export enum ExtraNonceTagType {
+    PAYMENT_ID = 0,
+    EXTRA_DATA = 127
+}
+
 /** @ignore */
 export interface ILoadedBlock extends Block {
     txns?: Transaction[];
@@ -29,9 +51,12 @@ export interface ProcessedBlock {
     blockchain: IValueArray;
     transactions: IValueArray;
     transaction_meta: IValueArray;
+    unlocks: IValueArray;
     inputs: IValueArray;
+    rings: IValueArray;
     outputs: IValueArray;
     paymentIds: IValueArray;
+    extra: IValueArray;
 }
 
 /** @ignore */
@@ -101,9 +126,12 @@ export async function processBlock (block: ILoadedBlock): Promise<ProcessedBlock
         blockchain: [],
         transactions: [],
         transaction_meta: [],
+        unlocks: [],
         inputs: [],
+        rings: [],
         outputs: [],
-        paymentIds: []
+        paymentIds: [],
+        extra: []
     };
 
     result.blocks.push([await block.hash(), block.toString()]);
@@ -120,11 +148,24 @@ export async function processBlock (block: ILoadedBlock): Promise<ProcessedBlock
 
             result.transaction_meta.push([await tx.hash(), tx.fee, tx.amount, tx.size]);
 
-            for (const input of tx.inputs) {
+            // unlock times are unsigned 64-bit integers so they are stored without conversion to a number
+            result.unlocks.push([await tx.hash(), block.height, tx.unlockTime.toString()]);
+
+            for (let i = 0; i < tx.inputs.length; i++) {
+                const input = (tx.inputs[i] as TransactionInputs.KeyInput);
+
                 if (input.type === TransactionInputs.InputType.KEY) {
-                    result.inputs.push([
-                        await tx.hash(),
-                        (input as TransactionInputs.KeyInput).keyImage]);
+                    result.inputs.push([await tx.hash(), input.keyImage]);
+
+                    // key offsets are relative to the previous offset in the ring
+                    let globalIdx = 0;
+
+                    for (let j = 0; j < input.keyOffsets.length; j++) {
+                        globalIdx += input.keyOffsets[j].toJSNumber();
+
+                        result.rings.push([
+                            await tx.hash(), input.keyImage, i, input.amount.toJSNumber(), j, globalIdx]);
+                    }
                 }
             }
 
@@ -140,6 +181,10 @@ export async function processBlock (block: ILoadedBlock): Promise<ProcessedBlock
             if (tx.paymentId) {
                 result.paymentIds.push([await tx.hash(), tx.paymentId]);
             }
+
+            for (const tag of decodeTransactionExtra(tx.extra)) {
+                result.extra.push([await tx.hash(), ...tag]);
+            }
         }
     }
 
@@ -148,3 +193,186 @@ export async function processBlock (block: ILoadedBlock): Promise<ProcessedBlock
 
     return result;
 }
+
+/**
+ * A decoded tag of the extra field of a transaction as an [idx, tag, subtag, value, depth] row
+ * @ignore
+ */
+type ExtraTagRow = [number, number, number | null, string, number | null];
+
+/** @ignore */
+const MAX_UINT32 = 0xffffffff;
+
+/** @ignore */
+const KEY_TAGS: number[] = [
+    ExtraTagType.PUBLIC_KEY,
+    ExtraTagType.RECIPIENT_PUBLIC_VIEW_KEY,
+    ExtraTagType.RECIPIENT_PUBLIC_SPEND_KEY,
+    ExtraTagType.TRANSACTION_PRIVATE_KEY
+];
+
+/**
+ * Decodes the raw extra field of a transaction into one row per tag, in the order that
+ * the tags appear, including unknown and repeated tags (such as additional public keys).
+ * Each nonce sub-tag is a row of its own and merged mining tags are stored as their merkle
+ * root along with their depth. The idx of a row is the byte offset of its tag within the
+ * extra field. Once a tag cannot be decoded, the remainder of the extra field is stored as
+ * the value of that tag
+ * @param extra the raw extra field of the transaction
+ * @ignore
+ */
+export function decodeTransactionExtra (extra: Buffer): ExtraTagRow[] {
+    const result: ExtraTagRow[] = [];
+
+    let offset = 0;
+
+    while (offset < extra.length) {
+        const position = offset;
+
+        let tag = extra[offset];
+
+        try {
+            [tag, offset] = readVarint(extra, offset, MAX_UINT32);
+
+            if (tag === ExtraTagType.PADDING) {
+                // padding extends to the end of the extra field
+                result.push([position, tag, null, extra.slice(offset).toString('hex'), null]);
+
+                offset = extra.length;
+            } else if (KEY_TAGS.indexOf(tag) !== -1) {
+                const key = readBytes(extra, offset, 32);
+
+                result.push([position, tag, null, key.toString('hex'), null]);
+
+                offset += key.length;
+            } else if (tag === ExtraTagType.NONCE) {
+                const [length, start] = readVarint(extra, offset);
+
+                const nonce = readBytes(extra, start, length);
+
+                result.push(...decodeNonce(nonce, start));
+
+                offset = start + length;
+            } else if (tag === ExtraTagType.MERGED_MINING) {
+                const [length, start] = readVarint(extra, offset);
+
+                const data = readBytes(extra, start, length);
+
+                const [depth, root] = readVarint(data, 0);
+
+                result.push([position, tag, null, readBytes(data, root, 32).toString('hex'), depth]);
+
+                offset = start + length;
+            } else if (tag === ExtraTagType.POOL_NONCE) {
+                const [length, start] = readVarint(extra, offset);
+
+                result.push([position, tag, null, readBytes(extra, start, length).toString('hex'), null]);
+
+                offset = start + length;
+            } else {
+                throw new RangeError('Unknown tag: ' + tag);
+            }
+        } catch {
+            result.push([position, tag, null, extra.slice((offset > position) ? offset : position + 1)
+                .toString('hex'), null]);
+
+            break;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Decodes the sub-tags of a nonce tag into rows
+ * @param nonce the contents of the nonce tag
+ * @param start the byte offset of the contents within the extra field
+ * @ignore
+ */
+function decodeNonce (nonce: Buffer, start: number): ExtraTagRow[] {
+    const result: ExtraTagRow[] = [];
+
+    if (nonce.length === 0) {
+        return [[start, ExtraTagType.NONCE, null, '', null]];
+    }
+
+    let offset = 0;
+
+    while (offset < nonce.length) {
+        const position = offset;
+
+        let subtag = nonce[offset];
+
+        try {
+            [subtag, offset] = readVarint(nonce, offset, MAX_UINT32);
+
+            if (subtag === ExtraNonceTagType.PAYMENT_ID) {
+                const paymentId = readBytes(nonce, offset, 32);
+
+                result.push([start + position, ExtraTagType.NONCE, subtag, paymentId.toString('hex'), null]);
+
+                offset += paymentId.length;
+            } else if (subtag === ExtraNonceTagType.EXTRA_DATA) {
+                const [length, dataStart] = readVarint(nonce, offset);
+
+                const data = readBytes(nonce, dataStart, length);
+
+                result.push([start + position, ExtraTagType.NONCE, subtag, data.toString('hex'), null]);
+
+                offset = dataStart + length;
+            } else {
+                throw new RangeError('Unknown nonce tag: ' + subtag);
+            }
+        } catch {
+            result.push([start + position, ExtraTagType.NONCE, subtag,
+                nonce.slice((offset > position) ? offset : position + 1).toString('hex'), null]);
+
+            break;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Reads a varint from the buffer
+ * @param data the buffer to read from
+ * @param offset the offset to read at
+ * @param max the maximum value
+ * @returns the value and the offset of the next byte
+ * @ignore
+ */
+function readVarint (data: Buffer, offset: number, max = Number.MAX_SAFE_INTEGER): [number, number] {
+    let value = 0;
+
+    for (let shift = 0; offset < data.length && shift < 53; shift += 7) {
+        const byte = data[offset++];
+
+        value += (byte & 0x7f) * Math.pow(2, shift);
+
+        if ((byte & 0x80) === 0) {
+            if (value > max) {
+                break;
+            }
+
+            return [value, offset];
+        }
+    }
+
+    throw new RangeError('Malformed varint');
+}
+
+/**
+ * Reads the given number of bytes from the buffer
+ * @param data the buffer to read from
+ * @param offset the offset to read at
+ * @param length the number of bytes to read
+ * @ignore
+ */
+function readBytes (data: Buffer, offset: number, length: number): Buffer {
+    if (offset + length > data.length) {
+        throw new RangeError('Not enough data available for reading');
+    }
+
+    return data.slice(offset, offset + length);
+}
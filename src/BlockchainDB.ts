@@ -2,7 +2,7 @@
 //
 // Please see the included LICENSE file for more information.
 
-import { IDatabase, Interfaces, prepareCreateTable } from 'db-abstraction';
+import { IDatabase, Interfaces } from 'db-abstraction';
 import {
     Block,
     KeyInput,
@@ -10,14 +10,32 @@ import {
     Transaction,
     TransactionInputs,
     TransactionOutputs,
+    TurtleCoind,
     TurtleCoindTypes as TurtleCoindInterfaces
 } from 'turtlecoin-utils';
-import { format } from 'util';
 import { Logger } from '@turtlepay/logger';
 import * as BigInteger from 'big-integer';
 import { PerformanceTimer } from './PerformanceTimer';
-import { prepareMultiInsert, saveRawBlock } from './Statements';
+import { prepareChainStatsRollup, prepareMultiInsert, saveRawBlock } from './Statements';
 import { RawBlockWorker, SaveRawBlockResponse } from './RawBlockWorker';
+import { getSchemaVersion, IMigrationResult, migrate } from './Migrations';
+import { ExtraNonceTagType, ExtraTagType, loadRawBlock, processBlock } from './BlockLoader';
+import { Cache, ICacheStats } from './Cache';
+import { Random } from './Random';
+import { IBootstrapManifest, readBootstrap, writeBootstrap } from './Bootstrap';
+import {
+    MAX_BLOB_LENGTH,
+    MAX_LIMIT,
+    validateArray,
+    validateBlock,
+    validateHash,
+    validateHashes,
+    validateHex,
+    validateInteger,
+    validateNumber,
+    validateOneOf,
+    ValidationError
+} from './Validation';
 
 /** @ignore */
 require('dotenv').config();
@@ -25,8 +43,6 @@ require('dotenv').config();
 /** @ignore */
 import ITurtleCoind = TurtleCoindInterfaces.ITurtleCoind;
 /** @ignore */
-import FKAction = Interfaces.FKAction;
-/** @ignore */
 import IBulkQuery = Interfaces.IBulkQuery;
 /** @ignore */
 import IValueArray = Interfaces.IValueArray;
@@ -39,40 +55,605 @@ import OutputType = TransactionOutputs.OutputType;
 /** @ignore */
 import DBType = Interfaces.DBType;
 
+/**
+ * The number of blocks that must be built on top of the block containing an output
+ * before the daemon will use the output as a decoy
+ * @ignore
+ */
+const MINED_MONEY_UNLOCK_WINDOW = 40;
+
+/**
+ * Unlock times below this value are block heights, otherwise they are timestamps
+ * @ignore
+ */
+const MAX_BLOCK_NUMBER = 500000000;
+
+/** @ignore */
+const LOCKED_TX_ALLOWED_DELTA_BLOCKS = 1;
+
+/** @ignore */
+const LOCKED_TX_ALLOWED_DELTA_SECONDS = 30;
+
+/**
+ * The number of times the move of a block to the alternate chain is attempted
+ * before a rewind is abandoned
+ * @ignore
+ */
+const REWIND_ATTEMPTS = 5;
+
+/**
+ * The delay (ms) before the move of a block is retried, multiplied by the attempt number
+ * @ignore
+ */
+const REWIND_RETRY_DELAY = 1000;
+
 /** @ignore */
 export interface ILoadedRawBlock extends TurtleCoindInterfaces.IRawBlock {
     hash: string;
 }
 
+/**
+ * Represents the spent status of a set of key images
+ */
+export interface IKeyImagesStatus {
+    /**
+     * The key images that have been spent in a block
+     */
+    inBlock: {
+        keyImage: string;
+        blockHash: string;
+        height: number;
+        transactionHash: string;
+    }[];
+    /**
+     * The key images that have been spent in a transaction currently in the memory pool
+     */
+    inPool: {
+        keyImage: string;
+        transactionHash: string;
+    }[];
+    /**
+     * The key images that have not been spent
+     */
+    unspent: string[];
+}
+
+/**
+ * Represents a key input of a transaction with its ring members resolved to their source outputs
+ */
+export interface ITransactionRing {
+    keyImage: string;
+    amount: number;
+    ring: {
+        globalIndex: number;
+        transactionHash: string;
+        outputIndex: number;
+        key: string;
+    }[];
+}
+
+/**
+ * Represents the use of an output as a ring member in a key input
+ */
+export interface IRingMemberUsage {
+    transactionHash: string;
+    keyImage: string;
+    blockHash: string;
+    height: number;
+}
+
+/**
+ * The reason that the database was rewound
+ */
+export enum RewindCause {
+    CONSISTENCY_CHECK = 'consistency_check',
+    SYNC_ERROR = 'sync_error',
+    MANUAL = 'manual',
+    DAEMON_FORK = 'daemon_fork'
+}
+
+/**
+ * Represents a recorded rewind of the database
+ */
+export interface IReorgEvent {
+    id: number;
+    /**
+     * The height the database was rewound to
+     */
+    forkHeight: number;
+    /**
+     * The number of blocks removed from the main chain
+     */
+    depth: number;
+    /**
+     * The top block hash before the rewind
+     */
+    oldTip: string;
+    /**
+     * The hash of the daemon block that replaced the old chain for a daemon fork,
+     * otherwise the top block hash after the rewind
+     */
+    newTip?: string;
+    cause: RewindCause;
+    timestamp: Date;
+}
+
+/**
+ * The type of a change to the main chain
+ */
+export enum ChainChangeType {
+    CONNECT = 'connect',
+    DISCONNECT = 'disconnect'
+}
+
+/**
+ * Represents an entry in the ordered log of changes to the main chain
+ */
+export interface IChainChange {
+    /**
+     * The monotonically increasing sequence number of the change
+     */
+    id: number;
+    type: ChainChangeType;
+    hash: string;
+    height: number;
+    timestamp: Date;
+}
+
+/**
+ * Represents a page of the log of changes to the main chain
+ */
+export interface IChainChanges {
+    changes: IChainChange[];
+    /**
+     * The cursor to supply to retrieve the changes that follow
+     */
+    cursor: number;
+}
+
+/**
+ * The final outcome of a transaction that has left the transaction pool
+ */
+export enum PoolOutcome {
+    MINED = 'mined',
+    EVICTED = 'evicted',
+    REPLACED = 'replaced'
+}
+
+/**
+ * Represents the history of a transaction in the transaction pool
+ */
+export interface ITransactionPoolHistory {
+    hash: string;
+    fee: number;
+    size: number;
+    amountOut: number;
+    firstSeen: Date;
+    lastSeen: Date;
+    /**
+     * When the transaction was last observed leaving the transaction pool
+     */
+    removedAt?: Date;
+    /**
+     * The outcome of the transaction once it has left the pool and been resolved
+     */
+    outcome?: PoolOutcome;
+    /**
+     * The block the transaction was mined in, if mined
+     */
+    block?: {
+        hash: string;
+        height: number;
+    };
+    /**
+     * When the outcome was determined; for mined transactions this is the block timestamp
+     */
+    resolvedAt?: Date;
+}
+
+/**
+ * Represents the time (in seconds) taken for transactions to be mined after
+ * first being seen in the transaction pool
+ */
+export interface IPoolConfirmationStats {
+    count: number;
+    average: number;
+    median: number;
+    minimum: number;
+    maximum: number;
+    percentile90: number;
+}
+
+/**
+ * Represents a (possibly downsampled) snapshot of the daemon /info
+ */
+export interface IInfoSnapshot {
+    /**
+     * The start of the sampling interval
+     */
+    timestamp: Date;
+    height: number;
+    networkHeight: number;
+    difficulty: number;
+    hashrate: number;
+    incomingConnections: number;
+    outgoingConnections: number;
+    whitePeerlistSize: number;
+    greyPeerlistSize: number;
+    transactionsPoolSize: number;
+}
+
+/**
+ * Represents a (possibly downsampled) snapshot of the daemon /peers
+ */
+export interface IPeersSnapshot {
+    /**
+     * The start of the sampling interval
+     */
+    timestamp: Date;
+    peers: number;
+    greyPeers: number;
+}
+
+/**
+ * The granularity of aggregated network statistics
+ */
+export enum ChainStatsGranularity {
+    HOURLY = 'hourly',
+    DAILY = 'daily'
+}
+
+/**
+ * Represents the aggregated network statistics for a period of time
+ */
+export interface IChainStats {
+    /**
+     * The start of the period
+     */
+    timestamp: Date;
+    blocks: number;
+    averageDifficulty: number;
+    minimumDifficulty: number;
+    maximumDifficulty: number;
+    /**
+     * The hashrate estimated from the difficulty and the actual time between blocks
+     */
+    hashrate: number;
+    totalFees: number;
+    transactions: number;
+    averageSize: number;
+    /**
+     * The number of blocks that incurred a size penalty
+     */
+    penalties: number;
+}
+
+/**
+ * Represents the circulating supply as of a block
+ */
+export interface ISupply {
+    height: number;
+    hash: string;
+    timestamp: Date;
+    supply: BigInteger.BigInteger;
+}
+
+/**
+ * Represents the coins emitted in the blocks between two heights
+ */
+export interface IEmission {
+    startHeight: number;
+    endHeight: number;
+    /**
+     * The sum of the base rewards of the blocks
+     */
+    baseReward: BigInteger.BigInteger;
+    /**
+     * The sum of the transaction fees collected by the blocks
+     */
+    fees: BigInteger.BigInteger;
+    /**
+     * The sum of the rewards (including fees) paid by the blocks
+     */
+    reward: BigInteger.BigInteger;
+    /**
+     * The change in the circulating supply between the two heights
+     */
+    supplyChange: BigInteger.BigInteger;
+}
+
+/**
+ * Represents a block whose coinbase transaction outputs do not total the expected reward
+ */
+export interface ICoinbaseMismatch {
+    height: number;
+    hash: string;
+    baseReward: number;
+    totalFeeAmount: number;
+    penalty: number;
+    /**
+     * The expected total of the coinbase outputs (base reward + fees - penalty)
+     */
+    expected: number;
+    /**
+     * The actual total of the coinbase outputs
+     */
+    actual: number;
+}
+
+/**
+ * Represents the fee-per-byte percentiles of the transactions in a range of blocks
+ */
+export interface IFeePercentiles {
+    startHeight: number;
+    endHeight: number;
+    transactions: number;
+    percentiles: {
+        percentile: number;
+        feePerByte: number;
+    }[];
+}
+
+/**
+ * Represents the lowest fee that was included in a block
+ */
+export interface IBlockMinimumFee {
+    height: number;
+    hash: string;
+    transactions: number;
+    minimumFee: number;
+    minimumFeePerByte: number;
+}
+
+/**
+ * Represents the current state of the transaction pool relative to block capacity
+ */
+export interface IPoolCongestion {
+    transactions: number;
+    totalSize: number;
+    totalFees: number;
+    minimumFeePerByte: number;
+    medianFeePerByte: number;
+    maximumFeePerByte: number;
+    /**
+     * The median block size of the last block, used as the capacity of a block
+     */
+    blockCapacity: number;
+    /**
+     * The estimated number of blocks required to clear the transaction pool
+     */
+    blocksToClear: number;
+}
+
+/**
+ * Represents a recommended fee for a transaction to be included within a target number of blocks
+ */
+export interface IRecommendedFee {
+    targetDepth: number;
+    feePerByte: number;
+    /**
+     * The recommended fee for a transaction of the given size, if a size was supplied
+     */
+    fee?: number;
+}
+
+/**
+ * Represents the filters and paging used when searching for transactions by payment ID
+ */
+export interface IPaymentIdSearchOptions {
+    startHeight?: number;
+    endHeight?: number;
+    /**
+     * The timestamp (seconds) of the first block to include
+     */
+    startTime?: number;
+    /**
+     * The timestamp (seconds) of the last block to include
+     */
+    endTime?: number;
+    /**
+     * The number of matching transactions in blocks to skip
+     */
+    offset?: number;
+    /**
+     * The maximum number of matching transactions in blocks to return
+     */
+    limit?: number;
+    /**
+     * Whether matching transactions in the transaction pool should be included
+     */
+    includePool?: boolean;
+}
+
+/**
+ * Represents a transaction that contains a payment ID
+ */
+export interface IPaymentIdTransaction {
+    hash: string;
+    fee: number;
+    amount: number;
+    size: number;
+    /**
+     * The block information is only present for transactions that have been included in a block
+     */
+    blockHash?: string;
+    height?: number;
+    timestamp?: number;
+}
+
+/**
+ * Represents a page of the transactions that contain a payment ID
+ */
+export interface IPaymentIdSearch {
+    paymentId: string;
+    /**
+     * The total number of matching transactions in blocks, regardless of paging
+     */
+    total: number;
+    offset: number;
+    limit: number;
+    transactions: IPaymentIdTransaction[];
+    /**
+     * The matching transactions in the transaction pool, which are not subject to paging
+     */
+    pool: IPaymentIdTransaction[];
+}
+
+/**
+ * Represents a decoded tag from the extra field of a transaction
+ */
+export interface ITransactionExtraTag {
+    /**
+     * The byte offset of the tag within the extra field
+     */
+    position: number;
+    /**
+     * The tag type, tags unknown to this package keep their numeric type
+     */
+    tag: ExtraTagType | number;
+    /**
+     * The sub-tag type, only present for nonce tags
+     */
+    subtag?: ExtraNonceTagType | number;
+    /**
+     * The hexadecimal value of the tag. Merged mining tags are represented by their merkle root
+     */
+    value: string;
+    /**
+     * The depth of the merged mining tag, only present for merged mining tags
+     */
+    depth?: number;
+}
+
+/**
+ * Represents a transaction extra tag along with the transaction and block that contain it
+ */
+export interface ITransactionExtraMatch extends ITransactionExtraTag {
+    hash: string;
+    blockHash: string;
+    height: number;
+    timestamp: number;
+}
+
+/**
+ * Represents the hit/miss counters of the caches kept by the database
+ */
+export interface IDatabaseCacheStats {
+    headers: ICacheStats;
+    transactionSummaries: ICacheStats;
+    rawBlocks: ICacheStats;
+    transactions: ICacheStats;
+    hashes: ICacheStats;
+}
+
+/**
+ * Represents a block that was removed from the main chain during a rewind
+ */
+export interface IAltBlock extends TurtleCoindInterfaces.IBlock {
+    /**
+     * The height that the main chain was rewound to when the block was removed
+     */
+    reorgHeight: number;
+    /**
+     * The time at which the block was removed from the main chain
+     */
+    reorgTime: Date;
+}
+
+/**
+ * Represents a call to a method that requires an upstream daemon when no upstream
+ * daemon is configured. It is reported to API clients as not implemented
+ */
+export class NotAvailableError extends Error {
+    /**
+     * Constructs a new not available error
+     * @param message the error message
+     */
+    constructor (message = 'Method not available') {
+        super(message);
+
+        this.name = 'NotAvailableError';
+    }
+}
+
 /**
  * Represents an instance of the blockchain database
  */
 export class BlockchainDB implements ITurtleCoind {
     private readonly m_db: IDatabase;
     private readonly m_worker: RawBlockWorker;
+    private readonly m_relay?: TurtleCoind;
+    private readonly m_replicas: IDatabase[];
+    private readonly m_replicaMaxLag: number;
+    private readonly m_replicaHeights: Map<IDatabase, { version: number, height: number }>;
+    private m_nextReplica = 0;
     private m_useWorkers = false;
+    private m_workersInit?: Promise<void>;
+    private readonly m_cacheSize: number;
+    private readonly m_headerCache: Cache<string, TurtleCoindInterfaces.IBlockHeader>;
+    private readonly m_summaryCache: Cache<string, TurtleCoindInterfaces.TransactionSummary[]>;
+    private readonly m_rawBlockCache: Cache<string, TurtleCoindInterfaces.IRawBlock>;
+    private readonly m_transactionCache: Cache<string, TurtleCoindInterfaces.ITransaction>;
+    private readonly m_hashCache: Cache<number, string>;
+    private m_cacheGeneration = 0;
+    private readonly m_chainRefreshInterval: number;
+    private m_chainCursor?: number;
+    private m_chainTopHeight = -1;
+    private m_chainExpires = 0;
+    private m_chainVersion = 0;
+    private m_chainRefresh?: Promise<void>;
 
     /**
      * Database cache constructor
-     * @param database the database connection to use
+     * @param database the database connection to use, all writes are performed using this connection
+     * @param relay the upstream daemon that block templates, blocks and transactions are relayed to
+     * @param replicas the read replica connections that block, transaction and sync reads are spread across
      */
-    constructor (database: IDatabase) {
+    constructor (
+        database: IDatabase,
+        relay?: { host: string, port: number, ssl: boolean },
+        replicas: IDatabase[] = []
+    ) {
         this.m_db = database;
 
+        if (relay) {
+            this.m_relay = new TurtleCoind(
+                relay.host, relay.port, 30000, relay.ssl, undefined, undefined, undefined, relayError);
+        }
+
+        this.m_replicas = replicas;
+
+        this.m_replicaMaxLag = (process.env.REPLICA_MAX_LAG) ? parseInt(process.env.REPLICA_MAX_LAG, 10) : 0;
+
+        this.m_replicaHeights = new Map<IDatabase, { version: number, height: number }>();
+
         this.m_worker = new RawBlockWorker(database, 'rawblock-processor');
 
-        // We cannot use clustered workers with SQLITE
-        if (this.m_db.type !== DBType.SQLITE) {
-            this.m_worker.init()
-                .then(() => {
-                    this.m_useWorkers = true;
+        this.m_cacheSize = (process.env.CACHE_SIZE) ? parseInt(process.env.CACHE_SIZE, 10) : 1000;
 
-                    Logger.info('Connected to RabbitMQ for remote block processing.');
-                })
-                .catch(() => {
-                    Logger.warn('Could not connect to RabbitMQ. Using local block processor.');
-                });
-        }
+        this.m_headerCache = new Cache(this.m_cacheSize);
+        this.m_summaryCache = new Cache(this.m_cacheSize);
+        this.m_rawBlockCache = new Cache(this.m_cacheSize);
+        this.m_transactionCache = new Cache(this.m_cacheSize);
+        this.m_hashCache = new Cache(this.m_cacheSize);
+
+        this.m_chainRefreshInterval = (process.env.CHAIN_REFRESH_INTERVAL)
+            ? parseInt(process.env.CHAIN_REFRESH_INTERVAL, 10)
+            : 1000;
+    }
+
+    /**
+     * The hit/miss counters of the caches of block headers, transaction summaries,
+     * raw blocks, transactions and the hashes of the blocks in the main chain
+     */
+    public get cacheStats (): IDatabaseCacheStats {
+        return {
+            headers: this.m_headerCache.stats,
+            transactionSummaries: this.m_summaryCache.stats,
+            rawBlocks: this.m_rawBlockCache.stats,
+            transactions: this.m_transactionCache.stats,
+            hashes: this.m_hashCache.stats
+        };
     }
 
     /**
@@ -83,9 +664,196 @@ export class BlockchainDB implements ITurtleCoind {
     }
 
     /**
-     * Checks the consistency of the blockchain in the database
+     * Retrieves the blocks that were removed from the main chain during a rewind
+     * at or below the given height in descending height order
+     * @param height the height to stop at, defaults to all alternate blocks
+     * @param limit the number of alternate blocks to retrieve
      */
-    public async checkConsistency (): Promise<[boolean, string[]]> {
+    public async altBlocks (height = Number.MAX_SAFE_INTEGER, limit = 30): Promise<IAltBlock[]> {
+        validateInteger(height, 'height');
+
+        validateInteger(limit, 'limit', 1, MAX_LIMIT);
+
+        const [, rows] = await this.m_db.query(
+            'SELECT alt_blocks.hash AS hash, prevhash, height, basereward, difficulty, majorversion, ' +
+            'minorversion, nonce, size, utctimestamp, alreadygeneratedcoins, alreadygeneratedtransactions, ' +
+            'reward, sizemedian, totalfeeamount, transactionscount, transactionscumulativesize, orphan, penalty, ' +
+            'reorgheight, reorgtime FROM alt_blocks ' +
+            'LEFT JOIN alt_block_meta ON alt_block_meta.hash = alt_blocks.hash ' +
+            'WHERE height <= ? ORDER BY height DESC, reorgtime DESC LIMIT ?', [height, limit]);
+
+        if (rows.length === 0) return [];
+
+        const topHeight = await this.getTopBlockHeight();
+
+        const results: IAltBlock[] = [];
+
+        for (const row of rows) {
+            const [, txnRows] = await this.m_db.query(
+                'SELECT hash, fee, amount, size FROM alt_transactions WHERE block_hash = ? ORDER BY coinbase',
+                [row.hash]);
+
+            results.push({
+                ...blockHeaderFromRow(row, topHeight),
+                orphan: true,
+                reorgHeight: parseInt(row.reorgheight, 10),
+                reorgTime: new Date(parseInt(row.reorgtime, 10) * 1000),
+                transactions: txnRows.map(txn => {
+                    return {
+                        hash: txn.hash,
+                        amountOut: parseInt(txn.amount, 10),
+                        fee: parseInt(txn.fee, 10),
+                        size: parseInt(txn.size, 10)
+                    };
+                })
+            });
+        }
+
+        return results;
+    }
+
+    /**
+     * Retrieves the aggregated network statistics for the periods within the given time range
+     * @param startTime the timestamp (seconds) to start at
+     * @param endTime the timestamp (seconds) to end at
+     * @param granularity the length of the periods to retrieve
+     */
+    public async chainStats (
+        startTime = 0,
+        endTime = Number.MAX_SAFE_INTEGER,
+        granularity: ChainStatsGranularity = ChainStatsGranularity.HOURLY
+    ): Promise<IChainStats[]> {
+        validateInteger(startTime, 'startTime');
+
+        validateInteger(endTime, 'endTime');
+
+        validateOneOf(granularity, 'granularity', Object.values(ChainStatsGranularity));
+
+        const table = (granularity === ChainStatsGranularity.DAILY) ? 'chain_stats_daily' : 'chain_stats_hourly';
+
+        const [, rows] = await this.m_db.query(
+            'SELECT period, blocks, sumdifficulty, mindifficulty, maxdifficulty, sumintervals, totalfees, ' +
+            'transactions, sumsize, penalties FROM ' + table + ' WHERE period >= ? AND period <= ? ' +
+            'ORDER BY period ASC', [startTime, endTime]);
+
+        return rows.map(row => {
+            const blocks = parseInt(row.blocks, 10);
+
+            const sumDifficulty = parseInt(row.sumdifficulty, 10);
+
+            const sumIntervals = parseInt(row.sumintervals, 10);
+
+            return {
+                timestamp: new Date(parseInt(row.period, 10) * 1000),
+                blocks: blocks,
+                averageDifficulty: Math.round(sumDifficulty / blocks),
+                minimumDifficulty: parseInt(row.mindifficulty, 10),
+                maximumDifficulty: parseInt(row.maxdifficulty, 10),
+                hashrate: (sumIntervals > 0) ? Math.round(sumDifficulty / sumIntervals) : 0,
+                totalFees: parseInt(row.totalfees, 10),
+                transactions: parseInt(row.transactions, 10),
+                averageSize: Math.round(parseInt(row.sumsize, 10) / blocks),
+                penalties: parseInt(row.penalties, 10)
+            };
+        });
+    }
+
+    /**
+     * Retrieves the lowest fee included in each block within the given range. Blocks
+     * that only contain a coinbase transaction are omitted
+     * @param startHeight the height to start at
+     * @param endHeight the height to end at
+     */
+    public async blockMinimumFees (startHeight: number, endHeight: number): Promise<IBlockMinimumFee[]> {
+        validateInteger(startHeight, 'startHeight');
+
+        validateInteger(endHeight, 'endHeight');
+
+        const fees = await this.getBlockTransactionFees(startHeight, endHeight);
+
+        const results: IBlockMinimumFee[] = [];
+
+        for (const fee of fees) {
+            let block = results.filter(elem => elem.hash === fee.hash).shift();
+
+            if (!block) {
+                block = {
+                    height: fee.height,
+                    hash: fee.hash,
+                    transactions: 0,
+                    minimumFee: fee.fee,
+                    minimumFeePerByte: feePerByte(fee.fee, fee.size)
+                };
+
+                results.push(block);
+            }
+
+            block.transactions++;
+
+            block.minimumFee = Math.min(block.minimumFee, fee.fee);
+
+            block.minimumFeePerByte = Math.min(block.minimumFeePerByte, feePerByte(fee.fee, fee.size));
+        }
+
+        return results;
+    }
+
+    /**
+     * Retrieves the payment IDs of the transactions in the specified block
+     * @param hash the block hash
+     */
+    public async blockPaymentIds (hash: string): Promise<{ hash: string, paymentId: string }[]> {
+        hash = validateHash(hash, 'hash');
+
+        const [, rows] = await this.m_db.query(
+            'SELECT transactions.hash AS hash, paymentid FROM transaction_paymentids ' +
+            'JOIN transactions ON transactions.hash = transaction_paymentids.hash ' +
+            'WHERE transactions.block_hash = ?', [hash]);
+
+        return rows.map(row => {
+            return {
+                hash: row.hash,
+                paymentId: row.paymentid
+            };
+        });
+    }
+
+    /**
+     * Retrieves, in order, the changes to the main chain that followed the given cursor. A
+     * consumer that applies each change in order, and persists the returned cursor, follows
+     * the main chain through every rewind without missing a block
+     * @param cursor the cursor returned by the previous call, or 0 to start from the beginning
+     * @param limit the maximum number of changes to return
+     */
+    public async changesSince (cursor = 0, limit = 100): Promise<IChainChanges> {
+        validateInteger(cursor, 'cursor');
+
+        validateInteger(limit, 'limit', 1, MAX_LIMIT);
+
+        const [, rows] = await this.m_db.query(
+            'SELECT id, type, hash, height, utctimestamp FROM chain_changes WHERE id > ? ORDER BY id ASC LIMIT ?',
+            [cursor, limit]);
+
+        const changes: IChainChange[] = rows.map(row => {
+            return {
+                id: parseInt(row.id, 10),
+                type: row.type,
+                hash: row.hash,
+                height: parseInt(row.height, 10),
+                timestamp: new Date(parseInt(row.utctimestamp, 10) * 1000)
+            };
+        });
+
+        return {
+            changes: changes,
+            cursor: (changes.length !== 0) ? changes[changes.length - 1].id : cursor
+        };
+    }
+
+    /**
+     * Checks the consistency of the blockchain in the database
+     */
+    public async checkConsistency (): Promise<[boolean, string[]]> {
         const [count, rows] = await this.m_db.query(
             'SELECT blocks.hash AS hash FROM blocks ' +
             'LEFT JOIN block_meta ON block_meta.hash = blocks.hash ' +
@@ -95,677 +863,1862 @@ export class BlockchainDB implements ITurtleCoind {
     }
 
     /**
-     * Closes the underlying database connection
+     * Retrieves the blocks between the given heights (inclusive) whose coinbase transaction
+     * outputs do not total the base reward plus the fees less the penalty
+     * @param startHeight the height to start at
+     * @param endHeight the height to end at
+     */
+    public async coinbaseMismatches (startHeight: number, endHeight: number): Promise<ICoinbaseMismatch[]> {
+        validateInteger(startHeight, 'startHeight');
+
+        validateInteger(endHeight, 'endHeight');
+
+        const [, rows] = await this.m_db.query(
+            'SELECT height, blockchain.hash AS hash, basereward, totalfeeamount, penalty, amount FROM blockchain ' +
+            'JOIN block_meta ON block_meta.hash = blockchain.hash ' +
+            'JOIN transactions ON transactions.block_hash = blockchain.hash AND transactions.coinbase = 1 ' +
+            'JOIN transaction_meta ON transaction_meta.hash = transactions.hash ' +
+            'WHERE height >= ? AND height <= ? AND amount <> basereward + totalfeeamount - penalty ' +
+            'ORDER BY height ASC', [startHeight, endHeight]);
+
+        return rows.map(row => {
+            const baseReward = parseInt(row.basereward, 10);
+
+            const totalFeeAmount = parseInt(row.totalfeeamount, 10);
+
+            const penalty = parseInt(row.penalty, 10);
+
+            return {
+                height: parseInt(row.height, 10),
+                hash: row.hash,
+                baseReward: baseReward,
+                totalFeeAmount: totalFeeAmount,
+                penalty: penalty,
+                expected: baseReward + totalFeeAmount - penalty,
+                actual: parseInt(row.amount, 10)
+            };
+        });
+    }
+
+    /**
+     * Closes the underlying database connection
+     */
+    public async close (): Promise<void> {
+        return this.m_db.close();
+    }
+
+    /**
+     * Retrieves the coins emitted by the blocks after the start height up to, and
+     * including, the end height split into base rewards and fees
+     * @param startHeight the height to start after
+     * @param endHeight the height to end at
+     */
+    public async emission (startHeight: number, endHeight: number): Promise<IEmission> {
+        validateInteger(startHeight, 'startHeight');
+
+        validateInteger(endHeight, 'endHeight');
+
+        if (endHeight < startHeight) {
+            throw new RangeError('End height must not be less than the start height');
+        }
+
+        const [, rows] = await this.m_db.query(
+            'SELECT SUM(basereward) AS basereward, SUM(totalfeeamount) AS fees, SUM(reward) AS reward ' +
+            'FROM blockchain JOIN block_meta ON block_meta.hash = blockchain.hash WHERE height > ? AND height <= ?',
+            [startHeight, endHeight]);
+
+        const start = await this.supplyAtHeight(startHeight);
+
+        const end = await this.supplyAtHeight(endHeight);
+
+        return {
+            startHeight: startHeight,
+            endHeight: endHeight,
+            baseReward: BigInteger(rows[0].basereward || 0),
+            fees: BigInteger(rows[0].fees || 0),
+            reward: BigInteger(rows[0].reward || 0),
+            supplyChange: end.supply.subtract(start.supply)
+        };
+    }
+
+    /**
+     * Exports the blocks between the given heights (inclusive), including their headers and
+     * global indexes, to a gzip compressed NDJSON bootstrap file that may be imported into
+     * another database without a daemon. A manifest containing the SHA-256 digest of the
+     * file is written alongside it
+     * @param path the path of the bootstrap file
+     * @param startHeight the height to start at
+     * @param endHeight the height to end at
+     */
+    public async exportBootstrap (path: string, startHeight: number, endHeight: number): Promise<IBootstrapManifest> {
+        validateInteger(startHeight, 'startHeight');
+
+        validateInteger(endHeight, 'endHeight', startHeight);
+
+        return writeBootstrap(this, path, startHeight, endHeight);
+    }
+
+    /**
+     * Retrieves the fee-per-byte percentiles of the transactions included in the given block range
+     * @param startHeight the height to start at
+     * @param endHeight the height to end at
+     * @param percentiles the percentiles to calculate
+     */
+    public async feePercentiles (
+        startHeight: number,
+        endHeight: number,
+        percentiles: number[] = [10, 25, 50, 75, 90]
+    ): Promise<IFeePercentiles> {
+        validateInteger(startHeight, 'startHeight');
+
+        validateInteger(endHeight, 'endHeight');
+
+        validateArray(percentiles, 'percentiles', 100).forEach(elem => validateNumber(elem, 'percentiles', 0, 100));
+
+        const fees = (await this.getBlockTransactionFees(startHeight, endHeight))
+            .map(fee => feePerByte(fee.fee, fee.size))
+            .sort((a, b) => a - b);
+
+        return {
+            startHeight: startHeight,
+            endHeight: endHeight,
+            transactions: fees.length,
+            percentiles: percentiles.map(elem => {
+                return {
+                    percentile: elem,
+                    feePerByte: percentile(fees, elem)
+                };
+            })
+        };
+    }
+
+    /**
+     * Retrieves the genesis hash
+     */
+    public async genesisHash (): Promise<string> {
+        return this.hashFromHeight(0);
+    }
+
+    /**
+     * Retrieve the proper start sync height based on the selected parameters
+     * @param checkpoints the known block hash checkpoints
+     * @param height the known block height
+     * @param timestamp the timestamp to start syncing from
+     */
+    public async getSyncHeight (
+        checkpoints: string[] = [],
+        height = 0,
+        timestamp = 0
+    ): Promise<number> {
+        checkpoints = validateHashes(checkpoints, 'checkpoints', MAX_LIMIT);
+
+        validateInteger(height, 'height');
+
+        validateInteger(timestamp, 'timestamp');
+
+        let syncHeight = 0;
+
+        for (let i = 0; i < checkpoints.length; i += 100) {
+            const batch = checkpoints.slice(i, i + 100);
+
+            const [count, rows] = await this.m_db.query(
+                'SELECT MAX(height) AS height FROM blockchain WHERE hash IN (' +
+                batch.map(() => '?').join(',') + ')', batch);
+
+            if (count !== 0 && rows[0].height !== null && rows[0].height !== undefined) {
+                syncHeight = Math.max(syncHeight, parseInt(rows[0].height, 10) + 1);
+            }
+        }
+
+        if (timestamp > 0) {
+            const [count, rows] = await this.m_db.query(
+                'SELECT height FROM blockchain WHERE utctimestamp <= ? ORDER BY height DESC LIMIT 1',
+                [timestamp]);
+
+            if (count !== 0) {
+                syncHeight = parseInt(rows[0].height, 10);
+
+                syncHeight++;
+            }
+        }
+
+        if (height > syncHeight) {
+            syncHeight = height;
+        }
+
+        return syncHeight;
+    }
+
+    /**
+     * Retrieves transaction meta data
+     * @param hash the transaction hash
+     * @private
+     */
+    private async getTransactionMeta (
+        hash: string,
+        db: IDatabase = this.m_db
+    ): Promise<TurtleCoindInterfaces.TransactionSummary> {
+        const [count, rows] = await db.query(
+            'SELECT hash, fee, amount, size FROM transaction_meta WHERE hash = ?', [hash]);
+
+        if (count === 0) throw new ReferenceError('Transaction meta data not found: ' + hash);
+
+        return {
+            hash: rows[0].hash,
+            amountOut: parseInt(rows[0].amount, 10),
+            fee: parseInt(rows[0].fee, 10),
+            size: parseInt(rows[0].size, 10)
+        };
+    }
+
+    /**
+     * Retrieves all transaction meta information for the given block
+     * @param hash the block hash
+     * @param height the block height
+     * @param db the database connection to read from
+     * @private
+     */
+    private async getTransactionsMetaByBlock (
+        hash: string,
+        height: number,
+        db: IDatabase = this.m_db
+    ): Promise<TurtleCoindInterfaces.TransactionSummary[]> {
+        await this.refreshChainState();
+
+        const cached = this.m_summaryCache.get(hash);
+
+        if (cached) {
+            return cached.map(summary => Object.assign({}, summary));
+        }
+
+        const generation = this.m_cacheGeneration;
+
+        const [, rows] = await db.query(
+            'SELECT transactions.hash AS hash, fee, amount, size FROM transactions LEFT JOIN transaction_meta ' +
+            'ON transaction_meta.hash = transactions.hash WHERE transactions.block_hash = ? ORDER BY coinbase',
+            [hash]);
+
+        const summaries: TurtleCoindInterfaces.TransactionSummary[] = rows
+            .map(row => {
+                return {
+                    hash: row.hash,
+                    amountOut: parseInt(row.amount, 10),
+                    fee: parseInt(row.fee, 10),
+                    size: parseInt(row.size, 10)
+                };
+            });
+
+        if (generation === this.m_cacheGeneration) {
+            this.m_summaryCache.set(hash, summaries, height);
+        }
+
+        return summaries.map(summary => Object.assign({}, summary));
+    }
+
+    /**
+     * Retrieves all transaction meta information for the given blocks using a single query
+     * for the blocks that are not cached
+     * @param headers the block headers
+     * @param db the database connection to read from
+     * @returns the transaction meta information keyed by block hash
+     * @private
+     */
+    private async getTransactionsMetaByBlocks (
+        headers: TurtleCoindInterfaces.IBlockHeader[],
+        db: IDatabase = this.m_db
+    ): Promise<Map<string, TurtleCoindInterfaces.TransactionSummary[]>> {
+        const result: Map<string, TurtleCoindInterfaces.TransactionSummary[]> =
+            new Map<string, TurtleCoindInterfaces.TransactionSummary[]>();
+
+        const missing: TurtleCoindInterfaces.IBlockHeader[] = [];
+
+        await this.refreshChainState();
+
+        for (const header of headers) {
+            const cached = this.m_summaryCache.get(header.hash);
+
+            if (cached) {
+                result.set(header.hash, cached.map(summary => Object.assign({}, summary)));
+            } else {
+                missing.push(header);
+
+                result.set(header.hash, []);
+            }
+        }
+
+        if (missing.length === 0) {
+            return result;
+        }
+
+        const heights = missing.map(header => header.height);
+
+        const generation = this.m_cacheGeneration;
+
+        const [, rows] = await db.query(
+            'SELECT transactions.block_hash AS block_hash, transactions.hash AS hash, fee, amount, size ' +
+            'FROM blockchain JOIN transactions ON transactions.block_hash = blockchain.hash ' +
+            'LEFT JOIN transaction_meta ON transaction_meta.hash = transactions.hash ' +
+            'WHERE height >= ? AND height <= ? ORDER BY height, coinbase',
+            [Math.min(...heights), Math.max(...heights)]);
+
+        for (const row of rows) {
+            const summaries = result.get(row.block_hash);
+
+            if (summaries) {
+                summaries.push({
+                    hash: row.hash,
+                    amountOut: parseInt(row.amount, 10),
+                    fee: parseInt(row.fee, 10),
+                    size: parseInt(row.size, 10)
+                });
+            }
+        }
+
+        for (const header of missing) {
+            const summaries = result.get(header.hash) || [];
+
+            if (generation === this.m_cacheGeneration) {
+                this.m_summaryCache.set(
+                    header.hash, summaries.map(summary => Object.assign({}, summary)), header.height);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Retrieves the number of outputs of the given amount that were created in blocks
+     * at, or below, the given height. As global indexes are assigned in the order that
+     * outputs are added to the chain, these are the outputs with the lowest indexes
+     * @param amount the output amount
+     * @param height the maximum block height
+     * @param db the database connection to read from
+     * @private
+     */
+    private async getDecoyOutputCount (amount: number, height: number, db: IDatabase = this.m_db): Promise<number> {
+        if (height < 0) {
+            return 0;
+        }
+
+        const [, rows] = await db.query(
+            'SELECT MAX(globalidx) AS maximum FROM transaction_outputs ' +
+            'JOIN transaction_unlocks ON transaction_unlocks.hash = transaction_outputs.hash ' +
+            'WHERE amount = ? AND height <= ?',
+            [amount, height]);
+
+        if (rows.length === 0 || rows[0].maximum === null || rows[0].maximum === undefined) {
+            return 0;
+        }
+
+        return parseInt(rows[0].maximum, 10) + 1;
+    }
+
+    /**
+     * Retrieves the unlock time of a transaction. The unlock times of transactions saved
+     * before they were stored separately are read from the transaction itself until they
+     * are restored by `yarn reindex`, as reads never write to the database
+     * @param hash the transaction hash
+     * @param unlockTime the stored unlock time, if any
+     * @param db the database connection to read from
+     * @private
+     */
+    private async getUnlockTime (
+        hash: string,
+        unlockTime: string | number | null,
+        db: IDatabase = this.m_db
+    ): Promise<BigInteger.BigInteger> {
+        if (unlockTime !== null) {
+            return BigInteger(unlockTime.toString());
+        }
+
+        const tx = await this.queryTransaction(hash, db);
+
+        return BigInteger(tx.unlockTime.toString());
+    }
+
+    /**
+     * Retrieves the non-coinbase transactions of the blocks between the given heights (inclusive)
+     * using a single query
+     * @param startHeight the starting block height
+     * @param endHeight the ending block height
+     * @param db the database connection to read from
+     * @returns the transactions keyed by block hash
+     * @private
+     */
+    private async getTransactionsByBlocks (
+        startHeight: number,
+        endHeight: number,
+        db: IDatabase = this.m_db
+    ): Promise<Map<string, { hash: string, data: string }[]>> {
+        const result: Map<string, { hash: string, data: string }[]> =
+            new Map<string, { hash: string, data: string }[]>();
+
+        const [, rows] = await db.query(
+            'SELECT transactions.block_hash AS block_hash, transactions.hash AS hash, data FROM blockchain ' +
+            'JOIN transactions ON transactions.block_hash = blockchain.hash ' +
+            'WHERE height >= ? AND height <= ? AND coinbase = 0 ORDER BY height',
+            [startHeight, endHeight]);
+
+        for (const row of rows) {
+            const transactions = result.get(row.block_hash) || [];
+
+            transactions.push({ hash: row.hash, data: row.data });
+
+            result.set(row.block_hash, transactions);
+        }
+
+        return result;
+    }
+
+    /**
+     * Retrieves the blocks to sync, starting at the given height, and their non-coinbase transactions
+     * @param startHeight the height to start syncing from
+     * @param skipCoinbaseTransactions whether blocks that only include coinbase transactions are skipped
+     * @param count the number of blocks to retrieve
+     * @param db the database connection to read from
+     * @returns the blocks in ascending height order and their transactions keyed by block hash
+     * @private
+     */
+    private async getSyncBlocks (
+        startHeight: number,
+        skipCoinbaseTransactions: boolean,
+        count: number,
+        db: IDatabase = this.m_db
+    ): Promise<[{ hash: string, data: string }[], Map<string, { hash: string, data: string }[]>]> {
+        const skip = (skipCoinbaseTransactions) ? ' AND transactionscount > 1 ' : '';
+
+        const [, rows] = await db.query(
+            'SELECT blocks.hash AS hash, height, data FROM blocks LEFT JOIN blockchain ON ' +
+            'blockchain.hash = blocks.hash WHERE height >= ? ' + skip + ' ORDER BY height ASC LIMIT ?',
+            [startHeight, count]);
+
+        const transactions = (rows.length !== 0)
+            ? await this.getTransactionsByBlocks(
+                parseInt(rows[0].height, 10), parseInt(rows[rows.length - 1].height, 10), db)
+            : new Map<string, { hash: string, data: string }[]>();
+
+        return [rows.map(row => { return { hash: row.hash, data: row.data }; }), transactions];
+    }
+
+    /**
+     * Retrieves a Block from the database
+     * @param hash the block hash
+     */
+    public async getBlock (hash: string): Promise<Block> {
+        hash = validateHash(hash, 'hash');
+
+        const [count, rows] = await this.m_db.query(
+            'SELECT data FROM blocks WHERE hash = ?',
+            [hash]);
+
+        if (count === 0) throw new ReferenceError('Block not found: ' + hash);
+
+        return Block.from(rows[0].data);
+    }
+
+    /**
+     * Retrieve the block hash for the given transaction
+     * @param hash the transaction hash
+     * @param db the database connection to read from
+     * @private
+     */
+    private async getBlockHashByTransaction (hash: string, db: IDatabase = this.m_db): Promise<string> {
+        const [count, rows] = await db.query(
+            'SELECT block_hash FROM transactions WHERE hash = ?', [hash]);
+
+        if (count === 0) throw new ReferenceError('Transaction not found: ' + hash);
+
+        return rows[0].block_hash;
+    }
+
+    /**
+     * Retrieves the blocks at or above a given height from the database, in descending
+     * height order, and whether their connection to the main chain has been completed
+     * @param height the height to start retrieving blocks from
+     * @private
+     */
+    private async getBlocksAboveHeight (
+        height: number
+    ): Promise<{ hash: string, height: number, connected: boolean }[]> {
+        const [count, rows] = await this.m_db.query(
+            'SELECT blockchain.hash AS hash, height, block_meta.hash AS meta FROM blockchain ' +
+            'LEFT JOIN block_meta ON block_meta.hash = blockchain.hash WHERE height >= ? ORDER BY height DESC',
+            [height]);
+
+        if (count === 0) return [];
+
+        return rows.map(row => {
+            return {
+                hash: row.hash,
+                height: parseInt(row.height, 10),
+                connected: !!row.meta
+            };
+        });
+    }
+
+    /**
+     * Retrieves a Block Header from the database
+     * @param hash the block hash or block height
+     * @param db the database connection to read from
+     * @private
+     */
+    private async getBlockHeader (
+        hash: string | number,
+        db: IDatabase = this.m_db
+    ): Promise<TurtleCoindInterfaces.IBlockHeader> {
+        if (typeof hash === 'number') {
+            hash = await this.queryHashFromHeight(hash, db);
+        }
+
+        hash = hash.toLowerCase();
+
+        return this.getBlockMeta(hash, db);
+    }
+
+    /**
+     * Retrieves the block headers from the database up to the given height
+     * @param height the block height to finish at
+     * @param limit the number of block headers to retrieve
+     * @param db the database connection to read from
+     * @private
+     */
+    private async getBlockHeaders (
+        height: number,
+        limit = 30,
+        db: IDatabase = this.m_db
+    ): Promise<TurtleCoindInterfaces.IBlockHeader[]> {
+        await this.refreshChainState();
+
+        let headers: TurtleCoindInterfaces.IBlockHeader[] = [];
+
+        for (let i = height; i > height - limit && i >= 0; i--) {
+            const hash = this.m_hashCache.get(i);
+
+            const header = (hash !== undefined) ? this.m_headerCache.get(hash) : undefined;
+
+            if (header === undefined) {
+                break;
+            }
+
+            headers.push(header);
+        }
+
+        if (headers.length !== Math.min(limit, height + 1)) {
+            const generation = this.m_cacheGeneration;
+
+            const [count, rows] = await db.query(
+                'SELECT block_meta.hash AS hash, prevhash, height, basereward, difficulty, majorversion, ' +
+                'minorversion, nonce, size, utctimestamp, alreadygeneratedcoins, alreadygeneratedtransactions, ' +
+                'reward, sizemedian, totalfeeamount, transactionscount, transactionscumulativesize, orphan, penalty ' +
+                'FROM block_meta LEFT JOIN blockchain ON blockchain.hash = block_meta.hash WHERE height <= ? ' +
+                'ORDER BY height DESC LIMIT ?', [height, limit]);
+
+            if (count === 0) throw new ReferenceError('No blocks found in database');
+
+            headers = rows.map(row => blockHeaderFromRow(row, 0));
+
+            if (generation === this.m_cacheGeneration) {
+                for (const header of headers) {
+                    this.m_hashCache.set(header.height, header.hash, header.height);
+
+                    this.m_headerCache.set(header.hash, header, header.height);
+                }
+            }
+        }
+
+        // the depth of the blocks changes as blocks are added so it is not cached
+        return headers.map(header => {
+            return { ...header, depth: Math.max(this.m_chainTopHeight - header.height, 0) };
+        });
+    }
+
+    /**
+     * Retrieves block meta data
+     * @param hash the block hash
+     * @param db the database connection to read from
+     * @private
+     */
+    private async getBlockMeta (hash: string, db: IDatabase = this.m_db): Promise<TurtleCoindInterfaces.IBlockHeader> {
+        try {
+            const height = await this.queryHeightFromHash(hash, db);
+
+            const result = await this.getBlockHeaders(height, 1, db);
+
+            return result[0];
+        } catch (error) {
+            if (error instanceof ReferenceError) {
+                throw new ReferenceError('Block meta data not found: ' + hash);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves arbitrary information from the database
+     */
+    public async getInformation (): Promise<TurtleCoindInterfaces.IInfo> {
+        const [count, rows] = await this.m_db.query(
+            'SELECT data FROM information WHERE idx = ?', ['info']);
+
+        if (count === 0) throw new Error('Information key not found');
+
+        const topBlock = await this.lastBlock();
+
+        const transactions = await this.getUserTransactionsCount();
+
+        try {
+            const result: TurtleCoindInterfaces.IInfo = JSON.parse(rows[0].data);
+
+            /**
+             * We have to overwrite a few of these values so that it reflects
+             * the current status of the database in the response
+             */
+
+            result.isCacheApi = true;
+
+            result.height = topBlock.height;
+
+            result.networkHeight--;
+
+            if (result.height !== result.networkHeight) {
+                result.synced = false;
+            }
+
+            result.difficulty = topBlock.difficulty;
+
+            result.hashrate = Math.round(result.difficulty / 30);
+
+            result.lastBlockIndex = topBlock.height;
+
+            result.majorVersion = topBlock.majorVersion;
+
+            result.minorVersion = topBlock.minorVersion;
+
+            result.startTime = new Date((result as any).startTime);
+
+            result.transactionsSize = transactions;
+
+            return result;
+        } catch {
+            throw new SyntaxError('Malformed JSON found in database');
+        }
+    }
+
+    public async getPeers (): Promise<TurtleCoindInterfaces.IPeers> {
+        const [count, rows] = await this.m_db.query(
+            'SELECT data FROM information WHERE idx = ?', ['peers']);
+
+        if (count === 0) throw new Error('Peers key not found');
+
+        try {
+            return JSON.parse(rows[0].data);
+        } catch {
+            throw new SyntaxError('Malformed JSON found in database');
+        }
+    }
+
+    /**
+     * Retrieves the fee and size of the non-coinbase transactions in the given block range
+     * @param startHeight the height to start at
+     * @param endHeight the height to end at
+     * @private
+     */
+    private async getBlockTransactionFees (
+        startHeight: number,
+        endHeight: number
+    ): Promise<{ height: number, hash: string, fee: number, size: number }[]> {
+        const [, rows] = await this.m_db.query(
+            'SELECT height, blockchain.hash AS hash, fee, size FROM blockchain ' +
+            'JOIN transactions ON transactions.block_hash = blockchain.hash ' +
+            'JOIN transaction_meta ON transaction_meta.hash = transactions.hash ' +
+            'WHERE height >= ? AND height <= ? AND coinbase = 0 ORDER BY height ASC',
+            [startHeight, endHeight]);
+
+        return rows.map(row => {
+            return {
+                height: parseInt(row.height, 10),
+                hash: row.hash,
+                fee: parseInt(row.fee, 10),
+                size: parseInt(row.size, 10)
+            };
+        });
+    }
+
+    /**
+     * Connects to RabbitMQ for remote block processing the first time that blocks are saved
+     * so that instances that only read from the database do not connect
+     * @private
+     */
+    private async initWorkers (): Promise<void> {
+        // We cannot use clustered workers with SQLITE
+        if (this.m_db.type === DBType.SQLITE) {
+            return;
+        }
+
+        if (!this.m_workersInit) {
+            this.m_workersInit = this.m_worker.init()
+                .then(() => {
+                    this.m_useWorkers = true;
+
+                    Logger.info('Connected to RabbitMQ for remote block processing.');
+                })
+                .catch(() => {
+                    Logger.warn('Could not connect to RabbitMQ. Using local block processor.');
+                });
+        }
+
+        return this.m_workersInit;
+    }
+
+    /**
+     * Performs a read using the next read replica that is following the chain of the primary.
+     * A replica is only used when its top block is in the main chain of the primary, is no more
+     * than REPLICA_MAX_LAG blocks below the top block of the primary and is at, or above, the
+     * given height. If no replica qualifies, or the read fails, or is not accepted, on every
+     * replica that does, the read is performed using the primary. The top blocks of the primary
+     * and of the replicas are only read again when the chain state is refreshed, so that routing
+     * a read does not query the primary
+     * @param height the height that the replica must have reached
+     * @param read the read to perform using the given database connection
+     * @param accept whether the result of a read using a replica may be returned
+     * @returns the result of the read
+     * @private
+     */
+    private async readReplica<T> (
+        height: number,
+        read: (db: IDatabase) => Promise<T>,
+        accept: (result: T) => boolean = () => true
+    ): Promise<T> {
+        if (this.m_replicas.length === 0) {
+            return read(this.m_db);
+        }
+
+        await this.refreshChainState();
+
+        const topHeight = this.m_chainTopHeight;
+
+        const minimumHeight = Math.max(Math.min(height, topHeight), topHeight - this.m_replicaMaxLag);
+
+        for (let i = 0; i < this.m_replicas.length; i++) {
+            const replica = this.m_replicas[this.m_nextReplica];
+
+            this.m_nextReplica = (this.m_nextReplica + 1) % this.m_replicas.length;
+
+            const replicaHeight = await this.getReplicaHeight(replica);
+
+            if (replicaHeight === -1 || replicaHeight < minimumHeight) {
+                continue;
+            }
+
+            try {
+                const result = await read(replica);
+
+                if (accept(result)) {
+                    return result;
+                }
+            } catch (error) {
+                // the replica may not have replicated the data requested yet, or may be unavailable
+                Logger.debug('Could not read from replica: %s', error.toString());
+            }
+        }
+
+        return read(this.m_db);
+    }
+
+    /**
+     * Retrieves the top block height of a read replica, or -1 if the replica has no blocks,
+     * cannot be read or its top block is not in the main chain of the primary. The top block
+     * of the replica is read, and checked against the primary, once for each chain state
+     * @param replica the read replica connection
+     * @private
+     */
+    private async getReplicaHeight (replica: IDatabase): Promise<number> {
+        const version = this.m_chainVersion;
+
+        const cached = this.m_replicaHeights.get(replica);
+
+        if (cached && cached.version === version) {
+            return cached.height;
+        }
+
+        let height = -1;
+
+        try {
+            const [count, rows] = await replica.query(
+                'SELECT hash, height FROM blockchain ORDER BY height DESC LIMIT 1');
+
+            if (count !== 0) {
+                // the top block of a replica that has not yet replicated a rewind of the primary
+                // is no longer in the main chain of the primary
+                const [matches] = await this.m_db.query(
+                    'SELECT hash FROM blockchain WHERE height = ? AND hash = ?',
+                    [parseInt(rows[0].height, 10), rows[0].hash]);
+
+                if (matches !== 0) {
+                    height = parseInt(rows[0].height, 10);
+                }
+            }
+        } catch (error) {
+            Logger.debug('Could not read the top block of replica: %s', error.toString());
+        }
+
+        this.m_replicaHeights.set(replica, { version: version, height: height });
+
+        return height;
+    }
+
+    /**
+     * Retrieves the timestamp of the block at the given height, or of the top block if
+     * the given height has not been reached. Timestamp based unlock times are checked
+     * against this time rather than the clock so that the same outputs are unlocked at
+     * a height regardless of when the check is made
+     * @param height the block height
+     * @param db the database connection to read from
+     * @private
+     */
+    private async getBlockTimestamp (height: number, db: IDatabase = this.m_db): Promise<number> {
+        const [count, rows] = await db.query(
+            'SELECT utctimestamp FROM blockchain WHERE height <= ? ORDER BY height DESC LIMIT 1', [height]);
+
+        if (count === 0) throw new Error('No blocks in database');
+
+        return parseInt(rows[0].utctimestamp, 10);
+    }
+
+    /**
+     * Retrieves the top block height in the database
+     * @private
+     */
+    private async getTopBlockHeight (): Promise<number> {
+        const [count, rows] = await this.m_db.query(
+            'SELECT height FROM blockchain ORDER BY height DESC LIMIT 1');
+
+        if (count === 0) throw new Error('No blocks in database');
+
+        return parseInt(rows[0].height, 10);
+    }
+
+    /**
+     * Removes the cached data derived from the blocks at, or above, the given height. The
+     * top block height is read from the database again before it is next used
+     * @param height the height
+     * @private
+     */
+    private invalidateCache (height: number) {
+        // reads that started before the invalidation must not cache what they read
+        this.m_cacheGeneration++;
+
+        this.m_chainExpires = 0;
+
+        this.m_headerCache.invalidate(height);
+
+        this.m_summaryCache.invalidate(height);
+
+        this.m_rawBlockCache.invalidate(height);
+
+        this.m_transactionCache.invalidate(height);
+
+        this.m_hashCache.invalidate(height);
+    }
+
+    /**
+     * Reads the top block height, and the chain changes recorded since they were last read, from
+     * the database at most once every CHAIN_REFRESH_INTERVAL milliseconds. The cached data derived
+     * from any block at, or above, the lowest height at which a block has been connected to, or
+     * disconnected from, the main chain is removed. As the chain changes are read from the database,
+     * this includes the changes made by other processes (ie. the collector), while the changes made
+     * by this instance are applied as they are made
+     * @private
+     */
+    private async refreshChainState (): Promise<void> {
+        if (Date.now() < this.m_chainExpires) {
+            return;
+        }
+
+        if (!this.m_chainRefresh) {
+            this.m_chainRefresh = (async () => {
+                try {
+                    const [count, rows] = await this.m_db.query(
+                        'SELECT value FROM sequences WHERE name = ?', ['chain_changes']);
+
+                    const cursor = (count !== 0) ? parseInt(rows[0].value, 10) : 0;
+
+                    if (this.m_chainCursor === undefined || cursor < this.m_chainCursor) {
+                        this.invalidateCache(0);
+                    } else if (cursor > this.m_chainCursor) {
+                        const [, changes] = await this.m_db.query(
+                            'SELECT MIN(height) AS height FROM chain_changes WHERE id > ?', [this.m_chainCursor]);
+
+                        this.invalidateCache((changes.length !== 0 && changes[0].height !== null)
+                            ? parseInt(changes[0].height, 10)
+                            : 0);
+                    }
+
+                    this.m_chainCursor = cursor;
+
+                    const [blocks, top] = await this.m_db.query(
+                        'SELECT height FROM blockchain ORDER BY height DESC LIMIT 1');
+
+                    this.m_chainTopHeight = (blocks !== 0) ? parseInt(top[0].height, 10) : -1;
+
+                    // the top blocks of the read replicas are checked again against the new state
+                    this.m_chainVersion++;
+
+                    this.m_chainExpires = Date.now() + this.m_chainRefreshInterval;
+                } finally {
+                    this.m_chainRefresh = undefined;
+                }
+            })();
+        }
+
+        return this.m_chainRefresh;
+    }
+
+    /**
+     * Retrieves a Transaction from the database
+     * @param hash the transaction hash
+     */
+    public async getTransaction (hash: string): Promise<Transaction> {
+        hash = validateHash(hash, 'hash');
+
+        return this.queryTransaction(hash);
+    }
+
+    /**
+     * Retrieves a Transaction from the given database connection
+     * @param hash the transaction hash
+     * @param db the database connection to read from
+     * @private
+     */
+    private async queryTransaction (hash: string, db: IDatabase = this.m_db): Promise<Transaction> {
+        const [count, rows] = await db.query(
+            'SELECT data FROM transactions WHERE hash = ?',
+            [hash]);
+
+        if (count === 0) throw new ReferenceError('Transaction not found: ' + hash);
+
+        return Transaction.from(rows[0].data);
+    }
+
+    /**
+     * Retrieves the current output values for the provided transaction hash and index location
+     * @param hash the transaction hash
+     * @private
+     */
+    private async getTransactionOutputs (hash: string): Promise<{amount: number, outputKey: string}[]> {
+        const [, rows] = await this.m_db.query(
+            'SELECT amount, outputkey FROM transaction_outputs WHERE hash = ? ORDER BY idx ASC', [hash]);
+
+        return rows.map(row => {
+            return {
+                amount: parseInt(row.amount, 10),
+                outputKey: row.outputKey || row.outputkey
+            };
+        });
+    }
+
+    /**
+     * Retrieves the number of user transactions in the database
+     * @private
      */
-    public async close (): Promise<void> {
-        return this.m_db.close();
-    }
+    private async getUserTransactionsCount (): Promise<number> {
+        const [, rows] = await this.m_db.query('SELECT COUNT(*) AS cnt FROM transactions WHERE coinbase = 0');
 
-    /**
-     * Retrieves the genesis hash
-     */
-    public async genesisHash (): Promise<string> {
-        return this.hashFromHeight(0);
+        return parseInt(rows[0].cnt, 10);
     }
 
     /**
-     * Retrieve the proper start sync height based on the selected parameters
-     * @param checkpoints the known block hash checkpoints
-     * @param height the known block height
-     * @param timestamp the timestamp to start syncing from
+     * Retrieves an array of block hashes that can be sent to a traditional
+     * daemon for syncing purposes
      */
-    public async getSyncHeight (
-        checkpoints: string[] = [],
-        height = 0,
-        timestamp = 0
-    ): Promise<number> {
-        let syncHeight = 0;
-
-        if (checkpoints.length > 0) {
-            const clauses: string[] = [];
+    public async hashesForSync (): Promise<string[]> {
+        const hashes: string[] = [];
 
-            for (const checkpoint of checkpoints) {
-                clauses.push(format('hash = \'%s\'', checkpoint));
+        const insert = (hash: string) => {
+            if (hashes.indexOf(hash) === -1) {
+                hashes.push(hash);
             }
+        };
+
+        try {
+            const topBlockHeight = await this.getTopBlockHeight();
 
             const [count, rows] = await this.m_db.query(
-                'SELECT height FROM blockchain WHERE ' + clauses.join(' OR ') + ' ORDER BY height DESC LIMIT 1');
+                'SELECT hash, height FROM blockchain WHERE height <= ? ORDER BY height DESC LIMIT 11',
+                [topBlockHeight]);
 
-            if (count !== 0) {
-                syncHeight = parseInt(rows[0].height, 10);
+            if (!count) return [];
 
-                syncHeight++;
-            }
-        }
+            rows.map(elem => insert(elem.hash));
 
-        if (timestamp > 0) {
-            const [count, rows] = await this.m_db.query(
-                'SELECT height FROM blockchain WHERE utctimestamp <= ? ORDER BY height DESC LIMIT 1',
-                [timestamp]);
+            let bottomHeight = parseInt(rows[rows.length - 1].height, 10);
+            let n = 1;
 
-            if (count !== 0) {
-                syncHeight = parseInt(rows[0].height, 10);
+            do {
+                const diff = Math.pow(2, n);
+                bottomHeight = bottomHeight - diff;
+                if (bottomHeight > 0) {
+                    n++;
+                    const hash = await this.hashFromHeight(bottomHeight);
+                    insert(hash);
+                }
+            } while (bottomHeight > 0);
 
-                syncHeight++;
-            }
-        }
+            const hash = await this.genesisHash();
 
-        if (height > syncHeight) {
-            syncHeight = height;
+            insert(hash);
+
+            return hashes;
+        } catch (e) {
+            return [];
         }
+    }
 
-        return syncHeight;
+    /**
+     * Retrieves the hash from the height
+     * @param height
+     */
+    public async hashFromHeight (height: number): Promise<string> {
+        validateInteger(height, 'height');
+
+        return this.queryHashFromHeight(height);
     }
 
     /**
-     * Retrieves transaction meta data
-     * @param hash the transaction hash
+     * Retrieves the hash from the height using the given database connection
+     * @param height the block height
+     * @param db the database connection to read from
      * @private
      */
-    private async getTransactionMeta (hash: string): Promise<TurtleCoindInterfaces.TransactionSummary> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT hash, fee, amount, size FROM transaction_meta WHERE hash = ?', [hash]);
+    private async queryHashFromHeight (height: number, db: IDatabase = this.m_db): Promise<string> {
+        const [count, rows] = await db.query(
+            'SELECT hash FROM blockchain WHERE height = ?',
+            [height]);
 
-        if (count === 0) throw new Error('Transaction meta data not found: ' + hash);
+        if (count === 0) throw new ReferenceError('No block exists for given height: ' + height);
 
-        return {
-            hash: rows[0].hash,
-            amountOut: parseInt(rows[0].amount, 10),
-            fee: parseInt(rows[0].fee, 10),
-            size: parseInt(rows[0].size, 10)
-        };
+        return rows[0].hash;
     }
 
     /**
-     * Retrieves all transaction meta information for the given block
-     * @param hash the transaction hash
-     * @private
+     * indicates whether we have the genesis hash in the database
      */
-    private async getTransactionsMetaByBlock (hash: string): Promise<TurtleCoindInterfaces.TransactionSummary[]> {
-        const [, rows] = await this.m_db.query(
-            'SELECT transactions.hash AS hash, fee, amount, size FROM transactions LEFT JOIN transaction_meta ' +
-            'ON transaction_meta.hash = transactions.hash WHERE transactions.block_hash = ? ORDER BY coinbase',
-            [hash]);
+    public async haveGenesis (): Promise<boolean> {
+        try {
+            const hash = await this.genesisHash();
 
-        return rows
-            .map(row => {
-                return {
-                    hash: row.hash,
-                    amountOut: parseInt(row.amount, 10),
-                    fee: parseInt(row.fee, 10),
-                    size: parseInt(row.size, 10)
-                };
-            });
+            return (hash.length !== 0);
+        } catch (e) {
+            return false;
+        }
     }
 
     /**
-     * Retrieves a Block from the database
-     * @param hash the block hash
+     * Retrieves the height of the last block with a timestamp at or before the given timestamp
+     * @param timestamp the timestamp (seconds)
      */
-    public async getBlock (hash: string): Promise<Block> {
+    public async heightAtTime (timestamp: number): Promise<number> {
+        validateInteger(timestamp, 'timestamp');
+
         const [count, rows] = await this.m_db.query(
-            'SELECT data FROM blocks WHERE hash = ?',
-            [hash]);
+            'SELECT height FROM blockchain WHERE utctimestamp <= ? ORDER BY height DESC LIMIT 1',
+            [timestamp]);
 
-        if (count === 0) throw new Error('Block not found: ' + hash);
+        if (count === 0) throw new Error('No block exists at or before the given timestamp: ' + timestamp);
 
-        return Block.from(rows[0].data);
+        return parseInt(rows[0].height, 10);
     }
 
     /**
-     * Retrieve the block hash for the given transaction
-     * @param hash the transaction hash
-     * @private
+     * Retrieves the height from the hash
+     * @param hash
      */
-    private async getBlockHashByTransaction (hash: string): Promise<string> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT block_hash FROM transactions WHERE hash = ?', [hash]);
-
-        if (count === 0) throw new Error('Transaction not found');
+    public async heightFromHash (hash: string): Promise<number> {
+        hash = validateHash(hash, 'hash');
 
-        return rows[0].block_hash;
+        return this.queryHeightFromHash(hash);
     }
 
     /**
-     * Retrieves the block hashes above a given height from the database
-     * @param height the height to start retrieving block hashes from
+     * Retrieves the height from the hash using the given database connection
+     * @param hash the block hash
+     * @param db the database connection to read from
      * @private
      */
-    private async getBlockHashesAboveHeight (height: number): Promise<string[]> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT hash FROM blockchain WHERE height >= ?',
-            [height]);
+    private async queryHeightFromHash (hash: string, db: IDatabase = this.m_db): Promise<number> {
+        const [count, rows] = await db.query(
+            'SELECT height FROM blockchain WHERE hash = ?',
+            [hash]);
 
-        if (count === 0) return [];
+        if (count === 0) throw new ReferenceError('Block not found: ' + hash);
 
-        return rows.map(elem => elem.hash);
+        return parseInt(rows[0].height, 10);
     }
 
     /**
-     * Retrieves a Block Header from the database
-     * @param hash the block hash or block height
-     * @private
+     * Imports a bootstrap file created by exportBootstrap(). The file is verified against its
+     * manifest before any block is imported and each block is verified to be intact and to
+     * follow the previous block as it is imported. The database must contain the blocks
+     * that precede the first block in the file; blocks of the file that are already in the
+     * database are verified and skipped, so an import that did not complete may be retried
+     * @param path the path of the bootstrap file
      */
-    private async getBlockHeader (hash: string | number): Promise<TurtleCoindInterfaces.IBlockHeader> {
-        if (typeof hash === 'number') {
-            hash = await this.hashFromHeight(hash);
-        }
+    public async importBootstrap (path: string): Promise<IBootstrapManifest> {
+        return readBootstrap(this, path);
+    }
 
-        hash = hash.toLowerCase();
+    /**
+     * Retrieves the daemon /info snapshots within the given time range. If an interval
+     * is supplied, the snapshots are downsampled by averaging them over each interval
+     * @param startTime the timestamp (seconds) to start at
+     * @param endTime the timestamp (seconds) to end at
+     * @param interval the downsampling interval in seconds
+     */
+    public async infoHistory (
+        startTime = 0,
+        endTime = Number.MAX_SAFE_INTEGER,
+        interval = 1
+    ): Promise<IInfoSnapshot[]> {
+        validateInteger(startTime, 'startTime');
+
+        validateInteger(endTime, 'endTime');
+
+        validateInteger(interval, 'interval');
+
+        const [, rows] = await this.m_db.query(
+            'SELECT utctimestamp - (utctimestamp % ?) AS bucket, AVG(height) AS height, ' +
+            'AVG(networkheight) AS networkheight, AVG(difficulty) AS difficulty, AVG(hashrate) AS hashrate, ' +
+            'AVG(incomingconnections) AS incomingconnections, AVG(outgoingconnections) AS outgoingconnections, ' +
+            'AVG(whitepeerlistsize) AS whitepeerlistsize, AVG(greypeerlistsize) AS greypeerlistsize, ' +
+            'AVG(transactionspoolsize) AS transactionspoolsize FROM info_history ' +
+            'WHERE utctimestamp >= ? AND utctimestamp <= ? GROUP BY bucket ORDER BY bucket ASC',
+            [Math.max(Math.floor(interval), 1), startTime, endTime]);
 
-        return this.getBlockMeta(hash);
+        return rows.map(row => {
+            return {
+                timestamp: new Date(parseInt(row.bucket, 10) * 1000),
+                height: Math.round(parseFloat(row.height)),
+                networkHeight: Math.round(parseFloat(row.networkheight)),
+                difficulty: Math.round(parseFloat(row.difficulty)),
+                hashrate: Math.round(parseFloat(row.hashrate)),
+                incomingConnections: Math.round(parseFloat(row.incomingconnections)),
+                outgoingConnections: Math.round(parseFloat(row.outgoingconnections)),
+                whitePeerlistSize: Math.round(parseFloat(row.whitepeerlistsize)),
+                greyPeerlistSize: Math.round(parseFloat(row.greypeerlistsize)),
+                transactionsPoolSize: Math.round(parseFloat(row.transactionspoolsize))
+            };
+        });
     }
 
     /**
-     * Retrieves the block headers from the database up to the given height
-     * @param height the block height to finish at
-     * @param limit the number of block headers to retrieve
-     * @private
+     * Initializes the required database structure in the database by applying
+     * any schema migrations that have not yet been applied. Refuses to start if
+     * the schema stored in the database is newer than this package supports
+     */
+    public async init (): Promise<void> {
+        await this.migrate();
+    }
+
+    /**
+     * Checks whether the specified output may be spent in the block following the given
+     * height. An output is locked until the unlock time of its transaction, either a
+     * block height or a timestamp, has passed and coinbase outputs are also locked until
+     * MINED_MONEY_UNLOCK_WINDOW blocks have been built on top of the block containing them
+     * @param globalIndex the global index of the output
+     * @param amount the amount of the output
+     * @param atHeight the height to check at, defaults to the current top block and time
      */
-    private async getBlockHeaders (height: number, limit = 30): Promise<TurtleCoindInterfaces.IBlockHeader[]> {
+    public async isOutputUnlocked (globalIndex: number, amount: number, atHeight?: number): Promise<boolean> {
+        validateInteger(globalIndex, 'globalIndex');
+
+        validateInteger(amount, 'amount');
+
+        if (atHeight !== undefined) {
+            validateInteger(atHeight, 'atHeight');
+        }
+
         const [count, rows] = await this.m_db.query(
-            'SELECT block_meta.hash AS hash, prevhash, height, basereward, difficulty, majorversion, ' +
-            'minorversion, nonce, size, utctimestamp, alreadygeneratedcoins, alreadygeneratedtransactions, ' +
-            'reward, sizemedian, totalfeeamount, transactionscount, transactionscumulativesize, orphan, penalty ' +
-            'FROM block_meta LEFT JOIN blockchain ON blockchain.hash = block_meta.hash WHERE height <= ? ORDER BY ' +
-            'height DESC LIMIT ?', [height, limit]);
+            'SELECT transaction_outputs.hash AS hash, coinbase, height, unlocktime FROM transaction_outputs ' +
+            'JOIN transactions ON transactions.hash = transaction_outputs.hash ' +
+            'JOIN transaction_unlocks ON transaction_unlocks.hash = transaction_outputs.hash ' +
+            'WHERE amount = ? AND globalidx = ?', [amount, globalIndex]);
 
-        if (count === 0) throw new Error('No blocks found in database');
+        if (count === 0) {
+            throw new ReferenceError('Output not found: ' + amount + ' (' + globalIndex + ')');
+        }
 
-        const topHeight = await this.getTopBlockHeight();
+        const height = (atHeight !== undefined) ? atHeight : await this.getTopBlockHeight();
 
-        return rows
-            .map(row => {
-                return {
-                    hash: row.hash,
-                    prevHash: row.prevhash,
-                    height: parseInt(row.height, 10),
-                    baseReward: parseInt(row.basereward, 10),
-                    difficulty: parseInt(row.difficulty, 10),
-                    majorVersion: parseInt(row.majorversion, 10),
-                    minorVersion: parseInt(row.minorversion, 10),
-                    nonce: parseInt(row.nonce, 10),
-                    size: parseInt(row.size),
-                    timestamp: new Date(parseInt(row.utctimestamp, 10) * 1000),
-                    alreadyGeneratedCoins: BigInteger(row.alreadygeneratedcoins),
-                    alreadyGeneratedTransactions:
-                        parseInt(row.alreadygeneratedtransactions, 10),
-                    reward: parseInt(row.reward, 10),
-                    sizeMedian: parseInt(row.sizemedian, 10),
-                    totalFeeAmount: parseInt(row.totalfeeamount, 10),
-                    transactionsCumulativeSize:
-                        parseInt(row.transactionscumulativesize, 10),
-                    transactionCount: parseInt(row.transactionscount, 10),
-                    depth: topHeight - parseInt(row.height, 10),
-                    orphan: (row.orphan === 1 || row.orpahn === '1'),
-                    penalty: parseInt(row.penalty, 10)
-                };
-            });
+        const outputHeight = parseInt(rows[0].height, 10);
+
+        if (outputHeight > height) {
+            return false;
+        }
+
+        if (parseInt(rows[0].coinbase, 10) === 1 && height < outputHeight + MINED_MONEY_UNLOCK_WINDOW) {
+            return false;
+        }
+
+        const timestamp = await this.getBlockTimestamp(height);
+
+        return isUnlocked(await this.getUnlockTime(rows[0].hash, rows[0].unlocktime), height, timestamp);
     }
 
     /**
-     * Retrieves block meta data
-     * @param hash the block hash
-     * @private
+     * Retrieves the spent status of the specified key images by checking both the
+     * transactions in the blockchain and the transactions in the memory pool
+     * @param keyImages an array of key images
      */
-    private async getBlockMeta (hash: string): Promise<TurtleCoindInterfaces.IBlockHeader> {
-        try {
-            const height = await this.heightFromHash(hash);
+    public async keyImagesStatus (keyImages: string[]): Promise<IKeyImagesStatus> {
+        const result: IKeyImagesStatus = {
+            inBlock: [],
+            inPool: [],
+            unspent: []
+        };
 
-            const result = await this.getBlockHeaders(height, 1);
+        keyImages = validateHashes(keyImages, 'keyImages')
+            .filter((keyImage, index, self) => self.indexOf(keyImage) === index);
 
-            return result[0];
-        } catch {
-            throw new Error('Block meta data not found: ' + hash);
+        const found: string[] = [];
+
+        for (let i = 0; i < keyImages.length; i += 25) {
+            const batch = keyImages.slice(i, i + 25);
+
+            const [, rows] = await this.m_db.query(
+                'SELECT transaction_inputs.keyimage AS keyimage, transaction_inputs.hash AS hash, ' +
+                'blockchain.hash AS block_hash, height FROM transaction_inputs ' +
+                'LEFT JOIN transactions ON transactions.hash = transaction_inputs.hash ' +
+                'LEFT JOIN blockchain ON blockchain.hash = transactions.block_hash ' +
+                'WHERE transaction_inputs.keyimage IN (' + batch.map(() => '?').join(',') + ')',
+                batch);
+
+            for (const row of rows) {
+                result.inBlock.push({
+                    keyImage: row.keyimage,
+                    blockHash: row.block_hash,
+                    height: parseInt(row.height, 10),
+                    transactionHash: row.hash
+                });
+
+                found.push(row.keyimage);
+            }
+        }
+
+        if (found.length !== keyImages.length) {
+            const [, rows] = await this.m_db.query('SELECT hash, data FROM transaction_pool');
+
+            for (const row of rows) {
+                if (!row.data) {
+                    continue;
+                }
+
+                const tx = await Transaction.from(row.data);
+
+                for (const input of tx.inputs) {
+                    if (input.type !== InputType.KEY) {
+                        continue;
+                    }
+
+                    const keyImage = (input as KeyInput).keyImage;
+
+                    if (keyImages.indexOf(keyImage) !== -1 && found.indexOf(keyImage) === -1) {
+                        result.inPool.push({
+                            keyImage: keyImage,
+                            transactionHash: row.hash
+                        });
+
+                        found.push(keyImage);
+                    }
+                }
+            }
         }
+
+        result.unspent = keyImages.filter(keyImage => found.indexOf(keyImage) === -1);
+
+        return result;
     }
 
     /**
-     * Retrieves arbitrary information from the database
+     * Retrieves the last block header
      */
-    public async getInformation (): Promise<TurtleCoindInterfaces.IInfo> {
+    public async lastBlockHeader (): Promise<TurtleCoindInterfaces.IBlockHeader> {
         const [count, rows] = await this.m_db.query(
-            'SELECT data FROM information WHERE idx = ?', ['info']);
+            'SELECT blockchain.hash AS hash FROM blockchain ' +
+            'LEFT JOIN block_meta ON block_meta.hash = blockchain.hash ' +
+            'WHERE block_meta.reward IS NOT NULL ORDER BY height DESC LIMIT 1');
 
-        if (count === 0) throw new Error('Information key not found');
+        if (count === 0) throw new Error('No blocks in the blockchain');
 
-        const topBlock = await this.lastBlock();
+        return this.getBlockHeader(rows[0].hash);
+    }
 
-        const transactions = await this.getUserTransactionsCount();
+    /**
+     * Applies any pending schema migrations to the database
+     * @param dryRun if true, the pending migrations are returned but not applied
+     */
+    public async migrate (dryRun = false): Promise<IMigrationResult> {
+        return migrate(this.m_db, dryRun);
+    }
 
-        try {
-            const result: TurtleCoindInterfaces.IInfo = JSON.parse(rows[0].data);
+    /**
+     * Retrieves every transaction that used the specified output as a ring member
+     * @param amount the amount of the output
+     * @param globalIndex the global index of the output
+     */
+    public async outputRingUsage (amount: number, globalIndex: number): Promise<IRingMemberUsage[]> {
+        validateInteger(amount, 'amount');
+
+        validateInteger(globalIndex, 'globalIndex');
+
+        const [, rows] = await this.m_db.query(
+            'SELECT transaction_input_rings.hash AS hash, keyimage, blockchain.hash AS block_hash, height ' +
+            'FROM transaction_input_rings ' +
+            'LEFT JOIN transactions ON transactions.hash = transaction_input_rings.hash ' +
+            'LEFT JOIN blockchain ON blockchain.hash = transactions.block_hash ' +
+            'WHERE amount = ? AND globalidx = ? ORDER BY height ASC',
+            [amount, globalIndex]);
+
+        return rows.map(row => {
+            return {
+                transactionHash: row.hash,
+                keyImage: row.keyimage,
+                blockHash: row.block_hash,
+                height: parseInt(row.height, 10)
+            };
+        });
+    }
 
-            /**
-             * We have to overwrite a few of these values so that it reflects
-             * the current status of the database in the response
-             */
+    /**
+     * Retrieves the transactions that contain the given payment ID, ordered by height. The
+     * transactions in blocks are paged while matching transactions in the transaction pool
+     * are always returned in full. A payment ID without any matching transactions results
+     * in an empty result
+     * @param paymentId the payment ID to search for
+     * @param options the filters and paging to apply
+     */
+    public async paymentIdTransactions (
+        paymentId: string,
+        options: IPaymentIdSearchOptions = {}
+    ): Promise<IPaymentIdSearch> {
+        paymentId = validateHash(paymentId, 'paymentId');
 
-            result.isCacheApi = true;
+        const offset = validateInteger(options.offset || 0, 'offset');
 
-            result.height = topBlock.height;
+        const limit = validateInteger(options.limit || 100, 'limit', 1, MAX_LIMIT);
 
-            result.networkHeight--;
+        for (const key of ['startHeight', 'endHeight', 'startTime', 'endTime']) {
+            const value = (options as any)[key];
 
-            if (result.height !== result.networkHeight) {
-                result.synced = false;
+            if (value !== undefined) {
+                validateInteger(value, key);
             }
+        }
 
-            result.difficulty = topBlock.difficulty;
+        const clauses: string[] = ['transaction_paymentids.paymentid = ?'];
 
-            result.hashrate = Math.round(result.difficulty / 30);
+        const values: (string | number)[] = [paymentId];
 
-            result.lastBlockIndex = topBlock.height;
+        if (options.startHeight !== undefined) {
+            clauses.push('blockchain.height >= ?');
+            values.push(options.startHeight);
+        }
 
-            result.majorVersion = topBlock.majorVersion;
+        if (options.endHeight !== undefined) {
+            clauses.push('blockchain.height <= ?');
+            values.push(options.endHeight);
+        }
 
-            result.minorVersion = topBlock.minorVersion;
+        if (options.startTime !== undefined) {
+            clauses.push('blockchain.utctimestamp >= ?');
+            values.push(options.startTime);
+        }
 
-            result.startTime = new Date((result as any).startTime);
+        if (options.endTime !== undefined) {
+            clauses.push('blockchain.utctimestamp <= ?');
+            values.push(options.endTime);
+        }
 
-            result.transactionsSize = transactions;
+        const from = 'FROM transaction_paymentids ' +
+            'JOIN transactions ON transactions.hash = transaction_paymentids.hash ' +
+            'JOIN blockchain ON blockchain.hash = transactions.block_hash ' +
+            'JOIN transaction_meta ON transaction_meta.hash = transactions.hash ' +
+            'WHERE ' + clauses.join(' AND ');
+
+        const [, totals] = await this.m_db.query('SELECT COUNT(*) AS total ' + from, values);
+
+        const [, rows] = await this.m_db.query(
+            'SELECT transactions.hash AS hash, fee, amount, size, blockchain.hash AS block_hash, height, ' +
+            'utctimestamp ' + from + ' ORDER BY height ASC, transactions.hash ASC LIMIT ? OFFSET ?',
+            values.concat([limit, offset]));
+
+        const result: IPaymentIdSearch = {
+            paymentId: paymentId,
+            total: (totals.length !== 0) ? parseInt(totals[0].total, 10) : 0,
+            offset: offset,
+            limit: limit,
+            transactions: rows.map(row => {
+                return {
+                    hash: row.hash,
+                    fee: parseInt(row.fee, 10),
+                    amount: parseInt(row.amount, 10),
+                    size: parseInt(row.size, 10),
+                    blockHash: row.block_hash,
+                    height: parseInt(row.height, 10),
+                    timestamp: parseInt(row.utctimestamp, 10)
+                };
+            }),
+            pool: []
+        };
 
+        // transactions in the pool are newer than every block, so they cannot match
+        // a search that is bounded by an end height or end time
+        if (options.includePool === false || options.endHeight !== undefined || options.endTime !== undefined) {
             return result;
-        } catch {
-            throw new SyntaxError('Malformed JSON found in database');
         }
-    }
 
-    public async getPeers (): Promise<TurtleCoindInterfaces.IPeers> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT data FROM information WHERE idx = ?', ['peers']);
+        const [, pool] = await this.m_db.query('SELECT hash, fee, amount, size, data FROM transaction_pool');
 
-        if (count === 0) throw new Error('Peers key not found');
+        for (const row of pool) {
+            if (!row.data) {
+                continue;
+            }
 
-        try {
-            return JSON.parse(rows[0].data);
-        } catch {
-            throw new SyntaxError('Malformed JSON found in database');
+            const tx = await Transaction.from(row.data);
+
+            if (tx.paymentId === paymentId) {
+                result.pool.push({
+                    hash: row.hash,
+                    fee: parseInt(row.fee, 10),
+                    amount: parseInt(row.amount, 10),
+                    size: parseInt(row.size, 10)
+                });
+            }
         }
+
+        return result;
     }
 
     /**
-     * Retrieves the top block height in the database
-     * @private
+     * Retrieves the daemon /peers snapshots within the given time range. If an interval
+     * is supplied, the snapshots are downsampled by averaging them over each interval
+     * @param startTime the timestamp (seconds) to start at
+     * @param endTime the timestamp (seconds) to end at
+     * @param interval the downsampling interval in seconds
      */
-    private async getTopBlockHeight (): Promise<number> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT height FROM blockchain ORDER BY height DESC LIMIT 1');
+    public async peersHistory (
+        startTime = 0,
+        endTime = Number.MAX_SAFE_INTEGER,
+        interval = 1
+    ): Promise<IPeersSnapshot[]> {
+        validateInteger(startTime, 'startTime');
 
-        if (count === 0) throw new Error('No blocks in database');
+        validateInteger(endTime, 'endTime');
 
-        return parseInt(rows[0].height, 10);
+        validateInteger(interval, 'interval');
+
+        const [, rows] = await this.m_db.query(
+            'SELECT utctimestamp - (utctimestamp % ?) AS bucket, AVG(peers) AS peers, ' +
+            'AVG(greypeers) AS greypeers FROM peers_history ' +
+            'WHERE utctimestamp >= ? AND utctimestamp <= ? GROUP BY bucket ORDER BY bucket ASC',
+            [Math.max(Math.floor(interval), 1), startTime, endTime]);
+
+        return rows.map(row => {
+            return {
+                timestamp: new Date(parseInt(row.bucket, 10) * 1000),
+                peers: Math.round(parseFloat(row.peers)),
+                greyPeers: Math.round(parseFloat(row.greypeers))
+            };
+        });
     }
 
     /**
-     * Retrieves a Transaction from the database
-     * @param hash the transaction hash
+     * Retrieves the current congestion of the transaction pool
      */
-    public async getTransaction (hash: string): Promise<Transaction> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT data FROM transactions WHERE hash = ?',
-            [hash]);
+    public async poolCongestion (): Promise<IPoolCongestion> {
+        const [, rows] = await this.m_db.query('SELECT fee, size FROM transaction_pool');
 
-        if (count === 0) throw new Error('Transaction not found: ' + hash);
+        const header = await this.lastBlockHeader();
 
-        return Transaction.from(rows[0].data);
+        const fees = rows.map(row => feePerByte(parseInt(row.fee, 10), parseInt(row.size, 10)))
+            .sort((a, b) => a - b);
+
+        const totalSize = rows.reduce((total, row) => total + parseInt(row.size, 10), 0);
+
+        const totalFees = rows.reduce((total, row) => total + parseInt(row.fee, 10), 0);
+
+        return {
+            transactions: rows.length,
+            totalSize: totalSize,
+            totalFees: totalFees,
+            minimumFeePerByte: (fees.length !== 0) ? fees[0] : 0,
+            medianFeePerByte: percentile(fees, 50),
+            maximumFeePerByte: (fees.length !== 0) ? fees[fees.length - 1] : 0,
+            blockCapacity: header.sizeMedian,
+            blocksToClear: (header.sizeMedian > 0) ? Math.ceil(totalSize / header.sizeMedian) : 0
+        };
     }
 
     /**
-     * Retrieves the current output values for the provided transaction hash and index location
-     * @param hash the transaction hash
-     * @private
+     * Retrieves statistics regarding the time (in seconds) taken for transactions
+     * first seen in the transaction pool within the given time range to be mined
+     * @param startTime the timestamp (seconds) to start at
+     * @param endTime the timestamp (seconds) to end at
      */
-    private async getTransactionOutputs (hash: string): Promise<{amount: number, outputKey: string}[]> {
+    public async poolConfirmationStats (
+        startTime = 0,
+        endTime = Number.MAX_SAFE_INTEGER
+    ): Promise<IPoolConfirmationStats> {
+        validateInteger(startTime, 'startTime');
+
+        validateInteger(endTime, 'endTime');
+
         const [, rows] = await this.m_db.query(
-            'SELECT amount, outputkey FROM transaction_outputs WHERE hash = ? ORDER BY idx ASC', [hash]);
+            'SELECT firstseen, resolvedat FROM transaction_pool_history ' +
+            'WHERE outcome = ? AND firstseen >= ? AND firstseen <= ?',
+            [PoolOutcome.MINED, startTime, endTime]);
 
-        return rows.map(row => {
-            return {
-                amount: parseInt(row.amount, 10),
-                outputKey: row.outputKey || row.outputkey
-            };
-        });
+        const deltas: number[] = rows
+            .map(row => Math.max(parseInt(row.resolvedat, 10) - parseInt(row.firstseen, 10), 0))
+            .sort((a, b) => a - b);
+
+        if (deltas.length === 0) {
+            return { count: 0, average: 0, median: 0, minimum: 0, maximum: 0, percentile90: 0 };
+        }
+
+        const percentile = (p: number): number => {
+            return deltas[Math.min(Math.floor(deltas.length * p), deltas.length - 1)];
+        };
+
+        return {
+            count: deltas.length,
+            average: Math.round(deltas.reduce((a, b) => a + b, 0) / deltas.length),
+            median: percentile(0.5),
+            minimum: deltas[0],
+            maximum: deltas[deltas.length - 1],
+            percentile90: percentile(0.9)
+        };
     }
 
     /**
-     * Retrieves the number of user transactions in the database
+     * Prepares all statements in support of rewinding the database. Each block
+     * removed from the main chain is copied, with its meta data and transactions,
+     * to the alternate chain tables before it is deleted
+     * @param height the height to start from for rewiding the database
      * @private
      */
-    private async getUserTransactionsCount (): Promise<number> {
-        const [, rows] = await this.m_db.query('SELECT COUNT(*) AS cnt FROM transactions WHERE coinbase = 0');
+    private async prepareRewind (height: number): Promise<IBulkQuery[][]> {
+        const stmts: IBulkQuery[][] = [];
 
-        return parseInt(rows[0].cnt, 10);
+        const toDelete = await this.getBlocksAboveHeight(height);
+
+        const reorgTime = Math.floor(Date.now() / 1000);
+
+        for (const block of toDelete) {
+            const hash = block.hash;
+
+            const group: IBulkQuery[] = [];
+
+            // a block is only logged as connected once its meta data has been saved
+            if (block.connected) {
+                group.push(...prepareChainChange(ChainChangeType.DISCONNECT, hash, block.height, reorgTime));
+            }
+
+            stmts.push(group.concat([
+                { query: 'DELETE FROM alt_blocks WHERE hash = ?', values: [hash] },
+                {
+                    query: 'INSERT INTO alt_blocks (hash, height, utctimestamp, reorgheight, reorgtime, data) ' +
+                        'SELECT blocks.hash, height, utctimestamp, ?, ?, data FROM blocks ' +
+                        'LEFT JOIN blockchain ON blockchain.hash = blocks.hash WHERE blocks.hash = ?',
+                    values: [height, reorgTime, hash]
+                },
+                {
+                    query: 'INSERT INTO alt_block_meta (hash, prevhash, basereward, difficulty, majorversion, ' +
+                        'minorversion, nonce, size, alreadygeneratedcoins, alreadygeneratedtransactions, reward, ' +
+                        'sizemedian, totalfeeamount, transactionscumulativesize, transactionscount, orphan, penalty) ' +
+                        'SELECT hash, prevhash, basereward, difficulty, majorversion, minorversion, nonce, size, ' +
+                        'alreadygeneratedcoins, alreadygeneratedtransactions, reward, sizemedian, totalfeeamount, ' +
+                        'transactionscumulativesize, transactionscount, 1, penalty FROM block_meta WHERE hash = ?',
+                    values: [hash]
+                },
+                {
+                    query: 'INSERT INTO alt_transactions (hash, block_hash, coinbase, fee, amount, size, data) ' +
+                        'SELECT transactions.hash, block_hash, coinbase, fee, amount, size, data FROM transactions ' +
+                        'LEFT JOIN transaction_meta ON transaction_meta.hash = transactions.hash ' +
+                        'WHERE block_hash = ?',
+                    values: [hash]
+                },
+                { query: 'DELETE FROM blocks WHERE hash = ?', values: [hash] }
+            ]));
+        }
+
+        return stmts;
     }
 
     /**
-     * Retrieves an array of block hashes that can be sent to a traditional
-     * daemon for syncing purposes
+     * Retrieves the recommended fee for a transaction to be included within the target number
+     * of blocks. The transaction pool is ordered by fee-per-byte and the fee-per-byte required to
+     * outbid the transactions that would fill the target number of blocks is recommended. If the
+     * transaction pool would not fill the target number of blocks, the low end of the fees
+     * recently included in blocks is recommended instead
+     * @param targetDepth the number of blocks within which the transaction should be included
+     * @param transactionSize the size of the transaction in bytes
      */
-    public async hashesForSync (): Promise<string[]> {
-        const hashes: string[] = [];
+    public async recommendedFee (targetDepth = 1, transactionSize?: number): Promise<IRecommendedFee> {
+        validateInteger(targetDepth, 'targetDepth', 1);
 
-        const insert = (hash: string) => {
-            if (hashes.indexOf(hash) === -1) {
-                hashes.push(hash);
-            }
-        };
+        if (transactionSize !== undefined) {
+            validateInteger(transactionSize, 'transactionSize');
+        }
 
-        try {
-            const topBlockHeight = await this.getTopBlockHeight();
+        const [, rows] = await this.m_db.query('SELECT fee, size FROM transaction_pool');
 
-            const [count, rows] = await this.m_db.query(
-                'SELECT hash, height FROM blockchain WHERE height <= ? ORDER BY height DESC LIMIT 11',
-                [topBlockHeight]);
+        const header = await this.lastBlockHeader();
 
-            if (!count) return [];
+        const pool = rows.map(row => {
+            return {
+                feePerByte: feePerByte(parseInt(row.fee, 10), parseInt(row.size, 10)),
+                size: parseInt(row.size, 10)
+            };
+        }).sort((a, b) => b.feePerByte - a.feePerByte);
 
-            rows.map(elem => insert(elem.hash));
+        const capacity = header.sizeMedian * targetDepth - (transactionSize || 0);
 
-            let bottomHeight = parseInt(rows[rows.length - 1].height, 10);
-            let n = 1;
+        let rate: number | undefined;
 
-            do {
-                const diff = Math.pow(2, n);
-                bottomHeight = bottomHeight - diff;
-                if (bottomHeight > 0) {
-                    n++;
-                    const hash = await this.hashFromHeight(bottomHeight);
-                    insert(hash);
-                }
-            } while (bottomHeight > 0);
+        let used = 0;
 
-            const hash = await this.genesisHash();
+        for (const tx of pool) {
+            used += tx.size;
 
-            insert(hash);
+            if (used > capacity) {
+                rate = tx.feePerByte + 1;
 
-            return hashes;
-        } catch (e) {
-            return [];
+                break;
+            }
+        }
+
+        if (rate === undefined) {
+            const recent = await this.feePercentiles(Math.max(header.height - 60, 0), header.height, [10]);
+
+            rate = recent.percentiles[0].feePerByte;
         }
+
+        return {
+            targetDepth: targetDepth,
+            feePerByte: rate,
+            fee: (transactionSize) ? Math.ceil(rate * transactionSize) : undefined
+        };
     }
 
     /**
-     * Retrieves the hash from the height
-     * @param height
+     * Retrieves high level block information for the last 2880 blocks (day)
      */
-    public async hashFromHeight (height: number): Promise<string> {
+    public async recentChainStats (): Promise<{
+        timestamp: number,
+        difficulty: number,
+        nonce: number,
+        size: number,
+        txnCount: number
+    }[]> {
         const [count, rows] = await this.m_db.query(
-            'SELECT hash FROM blockchain WHERE height = ?',
-            [height]);
+            'SELECT utctimestamp, difficulty, nonce, size, transactionscount ' +
+            'FROM blockchain LEFT JOIN block_meta ON block_meta.hash = blockchain.hash ' +
+            'ORDER BY height DESC LIMIT 2880'
+        );
 
-        if (count === 0) throw new Error('No block exists for given height: ' + height);
+        if (!count) throw new Error('No data');
 
-        return rows[0].hash;
+        return rows.map(row => {
+            return {
+                timestamp: parseInt(row.utctimestamp, 10),
+                difficulty: parseInt(row.difficulty, 10),
+                nonce: parseInt(row.nonce, 10),
+                size: parseInt(row.size, 10),
+                txnCount: parseInt(row.transactionsCount || row.transactionscount, 10)
+            };
+        });
     }
 
     /**
-     * indicates whether we have the genesis hash in the database
+     * Retrieves the recorded rewinds of the database that occurred within the given
+     * time range in descending order of occurrence
+     * @param startTime the timestamp (seconds) to start at
+     * @param endTime the timestamp (seconds) to end at
+     * @param limit the maximum number of events to return
      */
-    public async haveGenesis (): Promise<boolean> {
-        try {
-            const hash = await this.genesisHash();
+    public async reorgEvents (
+        startTime = 0,
+        endTime = Number.MAX_SAFE_INTEGER,
+        limit = 100
+    ): Promise<IReorgEvent[]> {
+        validateInteger(startTime, 'startTime');
 
-            return (hash.length !== 0);
-        } catch (e) {
-            return false;
-        }
+        validateInteger(endTime, 'endTime');
+
+        validateInteger(limit, 'limit', 1, MAX_LIMIT);
+
+        const [, rows] = await this.m_db.query(
+            'SELECT id, forkheight, depth, oldtip, newtip, cause, utctimestamp FROM reorg_events ' +
+            'WHERE utctimestamp >= ? AND utctimestamp <= ? ORDER BY id DESC LIMIT ?',
+            [startTime, endTime, limit]);
+
+        return rows.map(row => {
+            return {
+                id: parseInt(row.id, 10),
+                forkHeight: parseInt(row.forkheight, 10),
+                depth: parseInt(row.depth, 10),
+                oldTip: row.oldtip,
+                newTip: row.newtip || undefined,
+                cause: row.cause,
+                timestamp: new Date(parseInt(row.utctimestamp, 10) * 1000)
+            };
+        });
     }
 
     /**
-     * Retrieves the height from the hash
-     * @param hash
+     * Determines the outcome of the transactions that have left the transaction pool. A
+     * transaction is considered evicted only once the database contains blocks created
+     * well after the transaction left the pool without the transaction being found in them
+     * @private
      */
-    public async heightFromHash (hash: string): Promise<number> {
+    private async resolveTransactionPoolHistory (): Promise<void> {
+        const evictionGrace = 600;
+
         const [count, rows] = await this.m_db.query(
-            'SELECT height FROM blockchain WHERE hash = ?',
-            [hash]);
+            'SELECT hash, removedat, data FROM transaction_pool_history ' +
+            'WHERE outcome IS NULL AND removedat IS NOT NULL');
 
-        if (count === 0) throw new Error('Block not found: ' + hash);
+        if (count === 0) {
+            return;
+        }
 
-        return parseInt(rows[0].height, 10);
-    }
+        const [, topRows] = await this.m_db.query(
+            'SELECT utctimestamp FROM blockchain ORDER BY height DESC LIMIT 1');
 
-    /**
-     * Initializes the required database structure in the database if
-     * it does not already exist in the underlying database storage
-     */
-    public async init (): Promise<void> {
-        const stmts: IBulkQuery[] = [];
-        let create: { table: string, indexes: string[] };
+        const topTimestamp = (topRows.length !== 0) ? parseInt(topRows[0].utctimestamp, 10) : 0;
 
-        const hashType = this.m_db.hashType;
-        const blobType = this.m_db.blobType;
-        const uint64Type = this.m_db.uint64Type;
-        const uint32Type = this.m_db.uint32Type;
-        const tableOptions = this.m_db.tableOptions;
+        const now = Math.floor(Date.now() / 1000);
 
-        const addQuery = () => {
-            stmts.push({ query: create.table });
+        const stmts: IBulkQuery[] = [];
 
-            create.indexes.map(index => stmts.push({ query: index }));
-        };
+        for (const row of rows) {
+            const [mined, minedRows] = await this.m_db.query(
+                'SELECT blockchain.hash AS hash, height, utctimestamp FROM transactions ' +
+                'LEFT JOIN blockchain ON blockchain.hash = transactions.block_hash WHERE transactions.hash = ?',
+                [row.hash]);
+
+            if (mined !== 0) {
+                stmts.push({
+                    query: 'UPDATE transaction_pool_history SET outcome = ?, block_hash = ?, height = ?, ' +
+                        'resolvedat = ?, data = NULL WHERE hash = ?',
+                    values: [PoolOutcome.MINED, minedRows[0].hash, minedRows[0].height,
+                        minedRows[0].utctimestamp, row.hash]
+                });
 
-        create = prepareCreateTable(this.m_db.type, 'blocks', [
-            { name: 'hash', type: hashType },
-            { name: 'data', type: blobType }
-        ], ['hash'], tableOptions);
-
-        addQuery();
-
-        create = prepareCreateTable(this.m_db.type, 'blockchain', [
-            { name: 'height', type: uint64Type },
-            {
-                name: 'hash',
-                type: hashType,
-                foreign: {
-                    table: 'blocks',
-                    column: 'hash',
-                    delete: FKAction.CASCADE,
-                    update: FKAction.CASCADE
-                }
-            },
-            { name: 'utctimestamp', type: uint64Type }
-        ], ['height'], tableOptions);
-
-        addQuery();
-
-        create = prepareCreateTable(this.m_db.type, 'block_meta', [
-            {
-                name: 'hash',
-                type: hashType,
-                foreign: {
-                    table: 'blocks',
-                    column: 'hash',
-                    delete: FKAction.CASCADE,
-                    update: FKAction.CASCADE
-                }
-            },
-            { name: 'prevhash', type: hashType },
-            { name: 'basereward', type: uint64Type },
-            { name: 'difficulty', type: uint64Type },
-            { name: 'majorversion', type: uint32Type },
-            { name: 'minorversion', type: uint32Type },
-            { name: 'nonce', type: uint32Type },
-            { name: 'size', type: uint32Type },
-            { name: 'alreadygeneratedcoins', type: uint64Type },
-            { name: 'alreadygeneratedtransactions', type: uint64Type },
-            { name: 'reward', type: uint64Type },
-            { name: 'sizemedian', type: uint32Type },
-            { name: 'totalfeeamount', type: uint64Type },
-            { name: 'transactionscumulativesize', type: uint32Type },
-            { name: 'transactionscount', type: uint32Type },
-            { name: 'orphan', type: uint32Type },
-            { name: 'penalty', type: uint32Type }
-        ], ['hash'], tableOptions);
-
-        addQuery();
-
-        create = prepareCreateTable(this.m_db.type, 'transactions', [
-            { name: 'hash', type: hashType },
-            {
-                name: 'block_hash',
-                type: hashType,
-                foreign: {
-                    table: 'blocks',
-                    column: 'hash',
-                    delete: FKAction.CASCADE,
-                    update: FKAction.CASCADE
-                }
-            },
-            { name: 'coinbase', type: uint32Type },
-            { name: 'data', type: blobType }
-        ], ['hash'], tableOptions);
-
-        addQuery();
-
-        create = prepareCreateTable(this.m_db.type, 'transaction_meta', [
-            {
-                name: 'hash',
-                type: hashType,
-                foreign: {
-                    table: 'transactions',
-                    column: 'hash',
-                    delete: FKAction.CASCADE,
-                    update: FKAction.CASCADE
-                }
-            },
-            { name: 'fee', type: uint64Type },
-            { name: 'size', type: uint32Type },
-            { name: 'amount', type: uint64Type }
-        ], ['hash'], tableOptions);
-
-        addQuery();
-
-        create = prepareCreateTable(this.m_db.type, 'transaction_inputs', [
-            {
-                name: 'hash',
-                type: hashType,
-                foreign: {
-                    table: 'transactions',
-                    column: 'hash',
-                    delete: FKAction.CASCADE,
-                    update: FKAction.CASCADE
-                }
-            },
-            { name: 'keyimage', type: hashType }
-        ], ['keyimage'], tableOptions);
-
-        addQuery();
-
-        create = prepareCreateTable(this.m_db.type, 'transaction_outputs', [
-            {
-                name: 'hash',
-                type: hashType,
-                foreign: {
-                    table: 'transactions',
-                    column: 'hash',
-                    delete: FKAction.CASCADE,
-                    update: FKAction.CASCADE
-                }
-            },
-            { name: 'idx', type: uint64Type },
-            { name: 'amount', type: uint64Type },
-            { name: 'outputkey', type: hashType },
-            { name: 'globalidx', type: uint32Type, nullable: true }
-        ], ['hash', 'idx'], tableOptions);
-
-        addQuery();
-
-        create = prepareCreateTable(this.m_db.type, 'transaction_paymentids', [
-            {
-                name: 'hash',
-                type: hashType,
-                foreign: {
-                    table: 'transactions',
-                    column: 'hash',
-                    delete: FKAction.CASCADE,
-                    update: FKAction.CASCADE
-                }
-            },
-            { name: 'paymentid', type: hashType }
-        ], ['hash', 'paymentid'], tableOptions);
+                continue;
+            }
 
-        addQuery();
+            let replaced = false;
 
-        create = prepareCreateTable(this.m_db.type, 'transaction_pool', [
-            { name: 'hash', type: hashType },
-            { name: 'fee', type: uint64Type },
-            { name: 'size', type: uint32Type },
-            { name: 'amount', type: uint64Type },
-            { name: 'data', type: blobType, nullable: true }
-        ], ['hash'], tableOptions);
+            if (row.data) {
+                const tx = await Transaction.from(row.data);
 
-        addQuery();
+                const keyImages = tx.inputs
+                    .filter(input => input.type === InputType.KEY)
+                    .map(input => (input as KeyInput).keyImage);
 
-        create = prepareCreateTable(this.m_db.type, 'information', [
-            { name: 'idx', type: hashType },
-            { name: 'data', type: blobType }
-        ], ['idx'], tableOptions);
+                const status = await this.keyImagesStatus(keyImages);
 
-        addQuery();
+                replaced = (status.inBlock.length !== 0 ||
+                    status.inPool.filter(elem => elem.transactionHash !== row.hash).length !== 0);
+            }
 
-        await this.m_db.transaction(stmts);
+            if (replaced) {
+                stmts.push({
+                    query: 'UPDATE transaction_pool_history SET outcome = ?, resolvedat = ?, data = NULL ' +
+                        'WHERE hash = ?',
+                    values: [PoolOutcome.REPLACED, now, row.hash]
+                });
+            } else if (topTimestamp - parseInt(row.removedat, 10) >= evictionGrace) {
+                stmts.push({
+                    query: 'UPDATE transaction_pool_history SET outcome = ?, resolvedat = ?, data = NULL ' +
+                        'WHERE hash = ?',
+                    values: [PoolOutcome.EVICTED, now, row.hash]
+                });
+            }
+        }
+
+        if (stmts.length !== 0) {
+            await this.m_db.transaction(stmts);
+        }
     }
 
     /**
-     * Retrieves the last block header
+     * Decodes the stored transactions of the blocks between the given heights (inclusive)
+     * again and rebuilds their ring members, extra tags and unlock times. This fills in those
+     * rows for the transactions that were stored before the tables, or columns, holding them existed
+     * @param startHeight the height to start at
+     * @param endHeight the height to end at, defaults to the top block
+     * @returns the number of transactions reindexed
      */
-    public async lastBlockHeader (): Promise<TurtleCoindInterfaces.IBlockHeader> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT blockchain.hash AS hash FROM blockchain ' +
-            'LEFT JOIN block_meta ON block_meta.hash = blockchain.hash ' +
-            'WHERE block_meta.reward IS NOT NULL ORDER BY height DESC LIMIT 1');
+    public async reindex (startHeight = 0, endHeight?: number): Promise<number> {
+        validateInteger(startHeight, 'startHeight');
 
-        if (count === 0) throw new Error('No blocks in the blockchain');
+        const end = (endHeight !== undefined)
+            ? validateInteger(endHeight, 'endHeight', startHeight)
+            : await this.getTopBlockHeight();
 
-        return this.getBlockHeader(rows[0].hash);
-    }
+        const timer = new PerformanceTimer();
+
+        let count = 0;
+
+        for (let height = startHeight; height <= end; height += 100) {
+            const last = Math.min(height + 99, end);
+
+            const [, rows] = await this.m_db.query(
+                'SELECT blocks.hash AS hash, data FROM blocks JOIN blockchain ON blockchain.hash = blocks.hash ' +
+                'WHERE height >= ? AND height <= ? ORDER BY height ASC',
+                [height, last]);
+
+            const transactions = await this.getTransactionsByBlocks(height, last);
+
+            for (const row of rows) {
+                const block = await processBlock(await loadRawBlock({
+                    blob: row.data,
+                    transactions: (transactions.get(row.hash) || []).map(txn => txn.data)
+                }));
 
-    /**
-     * Prepares all delete statements in support of rewinding the database
-     * @param height the height to start from for rewiding the database
-     * @private
-     */
-    private async prepareRewind (height: number): Promise<IBulkQuery[]> {
-        const stmts: IBulkQuery[] = [];
+                const hashes = block.transactions.map(txn => txn[0] as string);
 
-        const toDelete: string[] = await this.getBlockHashesAboveHeight(height);
+                const placeholders = hashes.map(() => '?').join(',');
 
-        for (const hash of toDelete) {
-            stmts.push({ query: 'DELETE FROM blocks WHERE hash = ?', values: [hash] });
-        }
+                const stmts: IBulkQuery[] = [
+                    {
+                        query: 'DELETE FROM transaction_input_rings WHERE hash IN (' + placeholders + ')',
+                        values: hashes
+                    },
+                    { query: 'DELETE FROM transaction_extra WHERE hash IN (' + placeholders + ')', values: hashes },
+                    { query: 'DELETE FROM transaction_unlocks WHERE hash IN (' + placeholders + ')', values: hashes }
+                ].concat(
+                    await prepareMultiInsert(this.m_db, 'transaction_input_rings',
+                        ['hash', 'keyimage', 'idx', 'amount', 'ringidx', 'globalidx'], block.rings),
+                    await prepareMultiInsert(this.m_db, 'transaction_extra',
+                        ['hash', 'idx', 'tag', 'subtag', 'value', 'depth'], block.extra),
+                    await prepareMultiInsert(this.m_db, 'transaction_unlocks',
+                        ['hash', 'height', 'unlocktime'], block.unlocks));
 
-        return stmts;
-    }
+                await this.m_db.transaction(stmts);
 
-    /**
-     * Retrieves high level block information for the last 2880 blocks (day)
-     */
-    public async recentChainStats (): Promise<{
-        timestamp: number,
-        difficulty: number,
-        nonce: number,
-        size: number,
-        txnCount: number
-    }[]> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT utctimestamp, difficulty, nonce, size, transactionscount ' +
-            'FROM blockchain LEFT JOIN block_meta ON block_meta.hash = blockchain.hash ' +
-            'ORDER BY height DESC LIMIT 2880'
-        );
+                count += hashes.length;
+            }
 
-        if (!count) throw new Error('No data');
+            Logger.info('Reindexed blocks %s to %s', height, last);
+        }
 
-        return rows.map(row => {
-            return {
-                timestamp: parseInt(row.utctimestamp, 10),
-                difficulty: parseInt(row.difficulty, 10),
-                nonce: parseInt(row.nonce, 10),
-                size: parseInt(row.nonce, 10),
-                txnCount: parseInt(row.transactionsCount || row.transactionscount, 10)
-            };
-        });
+        Logger.info('Reindexed %s transactions in %s seconds', count, timer.elapsed.seconds.toFixed(2));
+
+        return count;
     }
 
     /**
@@ -781,6 +2734,27 @@ export class BlockchainDB implements ITurtleCoind {
 
             await this.m_db.query(
                 'TRUNCATE transaction_pool CASCADE');
+
+            await this.m_db.query(
+                'TRUNCATE alt_blocks CASCADE');
+
+            await this.m_db.query(
+                'TRUNCATE transaction_pool_history CASCADE');
+
+            await this.m_db.query(
+                'TRUNCATE info_history CASCADE');
+
+            await this.m_db.query(
+                'TRUNCATE peers_history CASCADE');
+
+            await this.m_db.query(
+                'TRUNCATE chain_stats_hourly CASCADE');
+
+            await this.m_db.query(
+                'TRUNCATE chain_stats_daily CASCADE');
+
+            await this.m_db.query(
+                'TRUNCATE chain_changes CASCADE');
         } catch {
             await this.m_db.query(
                 'DELETE FROM blocks');
@@ -790,37 +2764,135 @@ export class BlockchainDB implements ITurtleCoind {
 
             await this.m_db.query(
                 'DELETE FROM transaction_pool');
+
+            await this.m_db.query(
+                'DELETE FROM alt_blocks');
+
+            await this.m_db.query(
+                'DELETE FROM transaction_pool_history');
+
+            await this.m_db.query(
+                'DELETE FROM info_history');
+
+            await this.m_db.query(
+                'DELETE FROM peers_history');
+
+            await this.m_db.query(
+                'DELETE FROM chain_stats_hourly');
+
+            await this.m_db.query(
+                'DELETE FROM chain_stats_daily');
+
+            await this.m_db.query(
+                'DELETE FROM chain_changes');
         }
+
+        this.invalidateCache(0);
     }
 
     /**
-     * Rewinds the database to the given height
+     * Rewinds the database to the given height and records the rewind in the reorg history
      * @param height the height to rewind the database to
+     * @param cause the reason for the rewind
+     * @param newTip the hash of the daemon block that replaces the rewound blocks, if known
      */
-    public async rewind (height: number): Promise<void> {
-        let stmts: IBulkQuery[] = await this.prepareRewind(height);
+    public async rewind (
+        height: number,
+        cause: RewindCause = RewindCause.MANUAL,
+        newTip?: string
+    ): Promise<IReorgEvent | undefined> {
+        validateInteger(height, 'height');
 
-        if (stmts.length > 0) {
-            Logger.debug('Preparing to delete %s blocks...', stmts.length);
+        validateOneOf(cause, 'cause', Object.values(RewindCause));
 
-            while (stmts.length > 0) {
-                const _stmts = stmts.slice(0, 1);
+        if (newTip !== undefined) {
+            newTip = validateHash(newTip, 'newTip');
+        }
+
+        const groups: IBulkQuery[][] = await this.prepareRewind(height);
+
+        if (groups.length === 0) {
+            return;
+        }
+
+        this.invalidateCache(height);
+
+        const oldTip = await this.hashFromHeight(await this.getTopBlockHeight());
+
+        const depth = groups.length;
+
+        const [, timeRows] = await this.m_db.query(
+            'SELECT MIN(utctimestamp) AS mintime, MAX(utctimestamp) AS maxtime FROM blockchain WHERE height >= ?',
+            [height]);
+
+        if (!newTip) {
+            try {
+                newTip = await this.hashFromHeight(height - 1);
+            } catch {
+                newTip = undefined;
+            }
+        }
+
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        let id = 0;
+
+        Logger.debug('Preparing to move %s blocks to the alternate chain...', groups.length);
 
-                stmts = stmts.slice(1);
+        for (let i = 0; i < groups.length; i++) {
+            for (let attempt = 1; ; attempt++) {
+                const stmts = groups[i].slice();
 
-                Logger.debug('Deleting block...', _stmts.length);
+                // the event is recorded along with the move of the last block so that it cannot be lost
+                if (i === groups.length - 1) {
+                    const [, rows] = await this.m_db.query('SELECT MAX(id) AS id FROM reorg_events');
+
+                    id = (rows.length !== 0 && rows[0].id !== null) ? parseInt(rows[0].id, 10) + 1 : 1;
+
+                    stmts.push({
+                        query: 'INSERT INTO reorg_events (id, forkheight, depth, oldtip, newtip, cause, ' +
+                            'utctimestamp) VALUES (?,?,?,?,?,?,?)',
+                        values: [id, height, depth, oldTip, newTip || null, cause, timestamp]
+                    });
+                }
+
+                Logger.debug('Moving block to the alternate chain...');
 
                 try {
-                    await this.m_db.transaction(_stmts);
-                } catch {
-                    console.log(_stmts);
+                    await this.m_db.transaction(stmts);
 
-                    for (const stmt of _stmts) {
-                        stmts.push(stmt);
+                    break;
+                } catch (error) {
+                    if (attempt >= REWIND_ATTEMPTS) {
+                        Logger.error('Could not move block to the alternate chain: %s', error.toString());
+
+                        throw error;
                     }
+
+                    Logger.warn('Could not move block to the alternate chain, retrying: %s', error.toString());
+
+                    await new Promise(resolve => setTimeout(resolve, attempt * REWIND_RETRY_DELAY));
                 }
             }
         }
+
+        // the rollups of the periods that contained the removed blocks must be rebuilt
+        await this.m_db.transaction(prepareChainStatsRollup(
+            parseInt(timeRows[0].mintime, 10), parseInt(timeRows[0].maxtime, 10)));
+
+        this.invalidateCache(height);
+
+        Logger.info('Rewound database to %s (%s blocks) due to %s', height, depth, cause);
+
+        return {
+            id: id,
+            forkHeight: height,
+            depth: depth,
+            oldTip: oldTip,
+            newTip: newTip,
+            cause: cause,
+            timestamp: new Date(timestamp * 1000)
+        };
     }
 
     /**
@@ -838,6 +2910,26 @@ export class BlockchainDB implements ITurtleCoind {
 
         const l_hashes: string[] = [];
 
+        const connected: string[] = [];
+
+        for (let i = 0; i < headers.length; i += 25) {
+            const batch = headers.slice(i, i + 25).map(header => header.hash);
+
+            const [, rows] = await this.m_db.query(
+                'SELECT hash FROM block_meta WHERE hash IN (' + batch.map(() => '?').join(',') + ')', batch);
+
+            rows.forEach(row => connected.push(row.hash));
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+
+        const changes: IBulkQuery[] = headers
+            .filter(header => connected.indexOf(header.hash) === -1)
+            .filter((header, index, array) => array.map(elem => elem.hash).indexOf(header.hash) === index)
+            .sort((a, b) => a.height - b.height)
+            .reduce((stmts: IBulkQuery[], header) =>
+                stmts.concat(prepareChainChange(ChainChangeType.CONNECT, header.hash, header.height, now)), []);
+
         for (const header of headers) {
             /* Let's not double process the same block */
             if (l_hashes.indexOf(header.hash) !== -1) {
@@ -879,12 +2971,18 @@ export class BlockchainDB implements ITurtleCoind {
             'orphan', 'penalty'
         ], l_headers);
 
+        const timestamps = headers.map(header => Math.floor(header.timestamp.getTime() / 1000));
+
+        const rollups = prepareChainStatsRollup(Math.min(...timestamps), Math.max(...timestamps));
+
         Logger.debug('Executing database transaction to insert %s rows with %s statements...',
             l_hashes.length, _stmts.length);
 
         const timer = new PerformanceTimer();
 
-        await this.m_db.transaction(stmts.concat(_stmts));
+        await this.m_db.transaction(stmts.concat(_stmts, changes, rollups));
+
+        this.invalidateCache(Math.min(...headers.map(header => header.height)));
 
         Logger.debug('Database transaction execution completed in %s seconds',
             timer.elapsed.seconds.toFixed(2));
@@ -895,9 +2993,9 @@ export class BlockchainDB implements ITurtleCoind {
      * @param info information object from daemon
      */
     public async saveInformation (info: TurtleCoindInterfaces.IInfo): Promise<void> {
-        (info as any).startTime = info.startTime.getTime();
+        const value = JSON.stringify({ ...info, startTime: info.startTime.getTime() });
 
-        const value = JSON.stringify(info);
+        const now = Math.floor(Date.now() / 1000);
 
         const stmts: IBulkQuery[] = [];
 
@@ -911,6 +3009,20 @@ export class BlockchainDB implements ITurtleCoind {
             values: ['info', value]
         });
 
+        stmts.push({
+            query: 'DELETE FROM info_history WHERE utctimestamp = ? OR utctimestamp < ?',
+            values: [now, now - historyRetention()]
+        });
+
+        stmts.push({
+            query: 'INSERT INTO info_history (utctimestamp, height, networkheight, difficulty, hashrate, ' +
+                'incomingconnections, outgoingconnections, whitepeerlistsize, greypeerlistsize, ' +
+                'transactionspoolsize, data) VALUES (?,?,?,?,?,?,?,?,?,?,?)',
+            values: [now, info.height, info.networkHeight, info.difficulty, info.hashrate,
+                info.incomingConnections, info.outgoingConnections, info.whitePeerlistSize,
+                info.greyPeerlistSize, info.transactionsPoolSize, value]
+        });
+
         await this.m_db.transaction(stmts);
     }
 
@@ -921,6 +3033,8 @@ export class BlockchainDB implements ITurtleCoind {
     public async savePeers (peers: TurtleCoindInterfaces.IPeers): Promise<void> {
         const value = JSON.stringify(peers);
 
+        const now = Math.floor(Date.now() / 1000);
+
         const stmts: IBulkQuery[] = [];
 
         stmts.push({
@@ -933,6 +3047,16 @@ export class BlockchainDB implements ITurtleCoind {
             values: ['peers', value]
         });
 
+        stmts.push({
+            query: 'DELETE FROM peers_history WHERE utctimestamp = ? OR utctimestamp < ?',
+            values: [now, now - historyRetention()]
+        });
+
+        stmts.push({
+            query: 'INSERT INTO peers_history (utctimestamp, peers, greypeers, data) VALUES (?,?,?,?)',
+            values: [now, peers.peers.length, peers.greyPeers.length, value]
+        });
+
         await this.m_db.transaction(stmts);
     }
 
@@ -949,6 +3073,8 @@ export class BlockchainDB implements ITurtleCoind {
 
         if (blocks.length === 0) return [l_heights, l_hashes, 0];
 
+        await this.initWorkers();
+
         const timer = new PerformanceTimer();
 
         let results: SaveRawBlockResponse[] = [];
@@ -983,6 +3109,10 @@ export class BlockchainDB implements ITurtleCoind {
             txnCount += result.txnCount;
         }
 
+        if (l_heights.length !== 0) {
+            this.invalidateCache(Math.min(...l_heights));
+        }
+
         Logger.debug('Saved %s blocks to the database in %s seconds',
             results.length, timer.elapsed.seconds.toFixed(2));
 
@@ -993,24 +3123,108 @@ export class BlockchainDB implements ITurtleCoind {
     }
 
     /**
-     * Saves a copy of the raw transaction pool to the database
+     * Saves the current transaction pool to the database, records the pool lifecycle
+     * of the transactions, and returns the transaction hashes that were added to,
+     * and removed from, the pool
      * @param transactions the raw transactions in the transaction pool
      */
-    public async saveTransactionPool (transactions: string[]): Promise<void> {
+    public async saveTransactionPool (transactions: string[]): Promise<{ added: string[], removed: string[] }> {
         const stmts: IBulkQuery[] = [];
 
-        stmts.push({ query: 'DELETE FROM transaction_pool' });
+        const now = Math.floor(Date.now() / 1000);
+
+        const [, rows] = await this.m_db.query('SELECT hash FROM transaction_pool');
+
+        const previous: string[] = rows.map(row => row.hash);
+
+        const current: Map<string, [Transaction, string]> = new Map<string, [Transaction, string]>();
 
         for (const transaction of transactions) {
             const tx = await Transaction.from(transaction);
 
+            current.set(await tx.hash(), [tx, transaction]);
+        }
+
+        const added = [...current.keys()].filter(hash => previous.indexOf(hash) === -1);
+
+        const removed = previous.filter(hash => !current.has(hash));
+
+        const known = await this.getTransactionPoolHistoryHashes(added);
+
+        for (const hash of removed) {
+            stmts.push({ query: 'DELETE FROM transaction_pool WHERE hash = ?', values: [hash] });
+
             stmts.push({
-                query: 'INSERT INTO transaction_pool VALUES (?,?,?,?,?)',
-                values: [await tx.hash(), tx.fee, tx.size, tx.amount, transaction]
+                query: 'UPDATE transaction_pool_history SET removedat = ? WHERE hash = ? AND outcome IS NULL',
+                values: [now, hash]
             });
         }
 
+        for (const hash of added) {
+            const [tx, transaction] = current.get(hash) as [Transaction, string];
+
+            stmts.push(...prepareTransactionPoolInsert(hash, tx, transaction, known.indexOf(hash) !== -1, now));
+        }
+
+        stmts.push({
+            query: 'UPDATE transaction_pool_history SET lastseen = ? ' +
+                'WHERE hash IN (SELECT hash FROM transaction_pool)',
+            values: [now]
+        });
+
         await this.m_db.transaction(stmts);
+
+        await this.resolveTransactionPoolHistory();
+
+        return {
+            added: added,
+            removed: removed
+        };
+    }
+
+    /**
+     * Saves a transaction that was accepted by the upstream daemon to the transaction
+     * pool so that it is reported as in the pool before the pool is next collected
+     * @param transaction the hex representation of the transaction
+     * @private
+     */
+    private async saveRelayedTransaction (transaction: string): Promise<void> {
+        const tx = await Transaction.from(transaction);
+
+        const hash = await tx.hash();
+
+        const [count] = await this.m_db.query('SELECT hash FROM transaction_pool WHERE hash = ?', [hash]);
+
+        if (count !== 0) {
+            return;
+        }
+
+        const known = await this.getTransactionPoolHistoryHashes([hash]);
+
+        const now = Math.floor(Date.now() / 1000);
+
+        await this.m_db.transaction(prepareTransactionPoolInsert(hash, tx, transaction, known.length !== 0, now));
+    }
+
+    /**
+     * Retrieves which of the given transaction hashes have been seen in the transaction pool before
+     * @param hashes the transaction hashes
+     * @private
+     */
+    private async getTransactionPoolHistoryHashes (hashes: string[]): Promise<string[]> {
+        const known: string[] = [];
+
+        for (let i = 0; i < hashes.length; i += 25) {
+            const batch = hashes.slice(i, i + 25);
+
+            const [, rows] = await this.m_db.query(
+                'SELECT hash FROM transaction_pool_history WHERE hash IN (' +
+                batch.map(() => '?').join(',') + ')', batch);
+
+            rows.map(row => known.push(row.hash));
+        }
+
+        return known;
     }
 
     /**
@@ -1055,42 +3269,244 @@ export class BlockchainDB implements ITurtleCoind {
             for (let i = 0; i < tx.indexes.length; i++) {
                 const globalIdx = tx.indexes[i];
 
-                const current = currentValues[i];
+                const current = currentValues[i];
+
+                l_indexes.push([tx.hash, i, globalIdx, current.amount, current.outputKey]);
+            }
+        }
+
+        Logger.debug('Prepared transaction_outputs ' +
+            'for %s transactions in %s seconds', indexes.length, timer.elapsed.seconds.toFixed(2));
+
+        const stmts = await prepareMultiUpdate(
+            'transaction_outputs',
+            ['hash', 'idx'],
+            ['globalidx', 'amount', 'outputkey'],
+            l_indexes);
+
+        Logger.debug('Updating %s transaction_outputs using %s statements...',
+            l_indexes.length, stmts.length);
+
+        await this.m_db.transaction(stmts);
+
+        Logger.debug('Database transaction execution completed in %s seconds',
+            timer.elapsed.seconds.toFixed(2));
+    }
+
+    /**
+     * Retrieves the schema version currently stored in the database
+     */
+    public async schemaVersion (): Promise<number> {
+        return getSchemaVersion(this.m_db);
+    }
+
+    /**
+     * Retrieves the circulating supply as of the block at the given height
+     * @param height the block height
+     */
+    public async supplyAtHeight (height: number): Promise<ISupply> {
+        validateInteger(height, 'height');
+
+        const [count, rows] = await this.m_db.query(
+            'SELECT height, blockchain.hash AS hash, utctimestamp, alreadygeneratedcoins FROM blockchain ' +
+            'JOIN block_meta ON block_meta.hash = blockchain.hash WHERE height = ?', [height]);
+
+        if (count === 0) throw new Error('No block meta data exists for given height: ' + height);
+
+        return {
+            height: parseInt(rows[0].height, 10),
+            hash: rows[0].hash,
+            timestamp: new Date(parseInt(rows[0].utctimestamp, 10) * 1000),
+            supply: BigInteger(rows[0].alreadygeneratedcoins)
+        };
+    }
+
+    /**
+     * Retrieves the circulating supply as of the last block at or before the given timestamp
+     * @param timestamp the timestamp (seconds)
+     */
+    public async supplyAtTime (timestamp: number): Promise<ISupply> {
+        validateInteger(timestamp, 'timestamp');
+
+        return this.supplyAtHeight(await this.heightAtTime(timestamp));
+    }
+
+    /**
+     * Retrieves the decoded tags found in the extra field of the specified transaction
+     * @param hash the transaction hash
+     */
+    public async transactionExtra (hash: string): Promise<ITransactionExtraTag[]> {
+        hash = validateHash(hash, 'hash');
+
+        const [count, rows] = await this.m_db.query(
+            'SELECT idx, tag, subtag, value, depth FROM transaction_extra WHERE hash = ? ORDER BY idx ASC', [hash]);
+
+        if (count === 0) throw new ReferenceError('Transaction extra data not found: ' + hash);
+
+        return rows.map(row => {
+            return {
+                position: parseInt(row.idx, 10),
+                tag: parseInt(row.tag, 10),
+                subtag: (row.subtag !== null) ? parseInt(row.subtag, 10) : undefined,
+                value: row.value,
+                depth: (row.depth !== null) ? parseInt(row.depth, 10) : undefined
+            };
+        });
+    }
+
+    /**
+     * Retrieves the transaction hashes that contain the payment ID. A payment ID
+     * without any matching transactions results in an empty array
+     * @param paymentId
+     */
+    public async transactionHashesByPaymentId (paymentId: string): Promise<string[]> {
+        paymentId = validateHash(paymentId, 'paymentId');
+
+        const [, rows] = await this.m_db.query(
+            'SELECT hash FROM transaction_paymentids WHERE paymentid = ?',
+            [paymentId]);
+
+        return rows.map(elem => elem.hash);
+    }
+
+    /**
+     * Retrieves the transaction pool history of the specified transaction
+     * @param hash the transaction hash
+     */
+    public async transactionPoolHistory (hash: string): Promise<ITransactionPoolHistory> {
+        hash = validateHash(hash, 'hash');
+
+        const [count, rows] = await this.m_db.query(
+            'SELECT hash, fee, size, amount, firstseen, lastseen, removedat, outcome, block_hash, height, ' +
+            'resolvedat FROM transaction_pool_history WHERE hash = ?', [hash]);
+
+        if (count === 0) throw new ReferenceError('Transaction pool history not found: ' + hash);
+
+        const row = rows[0];
+
+        const toDate = (value: any): Date | undefined => {
+            return (value !== null && value !== undefined) ? new Date(parseInt(value, 10) * 1000) : undefined;
+        };
+
+        return {
+            hash: row.hash,
+            fee: parseInt(row.fee, 10),
+            size: parseInt(row.size, 10),
+            amountOut: parseInt(row.amount, 10),
+            firstSeen: toDate(row.firstseen) as Date,
+            lastSeen: toDate(row.lastseen) as Date,
+            removedAt: toDate(row.removedat),
+            outcome: row.outcome || undefined,
+            block: (row.block_hash) ? { hash: row.block_hash, height: parseInt(row.height, 10) } : undefined,
+            resolvedAt: toDate(row.resolvedat)
+        };
+    }
+
+    /**
+     * Retrieves the key inputs of the specified transaction with each ring member
+     * resolved to the output that it references
+     * @param hash the transaction hash
+     */
+    public async transactionRings (hash: string): Promise<ITransactionRing[]> {
+        hash = validateHash(hash, 'hash');
+
+        const [count, rows] = await this.m_db.query(
+            'SELECT keyimage, transaction_input_rings.amount AS amount, ' +
+            'transaction_input_rings.globalidx AS globalidx, transaction_outputs.hash AS output_hash, ' +
+            'transaction_outputs.idx AS output_idx, outputkey ' +
+            'FROM transaction_input_rings LEFT JOIN transaction_outputs ' +
+            'ON transaction_outputs.amount = transaction_input_rings.amount ' +
+            'AND transaction_outputs.globalidx = transaction_input_rings.globalidx ' +
+            'WHERE transaction_input_rings.hash = ? ORDER BY transaction_input_rings.idx ASC, ringidx ASC',
+            [hash]);
+
+        if (count === 0) throw new ReferenceError('Transaction ring data not found: ' + hash);
+
+        const results: ITransactionRing[] = [];
+
+        for (const row of rows) {
+            let input = results.filter(elem => elem.keyImage === row.keyimage).shift();
+
+            if (!input) {
+                input = {
+                    keyImage: row.keyimage,
+                    amount: parseInt(row.amount, 10),
+                    ring: []
+                };
 
-                l_indexes.push([tx.hash, i, globalIdx, current.amount, current.outputKey]);
+                results.push(input);
             }
+
+            input.ring.push({
+                globalIndex: parseInt(row.globalidx, 10),
+                transactionHash: row.output_hash,
+                outputIndex: parseInt(row.output_idx, 10),
+                key: row.outputKey || row.outputkey
+            });
         }
 
-        Logger.debug('Prepared transaction_outputs ' +
-            'for %s transactions in %s seconds', indexes.length, timer.elapsed.seconds.toFixed(2));
+        return results;
+    }
 
-        const stmts = await prepareMultiUpdate(
-            'transaction_outputs',
-            ['hash', 'idx'],
-            ['globalidx', 'amount', 'outputkey'],
-            l_indexes);
+    /**
+     * Retrieves the transactions in the given block range whose extra field contains
+     * the given tag type and, if supplied, the given value. For example, every block
+     * carrying a merged mining tag can be found by searching for ExtraTagType.MERGED_MINING
+     * @param tag the tag type to search for
+     * @param value the hexadecimal value of the tag to search for
+     * @param startHeight the height to start at
+     * @param endHeight the height to end at
+     * @param limit the maximum number of transactions to return
+     */
+    public async transactionsByExtraTag (
+        tag: ExtraTagType | number,
+        value?: string,
+        startHeight = 0,
+        endHeight = Number.MAX_SAFE_INTEGER,
+        limit = 100
+    ): Promise<ITransactionExtraMatch[]> {
+        validateInteger(tag, 'tag', 0, 0xffffffff);
+
+        if (value !== undefined) {
+            value = validateHex(value, 'value', MAX_BLOB_LENGTH).toLowerCase();
+        }
 
-        Logger.debug('Updating %s transaction_outputs using %s statements...',
-            l_indexes.length, stmts.length);
+        validateInteger(startHeight, 'startHeight');
 
-        await this.m_db.transaction(stmts);
+        validateInteger(endHeight, 'endHeight');
 
-        Logger.debug('Database transaction execution completed in %s seconds',
-            timer.elapsed.seconds.toFixed(2));
-    }
+        validateInteger(limit, 'limit', 1, MAX_LIMIT);
 
-    /**
-     * Retrieves the transaction hashes that contain the payment ID
-     * @param paymentId
-     */
-    public async transactionHashesByPaymentId (paymentId: string): Promise<string[]> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT hash FROM transaction_paymentids WHERE paymentId = ?',
-            [paymentId]);
+        const clauses: string[] = ['tag = ?', 'height >= ?', 'height <= ?'];
 
-        if (!count) throw new Error('Error');
+        const values: (string | number)[] = [tag, startHeight, endHeight];
 
-        return rows.map(elem => elem.hash);
+        if (value !== undefined) {
+            clauses.push('value = ?');
+            values.push(value);
+        }
+
+        const [, rows] = await this.m_db.query(
+            'SELECT transactions.hash AS hash, idx, tag, subtag, value, depth, blockchain.hash AS block_hash, ' +
+            'height, utctimestamp FROM transaction_extra ' +
+            'JOIN transactions ON transactions.hash = transaction_extra.hash ' +
+            'JOIN blockchain ON blockchain.hash = transactions.block_hash ' +
+            'WHERE ' + clauses.join(' AND ') + ' ORDER BY height ASC, transactions.hash ASC, idx ASC LIMIT ?',
+            values.concat([limit]));
+
+        return rows.map(row => {
+            return {
+                hash: row.hash,
+                position: parseInt(row.idx, 10),
+                tag: parseInt(row.tag, 10),
+                subtag: (row.subtag !== null) ? parseInt(row.subtag, 10) : undefined,
+                value: row.value,
+                depth: (row.depth !== null) ? parseInt(row.depth, 10) : undefined,
+                blockHash: row.block_hash,
+                height: parseInt(row.height, 10),
+                timestamp: parseInt(row.utctimestamp, 10)
+            };
+        });
     }
 
     /**
@@ -1104,11 +3520,16 @@ export class BlockchainDB implements ITurtleCoind {
      * @param block the block height or hash
      */
     public async block (block: string | number): Promise<TurtleCoindInterfaces.IBlock> {
-        const header = await this.getBlockHeader(block);
+        block = validateBlock(block, 'block');
 
-        (header as TurtleCoindInterfaces.IBlock).transactions = await this.getTransactionsMetaByBlock(header.hash);
+        return this.readReplica((typeof block === 'number') ? block : 0, async db => {
+            const header = await this.getBlockHeader(block, db);
 
-        return (header as TurtleCoindInterfaces.IBlock);
+            (header as TurtleCoindInterfaces.IBlock).transactions =
+                await this.getTransactionsMetaByBlock(header.hash, header.height, db);
+
+            return (header as TurtleCoindInterfaces.IBlock);
+        });
     }
 
     /**
@@ -1129,36 +3550,51 @@ export class BlockchainDB implements ITurtleCoind {
      * @param height the height to stop at
      */
     public async blockHeaders (height: number): Promise<TurtleCoindInterfaces.IBlock[]> {
-        const topBlock = await this.getTopBlockHeight();
+        validateInteger(height, 'height');
+
+        await this.refreshChainState();
 
-        if (height > topBlock) {
+        // the top block height is only read again when the height is above the last known top block
+        if (height > this.m_chainTopHeight && height > await this.getTopBlockHeight()) {
             throw new RangeError('Requested height exceeds current blockchain height');
         }
 
-        const results: TurtleCoindInterfaces.IBlock[] = [];
+        return this.readReplica(height, async db => {
+            const results: TurtleCoindInterfaces.IBlock[] = [];
 
-        const headers = await this.getBlockHeaders(height);
+            const headers = await this.getBlockHeaders(height, 30, db);
 
-        for (const header of headers) {
-            (header as TurtleCoindInterfaces.IBlock).transactions = await this.getTransactionsMetaByBlock(header.hash);
+            const transactions = await this.getTransactionsMetaByBlocks(headers, db);
 
-            results.push((header as TurtleCoindInterfaces.IBlock));
-        }
+            for (const header of headers) {
+                (header as TurtleCoindInterfaces.IBlock).transactions = transactions.get(header.hash) || [];
 
-        return results;
+                results.push((header as TurtleCoindInterfaces.IBlock));
+            }
+
+            return results;
+        });
     }
 
     /**
      * Retrieves a mining block template using the specified address and reserve size
-     * THIS METHOD IS NOT AVAILABLE IN THIS IMPLEMENTATION
+     * from the upstream daemon
+     * THIS METHOD IS ONLY AVAILABLE WHEN AN UPSTREAM DAEMON IS CONFIGURED
      * @param address the wallet address that will receive the coinbase outputs
      * @param reserveSize the amount of data to reserve in the miner transaction
      */
     public async blockTemplate (address: string, reserveSize: number): Promise<TurtleCoindInterfaces.IBlockTemplate> {
-        UNUSED(address);
-        UNUSED(reserveSize);
+        if (typeof address !== 'string' || !/^[1-9A-HJ-NP-Za-km-z]{1,256}$/.test(address)) {
+            throw new ValidationError('address', 'address must be a Base58 encoded string');
+        }
+
+        validateInteger(reserveSize, 'reserveSize', 0, 255);
 
-        throw new Error('Method not available');
+        if (!this.m_relay) {
+            throw new NotAvailableError();
+        }
+
+        return this.m_relay.blockTemplate(address, reserveSize);
     }
 
     /**
@@ -1191,26 +3627,35 @@ export class BlockchainDB implements ITurtleCoind {
      * @param endHeight the ending block height
      */
     public async indexes (startHeight: number, endHeight: number): Promise<TurtleCoindInterfaces.ITransactionIndexes[]> {
-        const [, rows] = await this.m_db.query(
-            'SELECT transactions.hash AS hash FROM blockchain LEFT JOIN transactions ON ' +
-            'transactions.block_hash = blockchain.hash WHERE height >= ? AND height <= ? ORDER BY height',
-            [startHeight, endHeight]);
+        validateInteger(startHeight, 'startHeight');
 
-        const txns = rows.map(row => row.hash);
+        validateInteger(endHeight, 'endHeight');
 
-        const results: TurtleCoindInterfaces.ITransactionIndexes[] = [];
+        return this.readReplica(endHeight, async db => {
+            const [, rows] = await db.query(
+                'SELECT transactions.hash AS hash, idx, globalidx FROM blockchain ' +
+                'JOIN transactions ON transactions.block_hash = blockchain.hash ' +
+                'LEFT JOIN transaction_outputs ON transaction_outputs.hash = transactions.hash ' +
+                'WHERE height >= ? AND height <= ? ORDER BY height, idx',
+                [startHeight, endHeight]);
 
-        for (const txn of txns) {
-            const [, idxes] = await this.m_db.query(
-                'SELECT globalidx FROM transaction_outputs WHERE hash = ? ORDER BY idx', [txn]);
+            const results: Map<string, TurtleCoindInterfaces.ITransactionIndexes> =
+                new Map<string, TurtleCoindInterfaces.ITransactionIndexes>();
 
-            results.push({
-                hash: txn,
-                indexes: idxes.map(elem => parseInt(elem.globalIdx || elem.globalidx, 10))
-            });
-        }
+            for (const row of rows) {
+                const result: TurtleCoindInterfaces.ITransactionIndexes =
+                    results.get(row.hash) || { hash: row.hash, indexes: [] };
 
-        return results;
+                // transactions without outputs are joined to a single row without an output
+                if (row.idx !== null && row.idx !== undefined) {
+                    result.indexes.push(parseInt(row.globalIdx || row.globalidx, 10));
+                }
+
+                results.set(row.hash, result);
+            }
+
+            return [...results.values()];
+        });
     }
 
     /**
@@ -1226,7 +3671,8 @@ export class BlockchainDB implements ITurtleCoind {
     public async lastBlock (): Promise<TurtleCoindInterfaces.IBlock> {
         const header = await this.lastBlockHeader();
 
-        (header as TurtleCoindInterfaces.IBlock).transactions = await this.getTransactionsMetaByBlock(header.hash);
+        (header as TurtleCoindInterfaces.IBlock).transactions =
+            await this.getTransactionsMetaByBlock(header.hash, header.height);
 
         return (header as TurtleCoindInterfaces.IBlock);
     }
@@ -1241,79 +3687,93 @@ export class BlockchainDB implements ITurtleCoind {
     /**
      * Retrieves random global indexes typically used for mixing operations for the specified
      * amounts and for the number requested (if available)
+     *
+     * Only outputs that are at least MINED_MONEY_UNLOCK_WINDOW blocks deep, and whose unlock
+     * time has passed at the top block, are selected. The outputs are picked from the eligible
+     * global indexes using a triangular distribution, in which the probability of picking an
+     * index increases linearly with the index, so that recent outputs are more likely to be chosen
      * @param amounts an array of amounts for which we need random global indexes
      * @param count the number of global indexes to return for each amount
+     * @param random the random number generator to use, supply a seeded generator to
+     * reproduce a selection
      */
-    public async randomIndexes (amounts: number[], count: number): Promise<TurtleCoindInterfaces.IRandomOutput[]> {
-        const maxGlobalIdx = async (amount: number): Promise<number> => {
-            const [count, rows] = await this.m_db.query(
-                'SELECT MAX(globalidx) AS maximum FROM transaction_outputs WHERE amount = ?',
-                [amount]);
+    public async randomIndexes (
+        amounts: number[],
+        count: number,
+        random: Random = new Random()
+    ): Promise<TurtleCoindInterfaces.IRandomOutput[]> {
+        validateArray(amounts, 'amounts', MAX_LIMIT).forEach(amount => validateInteger(amount, 'amounts'));
 
-            if (count === 0) throw new Error('Amount not found in database');
+        validateInteger(count, 'count', 0, 100);
 
-            return parseInt(rows[0].maximum, 10);
-        };
+        await this.refreshChainState();
 
-        const random = (max: number): number => {
-            const rnd = Math.random();
+        const topHeight = this.m_chainTopHeight;
 
-            return Math.round(rnd * max);
-        };
+        return this.readReplica(topHeight, async db => {
+            const topTimestamp = await this.getBlockTimestamp(topHeight, db);
 
-        const fetch = async (amount: number, idxes: number[]):
-            Promise<{amount: number, outputs: {index: number, key: string}[]}> => {
-            const clauses: string[] = [];
+            const results: TurtleCoindInterfaces.IRandomOutput[] = [];
 
-            for (const idx of idxes) {
-                clauses.push('globalIdx = ' + idx);
-            }
+            for (const amount of amounts) {
+                const available = await this.getDecoyOutputCount(
+                    amount, topHeight - MINED_MONEY_UNLOCK_WINDOW, db);
 
-            const [count, rows] = await this.m_db.query(
-                'SELECT globalidx, outputKey FROM transaction_outputs ' +
-                'WHERE amount = ? AND (' + clauses.join(' OR ') + ')',
-                [amount]);
+                if (available < count) {
+                    throw new RangeError('Not enough outputs available to satisfy request');
+                }
 
-            if (count !== idxes.length) {
-                throw new Error('Internal consistency error');
-            }
+                const tried: Set<number> = new Set<number>();
 
-            return {
-                amount: amount,
-                outputs: rows.map(row => {
-                    return {
-                        index: parseInt(row.globalIdx || row.globalidx, 10),
-                        key: row.outputKey || row.outputkey
-                    };
-                })
-            };
-        };
+                const outputs: { index: number, key: string }[] = [];
 
-        const results: TurtleCoindInterfaces.IRandomOutput[] = [];
+                while (outputs.length < count) {
+                    const idxes: number[] = [];
 
-        for (const amount of amounts) {
-            const idxes: number[] = [];
+                    while (idxes.length < count - outputs.length && tried.size < available) {
+                        const idx = Math.floor(Math.sqrt(random.next()) * available);
 
-            const max = await maxGlobalIdx(amount);
+                        if (!tried.has(idx)) {
+                            tried.add(idx);
 
-            if (max <= count) {
-                throw new RangeError('Not enough outputs available to satisfy request');
-            }
+                            idxes.push(idx);
+                        }
+                    }
 
-            while (idxes.length < count) {
-                const idx = random(max);
+                    if (idxes.length === 0) {
+                        throw new RangeError('Not enough outputs available to satisfy request');
+                    }
+
+                    const [, rows] = await db.query(
+                        'SELECT transaction_outputs.hash AS hash, globalidx, outputkey, unlocktime ' +
+                        'FROM transaction_outputs ' +
+                        'JOIN transaction_unlocks ON transaction_unlocks.hash = transaction_outputs.hash ' +
+                        'WHERE amount = ? AND globalidx IN (' + idxes.map(() => '?').join(', ') + ')',
+                        [amount, ...idxes]);
+
+                    if (rows.length !== idxes.length) {
+                        throw new Error('Internal consistency error');
+                    }
 
-                if (idxes.indexOf(idx) === -1) {
-                    idxes.push(idx);
+                    for (const row of rows) {
+                        const unlockTime = await this.getUnlockTime(row.hash, row.unlocktime, db);
+
+                        if (isUnlocked(unlockTime, topHeight, topTimestamp)) {
+                            outputs.push({
+                                index: parseInt(row.globalIdx || row.globalidx, 10),
+                                key: row.outputKey || row.outputkey
+                            });
+                        }
+                    }
                 }
-            }
 
-            idxes.sort((a, b) => a - b);
+                outputs.sort((a, b) => a.index - b.index);
 
-            results.push(await fetch(amount, idxes));
-        }
+                results.push({ amount: amount, outputs: outputs });
+            }
 
-        return results;
+            return results;
+        });
     }
 
     /**
@@ -1322,38 +3782,58 @@ export class BlockchainDB implements ITurtleCoind {
      * @param block the block height or hash
      */
     public async rawBlock (block: string | number): Promise<TurtleCoindInterfaces.IRawBlock> {
-        if (typeof block === 'number') {
-            const header = await this.getBlockHeader(block);
+        block = validateBlock(block, 'block');
 
-            block = header.hash;
-        }
+        return this.readReplica((typeof block === 'number') ? block : 0, async db => {
+            if (typeof block === 'number') {
+                const header = await this.getBlockHeader(block, db);
 
-        const [count, rows] = await this.m_db.query(
-            'SELECT data FROM blocks WHERE hash = ?',
-            [block]);
+                block = header.hash;
+            }
 
-        if (count === 0) {
-            throw new ReferenceError('Block not found: ' + block);
-        }
+            await this.refreshChainState();
 
-        const result: TurtleCoindInterfaces.IRawBlock = {
-            blob: rows[0].data,
-            transactions: []
-        };
+            const cached = this.m_rawBlockCache.get(block);
+
+            if (cached) {
+                return { blob: cached.blob, transactions: cached.transactions.slice() };
+            }
 
-        const [, txnRows] = await this.m_db.query(
-            'SELECT data FROM transactions WHERE block_hash = ? AND coinbase = 0',
-            [block]);
+            const generation = this.m_cacheGeneration;
 
-        for (const txn of txnRows) {
-            const tx = await Transaction.from(txn.data);
+            const [count, rows] = await db.query(
+                'SELECT blocks.data AS data, blockchain.height AS height FROM blocks ' +
+                'LEFT JOIN blockchain ON blockchain.hash = blocks.hash WHERE blocks.hash = ?',
+                [block]);
 
-            if (!tx.isCoinbase) {
-                result.transactions.push(txn.data);
+            if (count === 0) {
+                throw new ReferenceError('Block not found: ' + block);
             }
-        }
 
-        return result;
+            const result: TurtleCoindInterfaces.IRawBlock = {
+                blob: rows[0].data,
+                transactions: []
+            };
+
+            const [, txnRows] = await db.query(
+                'SELECT data FROM transactions WHERE block_hash = ? AND coinbase = 0',
+                [block]);
+
+            for (const txn of txnRows) {
+                const tx = await Transaction.from(txn.data);
+
+                if (!tx.isCoinbase) {
+                    result.transactions.push(txn.data);
+                }
+            }
+
+            // blocks that are not in the main chain cannot be invalidated by height
+            if (rows[0].height !== null && rows[0].height !== undefined && generation === this.m_cacheGeneration) {
+                this.m_rawBlockCache.set(block, result, parseInt(rows[0].height, 10));
+            }
+
+            return { blob: result.blob, transactions: result.transactions.slice() };
+        });
     }
 
     /**
@@ -1371,33 +3851,31 @@ export class BlockchainDB implements ITurtleCoind {
         skipCoinbaseTransactions = false,
         count = 100
     ): Promise<TurtleCoindInterfaces.IRawSync> {
+        checkpoints = validateHashes(checkpoints, 'checkpoints', MAX_LIMIT);
+
+        validateInteger(height, 'height');
+
+        validateInteger(timestamp, 'timestamp');
+
+        validateInteger(count, 'count', 1, MAX_LIMIT);
+
         const startHeight = await this.getSyncHeight(checkpoints, height, timestamp);
 
-        const topBlockHeader = await this.lastBlockHeader();
+        // the primary decides whether there are no more blocks to sync
+        const [rows, transactions] = await this.readReplica(startHeight,
+            db => this.getSyncBlocks(startHeight, skipCoinbaseTransactions, count, db),
+            ([rows]) => rows.length !== 0);
 
-        const skip = (skipCoinbaseTransactions) ? ' AND transactionsCount > 1 ' : '';
+        const blocks: ILoadedRawBlock[] = [];
 
-        const [, rows] = await this.m_db.query(
-            'SELECT blocks.hash AS hash, data FROM blocks LEFT JOIN blockchain ON ' +
-            'blockchain.hash = blocks.hash WHERE height >= ? ' + skip + ' ORDER BY height ASC LIMIT ?',
-            [startHeight, count]);
+        for (const row of rows) {
+            const block = await Block.from(row.data);
 
-        const blocks: ILoadedRawBlock[] = rows.map(row => {
-            return {
+            blocks.push({
                 hash: row.hash,
                 blob: row.data,
-                transactions: []
-            };
-        });
-
-        for (const block of blocks) {
-            const [, txnRows] = await this.m_db.query(
-                'SELECT data FROM transactions WHERE block_hash = ? AND coinbase = 0',
-                [block.hash]);
-
-            for (const txn of txnRows) {
-                block.transactions.push(txn.data);
-            }
+                transactions: inBlockOrder(transactions.get(row.hash) || [], block.transactions).map(txn => txn.data)
+            });
         }
 
         const result: TurtleCoindInterfaces.IRawSync = {
@@ -1411,6 +3889,8 @@ export class BlockchainDB implements ITurtleCoind {
         };
 
         if (blocks.length === 0) {
+            const topBlockHeader = await this.lastBlockHeader();
+
             result.topBlock = {
                 hash: topBlockHeader.hash,
                 height: topBlockHeader.height
@@ -1426,47 +3906,83 @@ export class BlockchainDB implements ITurtleCoind {
      * @param hash the transaction hash
      */
     public async rawTransaction (hash: string): Promise<string> {
-        const [count, rows] = await this.m_db.query(
-            'SELECT data FROM transactions WHERE hash = ?',
-            [hash]);
+        hash = validateHash(hash, 'hash');
 
-        if (count === 0) {
-            throw new ReferenceError('Transaction not found: ' + hash);
-        }
+        return this.readReplica(0, async db => {
+            const [count, rows] = await db.query(
+                'SELECT data FROM transactions WHERE hash = ?',
+                [hash]);
+
+            if (count === 0) {
+                throw new ReferenceError('Transaction not found: ' + hash);
+            }
 
-        return rows[0].data;
+            return rows[0].data;
+        });
     }
 
     /**
      * Retrieves the RawTransactions currently in the memory pool
      * Requires the daemon to have the explorer enabled
+     * @param hashes if supplied, only the transactions with these hashes are retrieved
      */
-    public async rawTransactionPool (): Promise<string[]> {
-        const [, rows] = await this.m_db.query('SELECT data FROM transaction_pool');
+    public async rawTransactionPool (hashes?: string[]): Promise<string[]> {
+        if (hashes === undefined) {
+            const [, rows] = await this.m_db.query('SELECT data FROM transaction_pool');
+
+            return rows.map(row => row.data);
+        }
+
+        hashes = validateHashes(hashes, 'hashes');
+
+        const results: string[] = [];
 
-        return rows.map(row => row.data);
+        for (let i = 0; i < hashes.length; i += 25) {
+            const batch = hashes.slice(i, i + 25);
+
+            const [, rows] = await this.m_db.query(
+                'SELECT data FROM transaction_pool WHERE hash IN (' +
+                batch.map(() => '?').join(',') + ')', batch);
+
+            rows.map(row => results.push(row.data));
+        }
+
+        return results;
     }
 
     /**
-     * Submits a block to the node for processing
-     * THIS METHOD IS NOT AVAILABLE IN THIS IMPLEMENTATION
+     * Submits a block to the upstream daemon for processing
+     * THIS METHOD IS ONLY AVAILABLE WHEN AN UPSTREAM DAEMON IS CONFIGURED
      * @param block the hex representation of the block
      */
     public async submitBlock (block: string): Promise<string> {
-        UNUSED(block);
+        validateHex(block, 'block', MAX_BLOB_LENGTH);
+
+        if (!this.m_relay) {
+            throw new NotAvailableError();
+        }
 
-        throw new Error('Method not available');
+        return this.m_relay.submitBlock(block);
     }
 
     /**
-     * Submits a transaction to the node for processing.
-     * THIS METHOD IS NOT AVAILABLE IN THIS IMPLEMENTATION
+     * Submits a transaction to the upstream daemon for processing. Accepted transactions
+     * are saved to the transaction pool immediately.
+     * THIS METHOD IS ONLY AVAILABLE WHEN AN UPSTREAM DAEMON IS CONFIGURED
      * @param transaction the hex representation of the transaction
      */
     public async submitTransaction (transaction: string): Promise<string> {
-        UNUSED(transaction);
+        validateHex(transaction, 'transaction', MAX_BLOB_LENGTH);
+
+        if (!this.m_relay) {
+            throw new NotAvailableError();
+        }
+
+        const result = await this.m_relay.submitTransaction(transaction);
 
-        throw new Error('Method not available');
+        await this.saveRelayedTransaction(transaction);
+
+        return result;
     }
 
     /**
@@ -1484,21 +4000,28 @@ export class BlockchainDB implements ITurtleCoind {
         skipCoinbaseTransactions = false,
         count = 100
     ): Promise<TurtleCoindInterfaces.ISync> {
-        const startHeight = await this.getSyncHeight(checkpoints, height, timestamp);
+        checkpoints = validateHashes(checkpoints, 'checkpoints', MAX_LIMIT);
 
-        const topBlockHeader = await this.lastBlockHeader();
+        validateInteger(height, 'height');
 
-        const skip = (skipCoinbaseTransactions) ? ' AND transactionscount > 1 ' : '';
+        validateInteger(timestamp, 'timestamp');
+
+        validateInteger(count, 'count', 1, MAX_LIMIT);
+
+        const startHeight = await this.getSyncHeight(checkpoints, height, timestamp);
 
         const blocks: TurtleCoindInterfaces.ISyncBlock[] = [];
 
-        const [, rows] = await this.m_db.query(
-            'SELECT blocks.hash AS hash, data FROM blocks LEFT JOIN blockchain ON blockchain.hash = blocks.hash ' +
-            'WHERE height >= ? ' + skip + ' ORDER BY height ASC LIMIT ?', [startHeight, count]);
+        // the primary decides whether there are no more blocks to sync
+        const [rows, transactions] = await this.readReplica(startHeight,
+            db => this.getSyncBlocks(startHeight, skipCoinbaseTransactions, count, db),
+            ([rows]) => rows.length !== 0);
 
         for (const row of rows) {
             const block = await Block.from(row.data);
 
+            transactions.set(row.hash, inBlockOrder(transactions.get(row.hash) || [], block.transactions));
+
             const temp: TurtleCoindInterfaces.ISyncBlock = {
                 height: block.height,
                 hash: row.hash,
@@ -1519,7 +4042,7 @@ export class BlockchainDB implements ITurtleCoind {
                     }),
                     publicKey: block.minerTransaction.publicKey || '',
                     unlockTime: (typeof block.minerTransaction.unlockTime === 'number')
-                        ? BigInteger(block.minerTransaction.unlockTime)
+                        ? BigInteger(block.minerTransaction.unlockTime)
                         : block.minerTransaction.unlockTime
                 };
             }
@@ -1528,11 +4051,7 @@ export class BlockchainDB implements ITurtleCoind {
         }
 
         for (const block of blocks) {
-            const [, txnRows] = await this.m_db.query(
-                'SELECT hash, data FROM transactions WHERE block_hash = ? AND coinbase = 0',
-                [block.hash]);
-
-            for (const txn of txnRows) {
+            for (const txn of transactions.get(block.hash) || []) {
                 const tx = await Transaction.from(txn.data);
 
                 const temp: TurtleCoindInterfaces.ISyncTransaction = {
@@ -1568,6 +4087,8 @@ export class BlockchainDB implements ITurtleCoind {
         };
 
         if (blocks.length === 0) {
+            const topBlockHeader = await this.lastBlockHeader();
+
             result.topBlock = {
                 hash: topBlockHeader.hash,
                 height: topBlockHeader.height
@@ -1583,76 +4104,99 @@ export class BlockchainDB implements ITurtleCoind {
      * @param hash the transaction hash
      */
     public async transaction (hash: string): Promise<TurtleCoindInterfaces.ITransaction> {
-        const tx = await this.getTransaction(hash);
+        hash = validateHash(hash, 'hash');
 
-        const block_hash = await this.getBlockHashByTransaction(hash);
+        await this.refreshChainState();
 
-        const block_header = await this.getBlockHeader(block_hash);
+        const cached = this.m_transactionCache.get(hash);
 
-        const txn_meta = await this.getTransactionMeta(hash);
+        if (cached) {
+            return {
+                ...cached,
+                block: { ...cached.block, depth: Math.max(this.m_chainTopHeight - cached.block.height, 0) }
+            };
+        }
 
-        let ringSize = 0;
+        const generation = this.m_cacheGeneration;
 
-        for (const sigs of tx.signatures) {
-            if (sigs.length > ringSize) {
-                ringSize = sigs.length;
-            }
-        }
+        return this.readReplica(0, async db => {
+            const tx = await this.queryTransaction(hash, db);
 
-        const inputs: TurtleCoindInterfaces.ITransactionPrefixInput[] = [];
+            const block_hash = await this.getBlockHashByTransaction(hash, db);
 
-        for (const input of tx.inputs) {
-            if (input.type === InputType.COINBASE) {
-                const _input = (input as CoinbaseInput);
+            const block_header = await this.getBlockHeader(block_hash, db);
 
-                inputs.push({
-                    height: _input.blockIndex,
-                    type: 'ff'
-                });
-            } else if (input.type === InputType.KEY) {
-                const _input = (input as KeyInput);
-
-                inputs.push({
-                    amount: _input.amount.toJSNumber(),
-                    keyImage: _input.keyImage,
-                    offsets: _input.keyOffsets.map(elem => elem.toJSNumber()),
-                    type: '02'
-                });
+            const txn_meta = await this.getTransactionMeta(hash, db);
+
+            let ringSize = 0;
+
+            for (const sigs of tx.signatures) {
+                if (sigs.length > ringSize) {
+                    ringSize = sigs.length;
+                }
+            }
+
+            const inputs: TurtleCoindInterfaces.ITransactionPrefixInput[] = [];
+
+            for (const input of tx.inputs) {
+                if (input.type === InputType.COINBASE) {
+                    const _input = (input as CoinbaseInput);
+
+                    inputs.push({
+                        height: _input.blockIndex,
+                        type: 'ff'
+                    });
+                } else if (input.type === InputType.KEY) {
+                    const _input = (input as KeyInput);
+
+                    inputs.push({
+                        amount: _input.amount.toJSNumber(),
+                        keyImage: _input.keyImage,
+                        offsets: _input.keyOffsets.map(elem => elem.toJSNumber()),
+                        type: '02'
+                    });
+                }
             }
-        }
 
-        const outputs: TurtleCoindInterfaces.ITransactionPrefixOutput[] = [];
+            const outputs: TurtleCoindInterfaces.ITransactionPrefixOutput[] = [];
 
-        for (const output of tx.outputs) {
-            if (output.type === OutputType.KEY) {
-                const _output = (output as KeyOutput);
+            for (const output of tx.outputs) {
+                if (output.type === OutputType.KEY) {
+                    const _output = (output as KeyOutput);
 
-                outputs.push({
-                    amount: _output.amount.toJSNumber(),
-                    key: _output.key,
-                    type: '02'
-                });
+                    outputs.push({
+                        amount: _output.amount.toJSNumber(),
+                        key: _output.key,
+                        type: '02'
+                    });
+                }
             }
-        }
 
-        return {
-            block: block_header,
-            prefix: {
-                extra: tx.extra.toString('hex'),
-                inputs: inputs,
-                outputs: outputs,
-                unlockTime: (typeof tx.unlockTime === 'number') ? BigInteger(tx.unlockTime) : tx.unlockTime,
-                version: tx.version
-            },
-            meta: {
-                amountOut: txn_meta.amountOut,
-                fee: tx.fee,
-                paymentId: tx.paymentId || '',
-                publicKey: tx.publicKey || '',
-                ringSize: ringSize,
-                size: tx.size
+            const result: TurtleCoindInterfaces.ITransaction = {
+                block: block_header,
+                prefix: {
+                    extra: tx.extra.toString('hex'),
+                    inputs: inputs,
+                    outputs: outputs,
+                    unlockTime: (typeof tx.unlockTime === 'number') ? BigInteger(tx.unlockTime) : tx.unlockTime,
+                    version: tx.version
+                },
+                meta: {
+                    amountOut: txn_meta.amountOut,
+                    fee: tx.fee,
+                    paymentId: tx.paymentId || '',
+                    publicKey: tx.publicKey || '',
+                    ringSize: ringSize,
+                    size: tx.size
+                }
+            };
+
+            if (generation === this.m_cacheGeneration) {
+                this.m_transactionCache.set(hash, result, block_header.height);
             }
-        };
+
+            return { ...result, block: { ...block_header } };
+        });
     }
 
     /**
@@ -1683,13 +4227,17 @@ export class BlockchainDB implements ITurtleCoind {
         lastKnownBlock: string,
         transactions: string[]
     ): Promise<TurtleCoindInterfaces.ITransactionPoolDelta> {
+        lastKnownBlock = validateHash(lastKnownBlock, 'lastKnownBlock');
+
+        transactions = validateHashes(transactions, 'transactions');
+
         const topBlockHeader = await this.lastBlockHeader();
 
         const [, rows] = await this.m_db.query('SELECT hash, data FROM transaction_pool');
 
         const poolHashes: string[] = rows.map(elem => elem.hash);
 
-        const added = rows.filter(row => transactions.indexOf(row.hash) !== -1)
+        const added = rows.filter(row => transactions.indexOf(row.hash) === -1)
             .map(row => row.data);
 
         const deleted = transactions.filter(hash => poolHashes.indexOf(hash) === -1);
@@ -1706,6 +4254,8 @@ export class BlockchainDB implements ITurtleCoind {
      * @param transactions an array of transaction hashes
      */
     public async transactionsStatus (transactions: string[]): Promise<TurtleCoindInterfaces.ITransactionsStatus> {
+        transactions = validateHashes(transactions, 'transactions');
+
         const result: TurtleCoindInterfaces.ITransactionsStatus = {
             inBlock: [],
             inPool: [],
@@ -1740,7 +4290,179 @@ export class BlockchainDB implements ITurtleCoind {
     }
 }
 
-/** @ignore */
-function UNUSED (val: any): any {
-    return val || '';
+/**
+ * Sorts the transactions of a block into the order that they are included in the block
+ * @param transactions the transactions of the block
+ * @param hashes the transaction hashes in the order that they are included in the block
+ * @ignore
+ */
+function inBlockOrder<T extends { hash: string }> (transactions: T[], hashes: string[]): T[] {
+    return transactions.sort((a, b) => hashes.indexOf(a.hash) - hashes.indexOf(b.hash));
+}
+
+/**
+ * Prepares the statements that append a change to the log of changes to the main chain.
+ * The id of the change is taken from the chain_changes sequence, which stays locked until
+ * the database transaction commits, so that concurrent writers commit their changes in
+ * the order of their ids and a reader's cursor never skips a change
+ * @param type the type of change
+ * @param hash the block hash
+ * @param height the block height
+ * @param timestamp the time of the change (seconds)
+ * @ignore
+ */
+function prepareChainChange (type: ChainChangeType, hash: string, height: number, timestamp: number): IBulkQuery[] {
+    return [
+        {
+            query: 'UPDATE sequences SET value = value + 1 WHERE name = ?',
+            values: ['chain_changes']
+        },
+        {
+            query: 'INSERT INTO chain_changes (id, type, hash, height, utctimestamp) ' +
+                'SELECT value, ?, ?, ?, ? FROM sequences WHERE name = ?',
+            values: [type, hash, height, timestamp, 'chain_changes']
+        }
+    ];
+}
+
+/**
+ * Checks whether an output with the given unlock time may be spent in the block
+ * following the given height, using the same allowances as the daemon
+ * @param unlockTime the unlock time of the transaction, either a block height or a timestamp
+ * @param height the current top block height
+ * @param timestamp the timestamp of the current top block (seconds)
+ * @ignore
+ */
+function isUnlocked (unlockTime: number | BigInteger.BigInteger, height: number, timestamp: number): boolean {
+    const value = BigInteger(unlockTime.toString());
+
+    if (value.lesser(MAX_BLOCK_NUMBER)) {
+        return value.lesserOrEquals(height + LOCKED_TX_ALLOWED_DELTA_BLOCKS);
+    }
+
+    return value.lesserOrEquals(timestamp + LOCKED_TX_ALLOWED_DELTA_SECONDS);
+}
+
+/**
+ * Calculates the fee-per-byte of a transaction
+ * @param fee the transaction fee
+ * @param size the transaction size
+ * @ignore
+ */
+function feePerByte (fee: number, size: number): number {
+    return (size > 0) ? fee / size : 0;
+}
+
+/**
+ * Retrieves the value at the given percentile of a sorted array of values
+ * @param values the sorted values
+ * @param p the percentile (0 - 100)
+ * @ignore
+ */
+function percentile (values: number[], p: number): number {
+    if (values.length === 0) {
+        return 0;
+    }
+
+    return values[Math.min(Math.floor(values.length * p / 100), values.length - 1)];
+}
+
+/**
+ * Retrieves the number of seconds that daemon /info and /peers snapshots are kept for
+ * as configured by the HISTORY_RETENTION_DAYS environment variable (default: 30 days)
+ * @ignore
+ */
+function historyRetention (): number {
+    const days = (process.env.HISTORY_RETENTION_DAYS) ? parseInt(process.env.HISTORY_RETENTION_DAYS, 10) : 30;
+
+    return (isNaN(days) ? 30 : days) * 86400;
+}
+
+/**
+ * Converts a block_meta (or alt_block_meta) row into a block header
+ * @param row the database row
+ * @param topHeight the current top block height used to calculate the depth of the block
+ * @ignore
+ */
+function blockHeaderFromRow (row: any, topHeight: number): TurtleCoindInterfaces.IBlockHeader {
+    return {
+        hash: row.hash,
+        prevHash: row.prevhash,
+        height: parseInt(row.height, 10),
+        baseReward: parseInt(row.basereward, 10),
+        difficulty: parseInt(row.difficulty, 10),
+        majorVersion: parseInt(row.majorversion, 10),
+        minorVersion: parseInt(row.minorversion, 10),
+        nonce: parseInt(row.nonce, 10),
+        size: parseInt(row.size),
+        timestamp: new Date(parseInt(row.utctimestamp, 10) * 1000),
+        alreadyGeneratedCoins: BigInteger(row.alreadygeneratedcoins),
+        alreadyGeneratedTransactions:
+            parseInt(row.alreadygeneratedtransactions, 10),
+        reward: parseInt(row.reward, 10),
+        sizeMedian: parseInt(row.sizemedian, 10),
+        totalFeeAmount: parseInt(row.totalfeeamount, 10),
+        transactionsCumulativeSize:
+            parseInt(row.transactionscumulativesize, 10),
+        transactionCount: parseInt(row.transactionscount, 10),
+        depth: Math.max(topHeight - parseInt(row.height, 10), 0),
+        orphan: (parseInt(row.orphan, 10) === 1),
+        penalty: parseInt(row.penalty, 10)
+    };
+}
+
+/**
+ * Prepares the statements that add a transaction to the transaction pool and its pool history
+ * @param hash the transaction hash
+ * @param tx the transaction
+ * @param transaction the hex representation of the transaction
+ * @param known whether the transaction has been in the transaction pool before
+ * @param timestamp the time the transaction was seen (seconds)
+ * @ignore
+ */
+function prepareTransactionPoolInsert (
+    hash: string,
+    tx: Transaction,
+    transaction: string,
+    known: boolean,
+    timestamp: number
+): IBulkQuery[] {
+    const stmts: IBulkQuery[] = [{
+        query: 'INSERT INTO transaction_pool VALUES (?,?,?,?,?)',
+        values: [hash, tx.fee, tx.size, tx.amount, transaction]
+    }];
+
+    if (!known) {
+        stmts.push({
+            query: 'INSERT INTO transaction_pool_history ' +
+                '(hash, fee, size, amount, firstseen, lastseen, data) VALUES (?,?,?,?,?,?,?)',
+            values: [hash, tx.fee, tx.size, tx.amount, timestamp, timestamp, transaction]
+        });
+    } else {
+        // the transaction has returned to the pool so it no longer has an outcome
+        stmts.push({
+            query: 'UPDATE transaction_pool_history SET removedat = NULL, outcome = NULL, block_hash = NULL, ' +
+                'height = NULL, resolvedat = NULL, data = ? WHERE hash = ?',
+            values: [transaction, hash]
+        });
+    }
+
+    return stmts;
+}
+
+/**
+ * Converts an error response from the upstream daemon into an error. Requests the
+ * daemon rejected are represented as a RangeError
+ * @param status the HTTP status code of the response
+ * @param error the error returned by the daemon
+ * @ignore
+ */
+function relayError (status: number, error?: { message?: string }): Error {
+    const message = (error && error.message) ? error.message : 'Upstream daemon returned status ' + status;
+
+    if (status >= 400 && status < 500) {
+        return new RangeError(message);
+    }
+
+    return new Error(message);
 }
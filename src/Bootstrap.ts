@@ -0,0 +1,571 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { BlockchainDB, RewindCause } from './BlockchainDB';
+import { Logger } from '@turtlepay/logger';
+import { Block, Transaction, TurtleCoindTypes as TurtleCoindInterfaces } from 'turtlecoin-utils';
+import * as BigInteger from 'big-integer';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { pipeline, Readable, Writable } from 'stream';
+import { createGunzip, createGzip } from 'zlib';
+import { PerformanceTimer } from './PerformanceTimer';
+
+/** @ignore */
+const BOOTSTRAP_VERSION = 1;
+
+/** @ignore */
+const BOOTSTRAP_FORMAT = 'ndjson+gzip';
+
+/**
+ * The number of blocks read from, or saved to, the database at once. This matches
+ * the number of block headers returned by a single call to blockHeaders()
+ * @ignore
+ */
+const BATCH_SIZE = 30;
+
+/**
+ * Describes the contents of a bootstrap file. The manifest is written alongside
+ * the bootstrap file with the .manifest.json suffix
+ */
+export interface IBootstrapManifest {
+    /**
+     * The version of the bootstrap file format
+     */
+    version: number;
+    /**
+     * The encoding of the bootstrap file
+     */
+    format: string;
+    startHeight: number;
+    endHeight: number;
+    /**
+     * The number of blocks in the bootstrap file
+     */
+    blocks: number;
+    /**
+     * The hash of the block preceding the first block in the bootstrap file
+     */
+    prevHash: string;
+    firstHash: string;
+    lastHash: string;
+    /**
+     * The SHA-256 digest of the bootstrap file
+     */
+    sha256: string;
+    /**
+     * The time the bootstrap file was created (seconds)
+     */
+    created: number;
+}
+
+/**
+ * A single line of a bootstrap file
+ * @ignore
+ */
+interface IBootstrapRecord {
+    height: number;
+    hash: string;
+    blob: string;
+    transactions: string[];
+    header: any;
+    indexes: TurtleCoindInterfaces.ITransactionIndexes[];
+}
+
+/**
+ * Reads a stream one line at a time
+ * @ignore
+ */
+class LineReader {
+    private readonly stream: Readable;
+    private buffer = '';
+    private ended = false;
+    private error?: Error;
+
+    /**
+     * Constructs a new line reader
+     * @param stream the stream to read from
+     */
+    constructor (stream: Readable) {
+        this.stream = stream;
+
+        this.stream.setEncoding('utf8');
+
+        this.stream.on('end', () => {
+            this.ended = true;
+        });
+
+        this.stream.on('error', error => {
+            this.error = error;
+        });
+    }
+
+    /**
+     * Reads the next line from the stream, or undefined once the stream has ended
+     */
+    public async next (): Promise<string | undefined> {
+        for (;;) {
+            if (this.error) {
+                throw this.error;
+            }
+
+            const position = this.buffer.indexOf('\n');
+
+            if (position !== -1) {
+                const line = this.buffer.slice(0, position);
+
+                this.buffer = this.buffer.slice(position + 1);
+
+                return line;
+            }
+
+            const chunk = this.stream.read();
+
+            if (chunk !== null) {
+                this.buffer += chunk;
+
+                continue;
+            }
+
+            if (this.ended) {
+                const line = this.buffer;
+
+                this.buffer = '';
+
+                return (line.length !== 0) ? line : undefined;
+            }
+
+            await new Promise<void>(resolve => {
+                const done = () => {
+                    this.stream.removeListener('readable', done);
+
+                    this.stream.removeListener('end', done);
+
+                    this.stream.removeListener('error', done);
+
+                    resolve();
+                };
+
+                this.stream.on('readable', done);
+
+                this.stream.on('end', done);
+
+                this.stream.on('error', done);
+            });
+        }
+    }
+}
+
+/**
+ * Retrieves the path of the manifest of a bootstrap file
+ * @param path the path of the bootstrap file
+ * @ignore
+ */
+export function manifestPath (path: string): string {
+    return path + '.manifest.json';
+}
+
+/**
+ * Writes the blocks between the given heights (inclusive), including their headers
+ * and global indexes, from the database to a bootstrap file and writes its manifest.
+ * If the export fails, the partially written bootstrap file is removed
+ * @param database the database to read from
+ * @param path the path of the bootstrap file
+ * @param startHeight the height to start at
+ * @param endHeight the height to end at
+ * @ignore
+ */
+export async function writeBootstrap (
+    database: BlockchainDB,
+    path: string,
+    startHeight: number,
+    endHeight: number
+): Promise<IBootstrapManifest> {
+    const timer = new PerformanceTimer();
+
+    const gzip = createGzip();
+
+    const file = createWriteStream(path);
+
+    const finished = new Promise<void>((resolve, reject) => {
+        pipeline(gzip, file, error => (error) ? reject(error) : resolve());
+    });
+
+    // failures of the pipeline are raised when the pipeline is waited on
+    finished.catch(() => undefined);
+
+    let prevHash = '';
+
+    let firstHash = '';
+
+    let lastHash = '';
+
+    try {
+        for (let height = startHeight; height <= endHeight; height += BATCH_SIZE) {
+            const last = Math.min(height + BATCH_SIZE - 1, endHeight);
+
+            const count = last - height + 1;
+
+            const { blocks } = await database.rawSync([], height, 0, false, count);
+
+            const headers = (await database.blockHeaders(last))
+                .filter(header => header.height >= height)
+                .sort((a, b) => a.height - b.height);
+
+            if (blocks.length !== count || headers.length !== count) {
+                throw new RangeError('Blocks ' + height + ' to ' + last + ' are not all in the database');
+            }
+
+            const indexes: Map<string, TurtleCoindInterfaces.ITransactionIndexes> =
+                new Map<string, TurtleCoindInterfaces.ITransactionIndexes>();
+
+            for (const index of await database.indexes(height, last)) {
+                indexes.set(index.hash, index);
+            }
+
+            for (let i = 0; i < count; i++) {
+                const { transactions, ...header } = headers[i];
+
+                const block = await Block.from(blocks[i].blob);
+
+                if (await block.hash() !== header.hash) {
+                    throw new Error('Block ' + header.height + ' changed while it was being exported');
+                }
+
+                if (header.height === startHeight) {
+                    prevHash = header.prevHash;
+
+                    firstHash = header.hash;
+                }
+
+                lastHash = header.hash;
+
+                const record: IBootstrapRecord = {
+                    height: header.height,
+                    hash: header.hash,
+                    blob: blocks[i].blob,
+                    transactions: blocks[i].transactions,
+                    header: {
+                        ...header,
+                        alreadyGeneratedCoins: header.alreadyGeneratedCoins.toString(),
+                        timestamp: Math.floor(header.timestamp.getTime() / 1000)
+                    },
+                    indexes: transactions
+                        .map(tx => indexes.get(tx.hash))
+                        .filter(index => index !== undefined) as TurtleCoindInterfaces.ITransactionIndexes[]
+                };
+
+                await write(gzip, JSON.stringify(record) + '\n', finished);
+            }
+
+            Logger.debug('Exported blocks %s to %s', height, last);
+        }
+
+        gzip.end();
+
+        await finished;
+    } catch (e) {
+        gzip.destroy();
+
+        await finished.catch(() => undefined);
+
+        if (existsSync(path)) {
+            unlinkSync(path);
+        }
+
+        throw e;
+    }
+
+    const manifest: IBootstrapManifest = {
+        version: BOOTSTRAP_VERSION,
+        format: BOOTSTRAP_FORMAT,
+        startHeight: startHeight,
+        endHeight: endHeight,
+        blocks: endHeight - startHeight + 1,
+        prevHash: prevHash,
+        firstHash: firstHash,
+        lastHash: lastHash,
+        sha256: await digest(path),
+        created: Math.floor(Date.now() / 1000)
+    };
+
+    writeFileSync(manifestPath(path), JSON.stringify(manifest, null, 4));
+
+    Logger.info('Exported %s blocks to %s in %s seconds', manifest.blocks, path, timer.elapsed.seconds.toFixed(2));
+
+    return manifest;
+}
+
+/**
+ * Loads a bootstrap file into the database. The file is verified against its manifest
+ * before any block is loaded, and each block is verified to be intact and to follow the
+ * previous block before it is saved. The database must contain the blocks that precede
+ * the first block in the file. Blocks of the file that are already in the database, such
+ * as those saved by an earlier import that did not complete, are verified and skipped
+ * @param database the database to load the blocks into
+ * @param path the path of the bootstrap file
+ * @ignore
+ */
+export async function readBootstrap (database: BlockchainDB, path: string): Promise<IBootstrapManifest> {
+    const timer = new PerformanceTimer();
+
+    const manifest = readManifest(path);
+
+    if (await digest(path) !== manifest.sha256) {
+        throw new Error('Bootstrap file checksum does not match the manifest: ' + path);
+    }
+
+    let count = await database.blockCount();
+
+    if (count < manifest.startHeight) {
+        throw new RangeError('Bootstrap file starts at height ' + manifest.startHeight +
+            ' but the database contains ' + count + ' blocks');
+    }
+
+    if (count > manifest.startHeight) {
+        const connected = await database.lastBlockHeader()
+            .then(header => header.height + 1)
+            .catch(() => 0);
+
+        // an import that did not complete may have saved blocks without their global
+        // indexes and headers, those blocks are removed so that they are imported again
+        if (connected < count) {
+            const rewindTo = Math.max(connected, manifest.startHeight);
+
+            Logger.warn('Removing incomplete blocks %s to %s', rewindTo, count - 1);
+
+            await database.rewind(rewindTo, RewindCause.SYNC_ERROR);
+
+            count = await database.blockCount();
+        }
+    }
+
+    // the blocks of the file below this height are already in the database
+    const resumeHeight = Math.min(count, manifest.endHeight + 1);
+
+    if (resumeHeight > manifest.startHeight) {
+        Logger.info('Resuming import of %s at block %s', path, resumeHeight);
+    }
+
+    if (manifest.startHeight > 0 && await database.hashFromHeight(manifest.startHeight - 1) !== manifest.prevHash) {
+        throw new Error('Bootstrap file does not follow the last block in the database');
+    }
+
+    const gunzip = createGunzip();
+
+    // errors reading the file are reported through the stream that is read
+    pipeline(createReadStream(path), gunzip, error => {
+        if (error) {
+            gunzip.emit('error', error);
+        }
+    });
+
+    const reader = new LineReader(gunzip);
+
+    let height = manifest.startHeight;
+
+    let prevHash = manifest.prevHash;
+
+    let records: IBootstrapRecord[] = [];
+
+    let line: string | undefined;
+
+    while ((line = await reader.next()) !== undefined) {
+        if (line.length === 0) {
+            continue;
+        }
+
+        const record = await verifyRecord(line, height, prevHash);
+
+        // as each block follows the previous block, the blocks already in the database
+        // match the file if the last of them does
+        if (height === resumeHeight - 1 && await database.hashFromHeight(height) !== record.hash) {
+            throw new Error('Bootstrap block at height ' + height + ' does not match the block in the database');
+        }
+
+        if (height >= resumeHeight) {
+            records.push(record);
+        }
+
+        prevHash = record.hash;
+
+        height++;
+
+        if (records.length === BATCH_SIZE) {
+            await saveRecords(database, records);
+
+            records = [];
+        }
+    }
+
+    await saveRecords(database, records);
+
+    if (height - manifest.startHeight !== manifest.blocks || prevHash !== manifest.lastHash) {
+        throw new Error('Bootstrap file does not contain the blocks listed in the manifest');
+    }
+
+    Logger.info('Imported %s blocks from %s in %s seconds',
+        manifest.endHeight + 1 - resumeHeight, path, timer.elapsed.seconds.toFixed(2));
+
+    return manifest;
+}
+
+/**
+ * Reads, and verifies the format of, the manifest of a bootstrap file
+ * @param path the path of the bootstrap file
+ * @ignore
+ */
+function readManifest (path: string): IBootstrapManifest {
+    const manifestFile = manifestPath(path);
+
+    if (!existsSync(path) || !existsSync(manifestFile)) {
+        throw new ReferenceError('Bootstrap file, or its manifest, not found: ' + path);
+    }
+
+    let manifest: IBootstrapManifest;
+
+    try {
+        manifest = JSON.parse(readFileSync(manifestFile).toString());
+    } catch {
+        throw new SyntaxError('Malformed bootstrap manifest: ' + manifestFile);
+    }
+
+    if (manifest.version !== BOOTSTRAP_VERSION || manifest.format !== BOOTSTRAP_FORMAT) {
+        throw new Error('Unsupported bootstrap file version or format: ' + manifestFile);
+    }
+
+    return manifest;
+}
+
+/**
+ * Parses a line of a bootstrap file and verifies that the block it contains is intact,
+ * is at the expected height and follows the previous block
+ * @param line the line of the bootstrap file
+ * @param height the expected block height
+ * @param prevHash the hash of the previous block
+ * @ignore
+ */
+async function verifyRecord (line: string, height: number, prevHash: string): Promise<IBootstrapRecord> {
+    let record: IBootstrapRecord;
+
+    try {
+        record = JSON.parse(line);
+    } catch {
+        throw new SyntaxError('Malformed bootstrap record at height ' + height);
+    }
+
+    if (typeof record !== 'object' || record === null || record.height !== height ||
+        typeof record.blob !== 'string' || !Array.isArray(record.transactions) ||
+        !Array.isArray(record.indexes) || typeof record.header !== 'object' || record.header === null) {
+        throw new SyntaxError('Malformed bootstrap record at height ' + height);
+    }
+
+    const block = await Block.from(record.blob);
+
+    const hash = await block.hash();
+
+    if (hash !== record.hash || record.header.hash !== hash || block.height !== height ||
+        record.header.height !== height) {
+        throw new Error('Bootstrap block at height ' + height + ' is corrupt');
+    }
+
+    if (block.previousBlockHash !== prevHash || record.header.prevHash !== prevHash) {
+        throw new Error('Bootstrap block ' + hash + ' does not follow the previous block ' + prevHash);
+    }
+
+    const hashes: string[] = [];
+
+    for (const data of record.transactions) {
+        const tx = await Transaction.from(data);
+
+        hashes.push(await tx.hash());
+    }
+
+    if (hashes.join() !== block.transactions.join()) {
+        throw new Error('Bootstrap block ' + hash + ' does not contain the transactions of the block');
+    }
+
+    hashes.push(await block.minerTransaction.hash());
+
+    for (const index of record.indexes) {
+        if (hashes.indexOf(index.hash) === -1) {
+            throw new Error('Bootstrap block ' + hash + ' contains global indexes for another transaction');
+        }
+    }
+
+    return record;
+}
+
+/**
+ * Saves the blocks, global indexes and block headers of bootstrap records to the database
+ * in the same order as the collector, removing the blocks again if they cannot all be saved
+ * @param database the database to save to
+ * @param records the bootstrap records
+ * @ignore
+ */
+async function saveRecords (database: BlockchainDB, records: IBootstrapRecord[]): Promise<void> {
+    if (records.length === 0) {
+        return;
+    }
+
+    try {
+        await database.saveRawBlocks(records.map(record => {
+            return {
+                blob: record.blob,
+                transactions: record.transactions
+            };
+        }));
+
+        await database.saveOutputGlobalIndexes(
+            records.reduce((indexes: TurtleCoindInterfaces.ITransactionIndexes[], record) =>
+                indexes.concat(record.indexes), []));
+
+        await database.saveBlocksMeta(records.map(record => {
+            return {
+                ...record.header,
+                alreadyGeneratedCoins: BigInteger(record.header.alreadyGeneratedCoins),
+                timestamp: new Date(record.header.timestamp * 1000)
+            };
+        }));
+    } catch (e) {
+        // if anything fails here, the batch is removed so that no block is left without
+        // its global indexes or header
+        await database.rewind(records[0].height, RewindCause.SYNC_ERROR).catch(error =>
+            Logger.error('Could not rewind database to block %s: %s', records[0].height, error.toString()));
+
+        throw e;
+    }
+
+    Logger.debug('Imported blocks %s to %s', records[0].height, records[records.length - 1].height);
+}
+
+/**
+ * Writes data to a stream, waiting for the stream to drain if its buffer is full
+ * @param stream the stream to write to
+ * @param data the data to write
+ * @param finished resolves, or rejects, once the stream has finished
+ * @ignore
+ */
+async function write (stream: Writable, data: string, finished: Promise<void>): Promise<void> {
+    if (!stream.write(data)) {
+        // a stream that fails will never drain
+        await Promise.race([new Promise(resolve => stream.once('drain', resolve)), finished]);
+    }
+}
+
+/**
+ * Calculates the SHA-256 digest of a file
+ * @param path the path of the file
+ * @ignore
+ */
+async function digest (path: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = createHash('sha256');
+
+        createReadStream(path)
+            .on('data', chunk => hash.update(chunk))
+            .on('error', error => reject(error))
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+}
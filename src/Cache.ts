@@ -0,0 +1,117 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+/**
+ * Represents the hit/miss counters of a cache
+ */
+export interface ICacheStats {
+    hits: number;
+    misses: number;
+    size: number;
+    capacity: number;
+}
+
+/** @ignore */
+interface ICacheEntry<V> {
+    value: V;
+    height: number;
+}
+
+/**
+ * A size-bounded, least recently used cache whose entries are tagged with the
+ * height of the block they were derived from so that the entries affected by
+ * changes to the chain at, or above, a height may be invalidated
+ * @ignore
+ */
+export class Cache<K, V> {
+    private readonly entries: Map<K, ICacheEntry<V>> = new Map<K, ICacheEntry<V>>();
+    private readonly capacity: number;
+    private m_hits = 0;
+    private m_misses = 0;
+
+    /**
+     * Constructs a new cache
+     * @param capacity the maximum number of entries in the cache, 0 disables the cache
+     */
+    constructor (capacity: number) {
+        this.capacity = capacity;
+    }
+
+    /**
+     * The hit/miss counters of the cache
+     */
+    public get stats (): ICacheStats {
+        return {
+            hits: this.m_hits,
+            misses: this.m_misses,
+            size: this.entries.size,
+            capacity: this.capacity
+        };
+    }
+
+    /**
+     * Retrieves the value for the key, if cached
+     * @param key the key
+     */
+    public get (key: K): V | undefined {
+        const entry = this.entries.get(key);
+
+        if (!entry) {
+            this.m_misses++;
+
+            return undefined;
+        }
+
+        // re-inserting the entry marks it as the most recently used
+        this.entries.delete(key);
+
+        this.entries.set(key, entry);
+
+        this.m_hits++;
+
+        return entry.value;
+    }
+
+    /**
+     * Caches the value for the key
+     * @param key the key
+     * @param value the value
+     * @param height the height of the block the value was derived from
+     */
+    public set (key: K, value: V, height: number) {
+        if (this.capacity <= 0) {
+            return;
+        }
+
+        this.entries.delete(key);
+
+        this.entries.set(key, {
+            value: value,
+            height: height
+        });
+
+        while (this.entries.size > this.capacity) {
+            this.entries.delete(this.entries.keys().next().value);
+        }
+    }
+
+    /**
+     * Removes the entries derived from blocks at, or above, the given height
+     * @param height the height
+     */
+    public invalidate (height: number) {
+        for (const [key, entry] of this.entries) {
+            if (entry.height >= height) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Removes all entries from the cache
+     */
+    public clear () {
+        this.entries.clear();
+    }
+}
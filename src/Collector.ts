@@ -2,14 +2,115 @@
 //
 // Please see the included LICENSE file for more information.
 
-import { TurtleCoind, TurtleCoindTypes as TurtleCoindInterfaces } from 'turtlecoin-utils';
-import { BlockchainDB } from './BlockchainDB';
+import { Block, TurtleCoind, TurtleCoindTypes as TurtleCoindInterfaces } from 'turtlecoin-utils';
+import { BlockchainDB, IReorgEvent, RewindCause } from './BlockchainDB';
 import { IDatabase } from 'db-abstraction';
 import { EventEmitter } from 'events';
 import { Logger } from '@turtlepay/logger';
 import { Metronome } from 'node-metronome';
 import { PerformanceTimer } from './PerformanceTimer';
 
+/**
+ * Emitted when a range of blocks has been saved to the database
+ */
+export interface ICollectorBlocksEvent {
+    startHeight: number;
+    endHeight: number;
+    hashes: string[];
+    transactionCount: number;
+}
+
+/**
+ * Emitted when the database has been rewound
+ */
+export interface ICollectorRewindEvent {
+    fromHeight: number;
+    toHeight: number;
+    cause: RewindCause;
+    reorg: IReorgEvent;
+}
+
+/**
+ * Emitted when the transaction pool has been saved to the database
+ */
+export interface ICollectorPoolEvent {
+    added: string[];
+    removed: string[];
+}
+
+/**
+ * Emitted when the block retrieval batch size changes
+ */
+export interface ICollectorBatchSizeEvent {
+    from: number;
+    to: number;
+}
+
+export declare interface Collector {
+    /**
+     * Emitted when a range of blocks has been saved to the database
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'blocks', listener: (event: ICollectorBlocksEvent) => void): this;
+
+    /**
+     * Emitted when the database has been rewound
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'rewind', listener: (event: ICollectorRewindEvent) => void): this;
+
+    /**
+     * Emitted when the transaction pool has been saved to the database
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'pool', listener: (event: ICollectorPoolEvent) => void): this;
+
+    /**
+     * Emitted when the daemon /info has been saved to the database
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'info', listener: (info: TurtleCoindInterfaces.IInfo) => void): this;
+
+    /**
+     * Emitted when the daemon /peers has been saved to the database
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'peers', listener: (peers: TurtleCoindInterfaces.IPeers) => void): this;
+
+    /**
+     * Emitted when the database becomes synced with the daemon
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'synced', listener: () => void): this;
+
+    /**
+     * Emitted when the database is no longer synced with the daemon
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'desynced', listener: () => void): this;
+
+    /**
+     * Emitted when the block retrieval batch size changes
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'batchsize', listener: (event: ICollectorBatchSizeEvent) => void): this;
+
+    /**
+     * Emitted when an error is encountered during collection
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'error', listener: (error: Error) => void): this;
+}
+
 /**
  * Represents an instance of a blockchain collector
  */
@@ -23,6 +124,7 @@ export class Collector extends EventEmitter {
     private m_running = false;
     private readonly m_default_block_batch_size: number = 100;
     private m_block_batch_size = 100;
+    private m_synced = false;
 
     /**
      * Constructs a new instance of the collector
@@ -77,6 +179,13 @@ export class Collector extends EventEmitter {
         return this.m_block_batch_size;
     }
 
+    /**
+     * Returns whether the database is synced with the daemon
+     */
+    public get synced (): boolean {
+        return this.m_synced;
+    }
+
     /**
      * Starts the collector
      */
@@ -113,7 +222,7 @@ export class Collector extends EventEmitter {
 
                 Logger.warn('Attempting rewind of database to: %s', lowestHeight);
 
-                await this.database.rewind(lowestHeight);
+                this.emitRewind(await this.database.rewind(lowestHeight, RewindCause.CONSISTENCY_CHECK));
 
                 [consistency, inconsistentRows] = await this.database.checkConsistency();
 
@@ -167,8 +276,12 @@ export class Collector extends EventEmitter {
                 await this.database.saveInformation(info);
 
                 Logger.debug('Saved current daemon /info');
+
+                this.emit('info', info);
             } catch (e) {
                 Logger.warn('Could not save daemon /info: %s', e.toString());
+
+                this.emitError(e);
             }
         });
 
@@ -179,8 +292,12 @@ export class Collector extends EventEmitter {
                 await this.database.savePeers(peers);
 
                 Logger.debug('Saved current daemon /peers');
+
+                this.emit('peers', peers);
             } catch (e) {
                 Logger.warn('Could not save daemon /peers: %s', e.toString());
+
+                this.emitError(e);
             }
         });
 
@@ -188,11 +305,17 @@ export class Collector extends EventEmitter {
             try {
                 const transactions = await this.rpc.rawTransactionPool();
 
-                await this.database.saveTransactionPool(transactions);
+                const changes = await this.database.saveTransactionPool(transactions);
 
                 Logger.info('Saved current transaction pool: %s transactions', transactions.length);
+
+                if (changes.added.length !== 0 || changes.removed.length !== 0) {
+                    this.emit('pool', changes);
+                }
             } catch (e) {
                 Logger.warn('Could not save current transaction pool: %s', e.toString());
+
+                this.emitError(e);
             }
         });
 
@@ -227,9 +350,29 @@ export class Collector extends EventEmitter {
                     syncResults.blocks.length);
 
                 if (syncResults.synced && syncResults.blocks.length === 0) {
+                    this.setSynced(true);
+
                     return;
                 }
 
+                this.setSynced(false);
+
+                if (syncResults.blocks.length !== 0) {
+                    const forkBlock = await Block.from(syncResults.blocks[0].blob);
+
+                    /**
+                     * If the daemon returns blocks at or below our last known block then
+                     * the daemon has switched to a different chain than the one we have
+                     */
+                    if (forkBlock.height <= minHeight) {
+                        Logger.warn('Daemon chain has forked from the database at block %s, rewinding...',
+                            forkBlock.height);
+
+                        this.emitRewind(await this.database.rewind(
+                            forkBlock.height, RewindCause.DAEMON_FORK, await forkBlock.hash()));
+                    }
+                }
+
                 const [blockHeights, blockHashes, transactionCount] =
                     await this.database.saveRawBlocks(syncResults.blocks);
 
@@ -264,13 +407,28 @@ export class Collector extends EventEmitter {
                 Logger.info('Saved %s blocks to database: %s to %s [%ss]',
                     blockHeights.length, minHeight, maxHeight, timer.elapsed.seconds.toFixed(2));
 
+                this.emit('blocks', {
+                    startHeight: minHeight,
+                    endHeight: maxHeight,
+                    hashes: blockHashes,
+                    transactionCount: transactionCount
+                });
+
                 this.increase_block_batch_size();
             } catch (e) {
                 // If anything fails here, rewind it all
                 Logger.error('Something broke... to prevent data inconsistency we are ' +
                     'rewinding database to block %s: %s', minHeight, e.toString());
 
-                await this.database.rewind(minHeight);
+                this.emitError(e);
+
+                try {
+                    this.emitRewind(await this.database.rewind(minHeight, RewindCause.SYNC_ERROR));
+                } catch (error) {
+                    Logger.error('Could not rewind database to block %s: %s', minHeight, error.toString());
+
+                    this.emitError(error);
+                }
 
                 this.reduce_block_batch_size();
             } finally {
@@ -445,6 +603,10 @@ export class Collector extends EventEmitter {
         }
 
         Logger.debug('Increased block retrieval batch size from %s -> %s', old, this.block_batch_size);
+
+        if (old !== this.block_batch_size) {
+            this.emit('batchsize', { from: old, to: this.block_batch_size });
+        }
     }
 
     /**
@@ -465,6 +627,55 @@ export class Collector extends EventEmitter {
         }
 
         Logger.debug('Reduced block retrieval batch size from %s -> %s', old, this.block_batch_size);
+
+        if (old !== this.block_batch_size) {
+            this.emit('batchsize', { from: old, to: this.block_batch_size });
+        }
+    }
+
+    /**
+     * Emits an error event if, and only if, there are listeners for it as
+     * an unhandled error event would otherwise terminate the process
+     * @param error the error to emit
+     * @private
+     */
+    private emitError (error: Error) {
+        if (this.listenerCount('error') !== 0) {
+            this.emit('error', error);
+        }
+    }
+
+    /**
+     * Emits a rewind event for the given reorg event
+     * @param reorg the reorg event recorded for the rewind
+     * @private
+     */
+    private emitRewind (reorg?: IReorgEvent) {
+        if (!reorg) {
+            return;
+        }
+
+        this.emit('rewind', {
+            fromHeight: reorg.forkHeight + reorg.depth - 1,
+            toHeight: reorg.forkHeight,
+            cause: reorg.cause,
+            reorg: reorg
+        });
+    }
+
+    /**
+     * Sets the synced state of the collector and emits the transition if it changed
+     * @param synced whether the database is synced with the daemon
+     * @private
+     */
+    private setSynced (synced: boolean) {
+        if (this.m_synced === synced) {
+            return;
+        }
+
+        this.m_synced = synced;
+
+        this.emit((synced) ? 'synced' : 'desynced');
     }
 
     /**
@@ -64,6 +64,58 @@ export async function getDatabase (): Promise<IDatabase> {
     return database;
 }
 
+/**
+ * Uses the environment variables or a .env file in the project's root to
+ * determine the read replicas of the database, if any. Replicas are listed
+ * in DB_REPLICA_HOSTS as comma separated host[:port] pairs and use the same
+ * backend, database name and credentials as the primary unless
+ * DB_REPLICA_USER and DB_REPLICA_PASS are specified
+ */
+export async function getReplicaDatabases (): Promise<IDatabase[]> {
+    if (!process.env.DB_REPLICA_HOSTS) {
+        return [];
+    }
+
+    if (!process.env.USE_MYSQL && !process.env.USE_POSTGRES) {
+        Logger.warn('Read replicas are not supported by the SQLite backend');
+
+        return [];
+    }
+
+    const user = process.env.DB_REPLICA_USER || process.env.DB_USER || undefined;
+    const pass = process.env.DB_REPLICA_PASS || process.env.DB_PASS || undefined;
+    const db = process.env.DB_NAME || 'turtlecoin';
+
+    if (user === undefined || pass === undefined) {
+        Logger.error('\n\n!! Missing replica connection parameters in environment variables !!\n\n');
+
+        process.exit(1);
+    }
+
+    return process.env.DB_REPLICA_HOSTS.split(',')
+        .map(elem => elem.trim())
+        .filter(elem => elem.length !== 0)
+        .map(elem => {
+            const [host, port] = elem.split(':');
+
+            let database;
+
+            if (process.env.USE_MYSQL) {
+                Logger.info('Using MySQL read replica %s...', elem);
+
+                database = new MySQL(host, (port) ? parseInt(port, 10) : 3306, user, pass, db);
+            } else {
+                Logger.info('Using Postgres read replica %s...', elem);
+
+                database = new Postgres(host, (port) ? parseInt(port, 10) : 5432, user, pass, db);
+            }
+
+            database.on('error', error => Logger.error(error.toString()));
+
+            return database;
+        });
+}
+
 /** @ignore */
 export async function getNode (): Promise<{host: string, port: number, ssl: boolean}> {
     const host = process.env.NODE_HOST || 'localhost';
@@ -73,3 +125,22 @@ export async function getNode (): Promise<{host: string, port: number, ssl: bool
 
     return { host, port, ssl };
 }
+
+/**
+ * Uses the environment variables or a .env file in the project's root to
+ * determine the upstream daemon that block templates, blocks and transactions
+ * are relayed to, if any
+ * @ignore
+ */
+export async function getRelay (): Promise<{host: string, port: number, ssl: boolean} | undefined> {
+    if (!process.env.RELAY_HOST) {
+        return undefined;
+    }
+
+    const host = process.env.RELAY_HOST;
+    const port = (process.env.RELAY_PORT) ? parseInt(process.env.RELAY_PORT, 10) : 11898;
+    const ssl = !!(process.env.RELAY_SSL &&
+        (process.env.RELAY_SSL.toLowerCase() === 'true' || process.env.RELAY_SSL === '1'));
+
+    return { host, port, ssl };
+}
@@ -0,0 +1,342 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { BlockchainDB } from './BlockchainDB';
+import { Logger } from '@turtlepay/logger';
+import { TurtleCoindTypes as TurtleCoindInterfaces } from 'turtlecoin-utils';
+
+/**
+ * The error codes used in legacy JSON-RPC responses. The codes below -32000 are
+ * defined by the JSON-RPC 2.0 specification while the others match the daemon
+ */
+export enum LegacyRPCErrorCode {
+    PARSE_ERROR = -32700,
+    INVALID_REQUEST = -32600,
+    METHOD_NOT_FOUND = -32601,
+    INVALID_PARAMS = -32602,
+    WRONG_PARAM = -1,
+    TOO_BIG_HEIGHT = -2,
+    INTERNAL_ERROR = -5
+}
+
+/** @ignore */
+type LegacyMethod = (params: any) => Promise<any>;
+
+/** @ignore */
+class LegacyRPCError extends Error {
+    constructor (public readonly code: LegacyRPCErrorCode, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Provides the legacy daemon JSON-RPC (/json_rpc) methods using the database
+ * so that older tools may use the database without changes
+ */
+export class LegacyRPC {
+    private readonly methods: Map<string, LegacyMethod> = new Map<string, LegacyMethod>();
+
+    /**
+     * Constructs a new instance of the legacy JSON-RPC handler
+     * @param database the database to use
+     */
+    constructor (private readonly database: BlockchainDB) {
+        this.methods.set('getblockcount', async () => {
+            return {
+                count: await this.database.blockCount(),
+                status: 'OK'
+            };
+        });
+
+        this.methods.set('getlastblockheader', async () => {
+            return {
+                block_header: toLegacyBlockHeader(await this.database.lastBlockHeader()),
+                status: 'OK'
+            };
+        });
+
+        this.methods.set('getblockheaderbyhash', async params => {
+            const header = await this.block(toHash(params));
+
+            return {
+                block_header: toLegacyBlockHeader(header),
+                status: 'OK'
+            };
+        });
+
+        this.methods.set('getblockheaderbyheight', async params => {
+            if (typeof params !== 'object' || params === null || !Number.isSafeInteger(params.height) ||
+                params.height < 0) {
+                throw new LegacyRPCError(LegacyRPCErrorCode.WRONG_PARAM, 'Height must be a non-negative integer');
+            }
+
+            const count = await this.database.blockCount();
+
+            if (params.height >= count) {
+                throw new LegacyRPCError(LegacyRPCErrorCode.TOO_BIG_HEIGHT,
+                    'To big height: ' + params.height + ', current blockchain height = ' + (count - 1));
+            }
+
+            return {
+                block_header: toLegacyBlockHeader(await this.block(params.height)),
+                status: 'OK'
+            };
+        });
+
+        this.methods.set('f_block_json', async params => {
+            const block = await this.block(toHash(params));
+
+            return {
+                block: {
+                    ...toLegacyBlockHeader(block),
+                    alreadyGeneratedCoins: block.alreadyGeneratedCoins.toString(),
+                    alreadyGeneratedTransactions: block.alreadyGeneratedTransactions,
+                    baseReward: block.baseReward,
+                    blockSize: block.size,
+                    effectiveSizeMedian: block.sizeMedian,
+                    penalty: block.penalty,
+                    sizeMedian: block.sizeMedian,
+                    totalFeeAmount: block.totalFeeAmount,
+                    transactions: block.transactions.map(tx => toLegacyTransactionSummary(tx)),
+                    transactionsCumulativeSize: block.transactionsCumulativeSize
+                },
+                status: 'OK'
+            };
+        });
+
+        this.methods.set('f_transaction_json', async params => {
+            const hash = toHash(params);
+
+            let tx: TurtleCoindInterfaces.ITransaction;
+
+            try {
+                tx = await this.database.transaction(hash);
+            } catch (error) {
+                if (error instanceof ReferenceError) {
+                    throw new LegacyRPCError(LegacyRPCErrorCode.INTERNAL_ERROR, 'Cannot find transaction: ' + hash);
+                }
+
+                throw error;
+            }
+
+            return {
+                block: {
+                    cumul_size: tx.block.transactionsCumulativeSize,
+                    difficulty: tx.block.difficulty,
+                    hash: tx.block.hash,
+                    height: tx.block.height,
+                    timestamp: toTimestamp(tx.block.timestamp),
+                    tx_count: tx.block.transactionCount
+                },
+                status: 'OK',
+                tx: {
+                    extra: tx.prefix.extra,
+                    unlock_time: tx.prefix.unlockTime.toJSNumber(),
+                    version: tx.prefix.version,
+                    vin: tx.prefix.inputs.map(input => {
+                        if (input.type === 'ff') {
+                            const coinbase = (input as TurtleCoindInterfaces.ITransactionInputCoinbase);
+
+                            return { type: 'ff', value: { height: coinbase.height } };
+                        }
+
+                        const key = (input as TurtleCoindInterfaces.ITransactionInputKey);
+
+                        return {
+                            type: '02',
+                            value: {
+                                amount: key.amount,
+                                k_image: key.keyImage,
+                                key_offsets: key.offsets
+                            }
+                        };
+                    }),
+                    vout: tx.prefix.outputs.map(output => {
+                        return {
+                            amount: output.amount,
+                            target: {
+                                data: { key: output.key },
+                                type: '02'
+                            }
+                        };
+                    })
+                },
+                txDetails: {
+                    amount_out: tx.meta.amountOut,
+                    fee: tx.meta.fee,
+                    hash: hash,
+                    mixin: tx.meta.ringSize,
+                    paymentId: tx.meta.paymentId,
+                    size: tx.meta.size
+                }
+            };
+        });
+
+        this.methods.set('f_on_transactions_pool_json', async () => {
+            const transactions = await this.database.transactionPool();
+
+            return {
+                transactions: transactions.map(tx => toLegacyTransactionSummary(tx)),
+                status: 'OK'
+            };
+        });
+    }
+
+    /**
+     * Handles the body of a JSON-RPC request, including batched requests
+     * @param body the raw request body
+     */
+    public async handle (body: string): Promise<any> {
+        let request: any;
+
+        try {
+            request = JSON.parse(body);
+        } catch {
+            return failure(null, LegacyRPCErrorCode.PARSE_ERROR, 'Parse error');
+        }
+
+        if (Array.isArray(request)) {
+            if (request.length === 0) {
+                return failure(null, LegacyRPCErrorCode.INVALID_REQUEST, 'Invalid Request');
+            }
+
+            const results = [];
+
+            for (const elem of request) {
+                results.push(await this.execute(elem));
+            }
+
+            return results;
+        }
+
+        return this.execute(request);
+    }
+
+    /**
+     * Executes a single JSON-RPC request
+     * @param request the request
+     * @private
+     */
+    private async execute (request: any): Promise<any> {
+        if (typeof request !== 'object' || request === null || typeof request.method !== 'string') {
+            return failure(null, LegacyRPCErrorCode.INVALID_REQUEST, 'Invalid Request');
+        }
+
+        const id = (request.id !== undefined) ? request.id : null;
+
+        const method = this.methods.get(request.method);
+
+        if (!method) {
+            return failure(id, LegacyRPCErrorCode.METHOD_NOT_FOUND, 'Method not found');
+        }
+
+        try {
+            return {
+                jsonrpc: '2.0',
+                id: id,
+                result: await method(request.params || {})
+            };
+        } catch (error) {
+            if (error instanceof LegacyRPCError) {
+                return failure(id, error.code, error.message);
+            }
+
+            Logger.error('Error handling JSON-RPC method %s: %s', request.method, error.toString());
+
+            return failure(id, LegacyRPCErrorCode.INTERNAL_ERROR, 'Internal error');
+        }
+    }
+
+    /**
+     * Retrieves the specified block, mapping a missing block to the daemon error
+     * @param block the block height or hash
+     * @private
+     */
+    private async block (block: string | number): Promise<TurtleCoindInterfaces.IBlock> {
+        try {
+            return await this.database.block(block);
+        } catch (error) {
+            if (error instanceof ReferenceError) {
+                throw new LegacyRPCError(LegacyRPCErrorCode.INTERNAL_ERROR, 'Cannot find block: ' + block);
+            }
+
+            throw error;
+        }
+    }
+}
+
+/**
+ * Constructs a JSON-RPC error response
+ * @param id the request id
+ * @param code the error code
+ * @param message the error message
+ * @ignore
+ */
+function failure (id: any, code: LegacyRPCErrorCode, message: string): any {
+    return {
+        jsonrpc: '2.0',
+        id: id,
+        error: { code, message }
+    };
+}
+
+/**
+ * Verifies and retrieves the hash from the request parameters
+ * @param params the request parameters
+ * @ignore
+ */
+function toHash (params: any): string {
+    if (typeof params !== 'object' || params === null || typeof params.hash !== 'string' ||
+        !/^[0-9a-f]{64}$/i.test(params.hash)) {
+        throw new LegacyRPCError(LegacyRPCErrorCode.WRONG_PARAM, 'Hash must be a 64 character hexadecimal string');
+    }
+
+    return params.hash.toLowerCase();
+}
+
+/**
+ * Converts a date to a unix timestamp in seconds
+ * @param date the date
+ * @ignore
+ */
+function toTimestamp (date: Date): number {
+    return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Converts a block header to the legacy block header format
+ * @param header the block header
+ * @ignore
+ */
+function toLegacyBlockHeader (header: TurtleCoindInterfaces.IBlockHeader): any {
+    return {
+        block_size: header.size,
+        depth: header.depth,
+        difficulty: header.difficulty,
+        hash: header.hash,
+        height: header.height,
+        major_version: header.majorVersion,
+        minor_version: header.minorVersion,
+        nonce: header.nonce,
+        num_txes: header.transactionCount,
+        orphan_status: header.orphan,
+        prev_hash: header.prevHash,
+        reward: header.reward,
+        timestamp: toTimestamp(header.timestamp)
+    };
+}
+
+/**
+ * Converts a transaction summary to the legacy transaction summary format
+ * @param tx the transaction summary
+ * @ignore
+ */
+function toLegacyTransactionSummary (tx: TurtleCoindInterfaces.TransactionSummary): any {
+    return {
+        amount_out: tx.amountOut,
+        fee: tx.fee,
+        hash: tx.hash,
+        size: tx.size
+    };
+}
@@ -0,0 +1,737 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { IDatabase, Interfaces, prepareCreateTable } from 'db-abstraction';
+import { Logger } from '@turtlepay/logger';
+import { PerformanceTimer } from './PerformanceTimer';
+
+/** @ignore */
+import DBType = Interfaces.DBType;
+/** @ignore */
+import FKAction = Interfaces.FKAction;
+/** @ignore */
+import IBulkQuery = Interfaces.IBulkQuery;
+
+/**
+ * Represents a single versioned change to the database schema
+ */
+export interface IMigration {
+    /**
+     * The schema version the database is at once the migration is applied
+     */
+    version: number;
+    /**
+     * A short human readable description of the migration
+     */
+    description: string;
+    /**
+     * Prepares the statements that apply the migration for the backend of
+     * the supplied database. Migrations that require dialect specific SQL
+     * should inspect `database.type` to build the appropriate statements
+     * @param database the database the migration will be applied to
+     */
+    prepare: (database: IDatabase) => IBulkQuery[];
+}
+
+/**
+ * Describes the result of running the migrations against a database
+ */
+export interface IMigrationResult {
+    /**
+     * The schema version of the database before the migrations were run
+     */
+    from: number;
+    /**
+     * The schema version of the database after the migrations were run
+     */
+    to: number;
+    /**
+     * Whether the migrations were only prepared and not applied
+     */
+    dryRun: boolean;
+    /**
+     * The migrations that were (or, for a dry run, would have been) applied
+     */
+    applied: {
+        version: number;
+        description: string;
+        statements: IBulkQuery[];
+    }[];
+}
+
+/**
+ * Appends the statements to create a table, and its indexes, to the supplied list of statements
+ * @param stmts the list of statements to append to
+ * @param create the prepared table creation statements
+ * @ignore
+ */
+const addTable = (stmts: IBulkQuery[], create: { table: string, indexes: string[] }): void => {
+    stmts.push({ query: create.table });
+
+    create.indexes.map(index => stmts.push({ query: index }));
+};
+
+/**
+ * The ordered list of schema migrations. New migrations must always be
+ * appended to the end of this list with the next version number and
+ * existing migrations must never be modified once released
+ */
+export const Migrations: IMigration[] = [
+    {
+        version: 1,
+        description: 'Initial blockchain schema',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+            let create: { table: string, indexes: string[] };
+
+            const hashType = database.hashType;
+            const blobType = database.blobType;
+            const uint64Type = database.uint64Type;
+            const uint32Type = database.uint32Type;
+            const tableOptions = database.tableOptions;
+
+            const addQuery = () => {
+                stmts.push({ query: create.table });
+
+                create.indexes.map(index => stmts.push({ query: index }));
+            };
+
+            create = prepareCreateTable(database.type, 'schema_version', [
+                { name: 'version', type: uint32Type },
+                { name: 'description', type: blobType },
+                { name: 'appliedat', type: uint64Type }
+            ], ['version'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'blocks', [
+                { name: 'hash', type: hashType },
+                { name: 'data', type: blobType }
+            ], ['hash'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'blockchain', [
+                { name: 'height', type: uint64Type },
+                {
+                    name: 'hash',
+                    type: hashType,
+                    foreign: {
+                        table: 'blocks',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'utctimestamp', type: uint64Type }
+            ], ['height'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'block_meta', [
+                {
+                    name: 'hash',
+                    type: hashType,
+                    foreign: {
+                        table: 'blocks',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'prevhash', type: hashType },
+                { name: 'basereward', type: uint64Type },
+                { name: 'difficulty', type: uint64Type },
+                { name: 'majorversion', type: uint32Type },
+                { name: 'minorversion', type: uint32Type },
+                { name: 'nonce', type: uint32Type },
+                { name: 'size', type: uint32Type },
+                { name: 'alreadygeneratedcoins', type: uint64Type },
+                { name: 'alreadygeneratedtransactions', type: uint64Type },
+                { name: 'reward', type: uint64Type },
+                { name: 'sizemedian', type: uint32Type },
+                { name: 'totalfeeamount', type: uint64Type },
+                { name: 'transactionscumulativesize', type: uint32Type },
+                { name: 'transactionscount', type: uint32Type },
+                { name: 'orphan', type: uint32Type },
+                { name: 'penalty', type: uint32Type }
+            ], ['hash'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'transactions', [
+                { name: 'hash', type: hashType },
+                {
+                    name: 'block_hash',
+                    type: hashType,
+                    foreign: {
+                        table: 'blocks',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'coinbase', type: uint32Type },
+                { name: 'data', type: blobType }
+            ], ['hash'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'transaction_meta', [
+                {
+                    name: 'hash',
+                    type: hashType,
+                    foreign: {
+                        table: 'transactions',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'fee', type: uint64Type },
+                { name: 'size', type: uint32Type },
+                { name: 'amount', type: uint64Type }
+            ], ['hash'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'transaction_inputs', [
+                {
+                    name: 'hash',
+                    type: hashType,
+                    foreign: {
+                        table: 'transactions',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'keyimage', type: hashType }
+            ], ['keyimage'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'transaction_outputs', [
+                {
+                    name: 'hash',
+                    type: hashType,
+                    foreign: {
+                        table: 'transactions',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'idx', type: uint64Type },
+                { name: 'amount', type: uint64Type },
+                { name: 'outputkey', type: hashType },
+                { name: 'globalidx', type: uint32Type, nullable: true }
+            ], ['hash', 'idx'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'transaction_paymentids', [
+                {
+                    name: 'hash',
+                    type: hashType,
+                    foreign: {
+                        table: 'transactions',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'paymentid', type: hashType }
+            ], ['hash', 'paymentid'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'transaction_pool', [
+                { name: 'hash', type: hashType },
+                { name: 'fee', type: uint64Type },
+                { name: 'size', type: uint32Type },
+                { name: 'amount', type: uint64Type },
+                { name: 'data', type: blobType, nullable: true }
+            ], ['hash'], tableOptions);
+
+            addQuery();
+
+            create = prepareCreateTable(database.type, 'information', [
+                { name: 'idx', type: hashType },
+                { name: 'data', type: blobType }
+            ], ['idx'], tableOptions);
+
+            addQuery();
+
+            return stmts;
+        }
+    },
+    {
+        version: 2,
+        description: 'Store the amount and resolved ring members of every key input',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            addTable(stmts, prepareCreateTable(database.type, 'transaction_input_rings', [
+                {
+                    name: 'hash',
+                    type: database.hashType,
+                    foreign: {
+                        table: 'transactions',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'keyimage', type: database.hashType },
+                { name: 'idx', type: database.uint32Type },
+                { name: 'amount', type: database.uint64Type },
+                { name: 'ringidx', type: database.uint32Type },
+                { name: 'globalidx', type: database.uint64Type }
+            ], ['keyimage', 'ringidx'], database.tableOptions));
+
+            stmts.push({
+                query: 'CREATE INDEX transaction_input_rings_output ' +
+                    'ON transaction_input_rings (amount, globalidx)'
+            });
+
+            stmts.push({
+                query: 'CREATE INDEX transaction_outputs_global ' +
+                    'ON transaction_outputs (amount, globalidx)'
+            });
+
+            return stmts;
+        }
+    },
+    {
+        version: 3,
+        description: 'Keep blocks removed from the main chain during a rewind in alternate chain tables',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            const hashType = database.hashType;
+            const blobType = database.blobType;
+            const uint64Type = database.uint64Type;
+            const uint32Type = database.uint32Type;
+
+            const altBlock = {
+                table: 'alt_blocks',
+                column: 'hash',
+                delete: FKAction.CASCADE,
+                update: FKAction.CASCADE
+            };
+
+            addTable(stmts, prepareCreateTable(database.type, 'alt_blocks', [
+                { name: 'hash', type: hashType },
+                { name: 'height', type: uint64Type },
+                { name: 'utctimestamp', type: uint64Type },
+                { name: 'reorgheight', type: uint64Type },
+                { name: 'reorgtime', type: uint64Type },
+                { name: 'data', type: blobType }
+            ], ['hash'], database.tableOptions));
+
+            stmts.push({ query: 'CREATE INDEX alt_blocks_height ON alt_blocks (height)' });
+
+            addTable(stmts, prepareCreateTable(database.type, 'alt_block_meta', [
+                { name: 'hash', type: hashType, foreign: altBlock },
+                { name: 'prevhash', type: hashType },
+                { name: 'basereward', type: uint64Type },
+                { name: 'difficulty', type: uint64Type },
+                { name: 'majorversion', type: uint32Type },
+                { name: 'minorversion', type: uint32Type },
+                { name: 'nonce', type: uint32Type },
+                { name: 'size', type: uint32Type },
+                { name: 'alreadygeneratedcoins', type: uint64Type },
+                { name: 'alreadygeneratedtransactions', type: uint64Type },
+                { name: 'reward', type: uint64Type },
+                { name: 'sizemedian', type: uint32Type },
+                { name: 'totalfeeamount', type: uint64Type },
+                { name: 'transactionscumulativesize', type: uint32Type },
+                { name: 'transactionscount', type: uint32Type },
+                { name: 'orphan', type: uint32Type },
+                { name: 'penalty', type: uint32Type }
+            ], ['hash'], database.tableOptions));
+
+            addTable(stmts, prepareCreateTable(database.type, 'alt_transactions', [
+                { name: 'hash', type: hashType },
+                { name: 'block_hash', type: hashType, foreign: altBlock },
+                { name: 'coinbase', type: uint32Type },
+                { name: 'fee', type: uint64Type, nullable: true },
+                { name: 'amount', type: uint64Type, nullable: true },
+                { name: 'size', type: uint32Type, nullable: true },
+                { name: 'data', type: blobType }
+            ], ['hash', 'block_hash'], database.tableOptions));
+
+            return stmts;
+        }
+    },
+    {
+        version: 4,
+        description: 'Record every rewind and detected chain reorganization',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            addTable(stmts, prepareCreateTable(database.type, 'reorg_events', [
+                { name: 'id', type: database.uint64Type },
+                { name: 'forkheight', type: database.uint64Type },
+                { name: 'depth', type: database.uint64Type },
+                { name: 'oldtip', type: database.hashType },
+                { name: 'newtip', type: database.hashType, nullable: true },
+                { name: 'cause', type: database.hashType },
+                { name: 'utctimestamp', type: database.uint64Type }
+            ], ['id'], database.tableOptions));
+
+            stmts.push({ query: 'CREATE INDEX reorg_events_utctimestamp ON reorg_events (utctimestamp)' });
+
+            return stmts;
+        }
+    },
+    {
+        version: 5,
+        description: 'Track the lifecycle of transactions in the transaction pool',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            addTable(stmts, prepareCreateTable(database.type, 'transaction_pool_history', [
+                { name: 'hash', type: database.hashType },
+                { name: 'fee', type: database.uint64Type },
+                { name: 'size', type: database.uint32Type },
+                { name: 'amount', type: database.uint64Type },
+                { name: 'firstseen', type: database.uint64Type },
+                { name: 'lastseen', type: database.uint64Type },
+                { name: 'removedat', type: database.uint64Type, nullable: true },
+                { name: 'outcome', type: database.hashType, nullable: true },
+                { name: 'block_hash', type: database.hashType, nullable: true },
+                { name: 'height', type: database.uint64Type, nullable: true },
+                { name: 'resolvedat', type: database.uint64Type, nullable: true },
+                { name: 'data', type: database.blobType, nullable: true }
+            ], ['hash'], database.tableOptions));
+
+            stmts.push({
+                query: 'CREATE INDEX transaction_pool_history_outcome ' +
+                    'ON transaction_pool_history (outcome, firstseen)'
+            });
+
+            return stmts;
+        }
+    },
+    {
+        version: 6,
+        description: 'Keep a time series of daemon /info and /peers snapshots',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            const uint64Type = database.uint64Type;
+            const uint32Type = database.uint32Type;
+
+            addTable(stmts, prepareCreateTable(database.type, 'info_history', [
+                { name: 'utctimestamp', type: uint64Type },
+                { name: 'height', type: uint64Type },
+                { name: 'networkheight', type: uint64Type },
+                { name: 'difficulty', type: uint64Type },
+                { name: 'hashrate', type: uint64Type },
+                { name: 'incomingconnections', type: uint32Type },
+                { name: 'outgoingconnections', type: uint32Type },
+                { name: 'whitepeerlistsize', type: uint32Type },
+                { name: 'greypeerlistsize', type: uint32Type },
+                { name: 'transactionspoolsize', type: uint32Type },
+                { name: 'data', type: database.blobType }
+            ], ['utctimestamp'], database.tableOptions));
+
+            addTable(stmts, prepareCreateTable(database.type, 'peers_history', [
+                { name: 'utctimestamp', type: uint64Type },
+                { name: 'peers', type: uint32Type },
+                { name: 'greypeers', type: uint32Type },
+                { name: 'data', type: database.blobType }
+            ], ['utctimestamp'], database.tableOptions));
+
+            return stmts;
+        }
+    },
+    {
+        version: 7,
+        description: 'Maintain hourly and daily rollups of network statistics',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            // the length (in seconds) of the periods of each rollup
+            const rollups: { table: string, period: number }[] = [
+                { table: 'chain_stats_hourly', period: 3600 },
+                { table: 'chain_stats_daily', period: 86400 }
+            ];
+
+            for (const { table } of rollups) {
+                addTable(stmts, prepareCreateTable(database.type, table, [
+                    { name: 'period', type: database.uint64Type },
+                    { name: 'blocks', type: database.uint64Type },
+                    { name: 'sumdifficulty', type: database.uint64Type },
+                    { name: 'mindifficulty', type: database.uint64Type },
+                    { name: 'maxdifficulty', type: database.uint64Type },
+                    { name: 'sumintervals', type: database.uint64Type },
+                    { name: 'totalfees', type: database.uint64Type },
+                    { name: 'transactions', type: database.uint64Type },
+                    { name: 'sumsize', type: database.uint64Type },
+                    { name: 'penalties', type: database.uint64Type }
+                ], ['period'], database.tableOptions));
+            }
+
+            // build the rollups for the blocks that are already in the database
+            for (const { table, period } of rollups) {
+                const bucket = 'blockchain.utctimestamp - (blockchain.utctimestamp % ' + period + ')';
+
+                stmts.push({
+                    query: 'INSERT INTO ' + table + ' (period, blocks, sumdifficulty, mindifficulty, ' +
+                        'maxdifficulty, sumintervals, totalfees, transactions, sumsize, penalties) ' +
+                        'SELECT ' + bucket + ', COUNT(*), SUM(difficulty), MIN(difficulty), MAX(difficulty), ' +
+                        'COALESCE(SUM(blockchain.utctimestamp - previous.utctimestamp), 0), SUM(totalfeeamount), ' +
+                        'SUM(transactionscount), SUM(size), SUM(CASE WHEN penalty > 0 THEN 1 ELSE 0 END) ' +
+                        'FROM blockchain JOIN block_meta ON block_meta.hash = blockchain.hash ' +
+                        'LEFT JOIN blockchain previous ON previous.height = blockchain.height - 1 ' +
+                        'GROUP BY ' + bucket
+                });
+            }
+
+            return stmts;
+        }
+    },
+    {
+        version: 8,
+        description: 'Index transaction payment IDs for payment ID searches',
+        prepare: (): IBulkQuery[] => {
+            return [{
+                query: 'CREATE INDEX transaction_paymentids_paymentid ON transaction_paymentids (paymentid)'
+            }];
+        }
+    },
+    {
+        version: 9,
+        description: 'Store the decoded tags of the transaction extra field',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            addTable(stmts, prepareCreateTable(database.type, 'transaction_extra', [
+                {
+                    name: 'hash',
+                    type: database.hashType,
+                    foreign: {
+                        table: 'transactions',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'idx', type: database.uint32Type },
+                { name: 'tag', type: database.uint32Type },
+                { name: 'subtag', type: database.uint32Type, nullable: true },
+                { name: 'value', type: database.blobType }
+            ], ['hash', 'idx'], database.tableOptions));
+
+            stmts.push({ query: 'CREATE INDEX transaction_extra_tag ON transaction_extra (tag, subtag)' });
+
+            return stmts;
+        }
+    },
+    {
+        version: 10,
+        description: 'Keep an ordered log of the blocks connected to, and disconnected from, the main chain',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            addTable(stmts, prepareCreateTable(database.type, 'chain_changes', [
+                { name: 'id', type: database.uint64Type },
+                { name: 'type', type: database.hashType },
+                { name: 'hash', type: database.hashType },
+                { name: 'height', type: database.uint64Type },
+                { name: 'utctimestamp', type: database.uint64Type }
+            ], ['id'], database.tableOptions));
+
+            // the blocks that are already in the database are logged as connected in height order
+            stmts.push({
+                query: 'INSERT INTO chain_changes (id, type, hash, height, utctimestamp) ' +
+                    'SELECT height + 1, ?, blockchain.hash, height, utctimestamp FROM blockchain ' +
+                    'JOIN block_meta ON block_meta.hash = blockchain.hash',
+                values: ['connect']
+            });
+
+            return stmts;
+        }
+    },
+    {
+        version: 11,
+        description: 'Index blocks by hash and transactions by block so that ranges of blocks may be joined',
+        prepare: (): IBulkQuery[] => {
+            return [
+                { query: 'CREATE INDEX blockchain_hash ON blockchain (hash)' },
+                { query: 'CREATE INDEX transactions_block_hash ON transactions (block_hash)' }
+            ];
+        }
+    },
+    {
+        version: 12,
+        description: 'Store the unlock time and block height of transactions',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            addTable(stmts, prepareCreateTable(database.type, 'transaction_unlocks', [
+                {
+                    name: 'hash',
+                    type: database.hashType,
+                    foreign: {
+                        table: 'transactions',
+                        column: 'hash',
+                        delete: FKAction.CASCADE,
+                        update: FKAction.CASCADE
+                    }
+                },
+                { name: 'height', type: database.uint64Type },
+                { name: 'unlocktime', type: database.uint64Type, nullable: true }
+            ], ['hash'], database.tableOptions));
+
+            // the unlock time is only found in the transaction data so, for the transactions
+            // that are already in the database, it is read from the data when required until
+            // it is restored for every transaction by `yarn reindex`
+            stmts.push({
+                query: 'INSERT INTO transaction_unlocks (hash, height) ' +
+                    'SELECT transactions.hash, height FROM transactions ' +
+                    'JOIN blockchain ON blockchain.hash = transactions.block_hash'
+            });
+
+            return stmts;
+        }
+    },
+    {
+        version: 13,
+        description: 'Store the merged mining depth of transaction extra tags',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            // the tags of the transactions that are already in the database are
+            // decoded again, with their positions and depths, by `yarn reindex`
+            return [{ query: 'ALTER TABLE transaction_extra ADD COLUMN depth ' + database.uint64Type }];
+        }
+    },
+    {
+        version: 14,
+        description: 'Number the log of changes to the main chain from a sequence',
+        prepare: (database: IDatabase): IBulkQuery[] => {
+            const stmts: IBulkQuery[] = [];
+
+            addTable(stmts, prepareCreateTable(database.type, 'sequences', [
+                { name: 'name', type: database.hashType },
+                { name: 'value', type: database.uint64Type }
+            ], ['name'], database.tableOptions));
+
+            stmts.push({
+                query: 'INSERT INTO sequences (name, value) SELECT ?, COALESCE(MAX(id), 0) FROM chain_changes',
+                values: ['chain_changes']
+            });
+
+            return stmts;
+        }
+    }
+];
+
+/**
+ * The schema version that this version of the package expects
+ */
+export const SCHEMA_VERSION = Migrations[Migrations.length - 1].version;
+
+/**
+ * Retrieves the schema version currently stored in the database. A database
+ * without a schema_version table is reported as version 0
+ * @param database the database to inspect
+ */
+export async function getSchemaVersion (database: IDatabase): Promise<number> {
+    if (!await haveTable(database, 'schema_version')) {
+        return 0;
+    }
+
+    const [count, rows] = await database.query('SELECT MAX(version) AS version FROM schema_version');
+
+    if (count === 0 || rows[0].version === null) {
+        return 0;
+    }
+
+    return parseInt(rows[0].version, 10);
+}
+
+/**
+ * Checks whether the table exists in the database
+ * @param database the database to inspect
+ * @param table the name of the table
+ * @ignore
+ */
+async function haveTable (database: IDatabase, table: string): Promise<boolean> {
+    let query = 'SELECT table_name FROM information_schema.tables ' +
+        'WHERE table_schema = DATABASE() AND table_name = ?';
+
+    if (database.type === DBType.SQLITE) {
+        query = 'SELECT name FROM sqlite_master WHERE type = \'table\' AND name = ?';
+    } else if (database.type === DBType.POSTGRES) {
+        query = 'SELECT table_name FROM information_schema.tables ' +
+            'WHERE table_schema = current_schema() AND table_name = ?';
+    }
+
+    const [count] = await database.query(query, [table]);
+
+    return count !== 0;
+}
+
+/**
+ * Applies, in order, all migrations that have not yet been applied to the database.
+ * Each migration is applied in its own database transaction along with the record
+ * of its version in the schema_version table
+ * @param database the database to migrate
+ * @param dryRun if true, the pending migrations are prepared and returned but not applied
+ */
+export async function migrate (database: IDatabase, dryRun = false): Promise<IMigrationResult> {
+    const current = await getSchemaVersion(database);
+
+    if (current > SCHEMA_VERSION) {
+        throw new Error('Database schema version ' + current + ' is newer than the supported schema ' +
+            'version ' + SCHEMA_VERSION + '. Please upgrade this package before continuing.');
+    }
+
+    const result: IMigrationResult = {
+        from: current,
+        to: current,
+        dryRun: dryRun,
+        applied: []
+    };
+
+    const pending = Migrations
+        .filter(migration => migration.version > current)
+        .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+        const stmts = migration.prepare(database);
+
+        stmts.push({
+            query: 'INSERT INTO schema_version (version, description, appliedat) VALUES (?,?,?)',
+            values: [migration.version, migration.description, Math.floor(Date.now() / 1000)]
+        });
+
+        result.applied.push({
+            version: migration.version,
+            description: migration.description,
+            statements: stmts
+        });
+
+        if (dryRun) {
+            Logger.info('[DRY RUN] Schema migration %s (%s) would execute %s statements',
+                migration.version, migration.description, stmts.length);
+        } else {
+            Logger.info('Applying schema migration %s: %s', migration.version, migration.description);
+
+            const timer = new PerformanceTimer();
+
+            await database.transaction(stmts);
+
+            Logger.info('Applied schema migration %s in %s seconds',
+                migration.version, timer.elapsed.seconds.toFixed(2));
+        }
+
+        result.to = migration.version;
+    }
+
+    return result;
+}
@@ -0,0 +1,56 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * A seedable random number generator that produces the SHA-256 digests of the
+ * seed and an incrementing counter. Generators constructed with the same seed
+ * produce the same sequence of numbers, which allows random selections to be
+ * reproduced; without a seed the generator is seeded from the system CSPRNG
+ */
+export class Random {
+    private readonly seed: Buffer;
+    private counter = 0;
+    private pool: Buffer = Buffer.alloc(0);
+
+    /**
+     * Constructs a new random number generator
+     * @param seed the seed, if not supplied a random seed is used
+     */
+    constructor (seed?: string | number) {
+        this.seed = (seed !== undefined)
+            ? createHash('sha256').update(seed.toString()).digest()
+            : randomBytes(32);
+    }
+
+    /**
+     * Returns a random number in the range [0, 1) with 53 bits of precision
+     */
+    public next (): number {
+        if (this.pool.length < 8) {
+            const counter = Buffer.alloc(8);
+
+            counter.writeUInt32BE(this.counter++, 4);
+
+            this.pool = createHash('sha256').update(this.seed).update(counter).digest();
+        }
+
+        const high = this.pool.readUInt32BE(0) >>> 5;
+
+        const low = this.pool.readUInt32BE(4) >>> 6;
+
+        this.pool = this.pool.slice(8);
+
+        return (high * 67108864 + low) / 9007199254740992;
+    }
+
+    /**
+     * Returns a random integer in the range [0, max)
+     * @param max the exclusive upper bound
+     */
+    public integer (max: number): number {
+        return Math.floor(this.next() * max);
+    }
+}
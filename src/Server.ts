@@ -0,0 +1,511 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { BlockchainDB, NotAvailableError } from './BlockchainDB';
+import { IDatabase } from 'db-abstraction';
+import { LegacyRPC } from './LegacyRPC';
+import { EventEmitter } from 'events';
+import { createServer, IncomingMessage, Server as HTTPServer, ServerResponse } from 'http';
+import { Logger } from '@turtlepay/logger';
+import * as BigInteger from 'big-integer';
+
+/** @ignore */
+const MAX_BODY_SIZE = 2 * 1024 * 1024;
+
+/** @ignore */
+const MAX_SYNC_COUNT = 100;
+
+/**
+ * The maximum number of blocks for which global indexes are returned by a single request
+ * @ignore
+ */
+const MAX_INDEXES_RANGE = 100;
+
+/**
+ * Represents the result of a request handled by the server
+ */
+export interface IServerResponse {
+    status: number;
+    body?: any;
+}
+
+/** @ignore */
+type RouteHandler = (params: string[], body: any) => Promise<IServerResponse>;
+
+/** @ignore */
+interface IRoute {
+    method: string;
+    path: RegExp;
+    handler: RouteHandler;
+    raw: boolean;
+}
+
+/**
+ * Emitted when a request has been handled by the server
+ */
+export interface IServerRequestEvent {
+    method: string;
+    url: string;
+    status: number;
+    address?: string;
+}
+
+export declare interface Server {
+    /**
+     * Emitted when a request has been handled by the server
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'request', listener: (event: IServerRequestEvent) => void): this;
+
+    /**
+     * Emitted when an error is encountered while handling a request
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * Represents an HTTP server that exposes the database using the same REST API
+ * as the daemon so that clients (ie. the TurtleCoind client in turtlecoin-utils)
+ * may use the database in place of a daemon
+ */
+export class Server extends EventEmitter {
+    protected readonly database: BlockchainDB;
+    private readonly legacy: LegacyRPC;
+    private readonly server: HTTPServer;
+    private readonly routes: IRoute[] = [];
+
+    /**
+     * Constructs a new instance of the server
+     * @param database the underlying database to use
+     * @param bindPort the port to listen on
+     * @param bindHost the host/ip to listen on
+     * @param relay the upstream daemon that block templates, blocks and transactions are relayed to
+     * @param replicas the read replicas of the underlying database
+     */
+    constructor (
+        database: IDatabase,
+        private readonly bindPort = 11898,
+        private readonly bindHost = '0.0.0.0',
+        relay?: { host: string, port: number, ssl: boolean },
+        replicas: IDatabase[] = []
+    ) {
+        super();
+
+        this.database = new BlockchainDB(database, relay, replicas);
+
+        this.legacy = new LegacyRPC(this.database);
+
+        this.server = createServer((request, response) => this.handle(request, response));
+
+        this.registerRoutes();
+    }
+
+    /**
+     * Starts the server listening for requests
+     */
+    public async start (): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', error => reject(error));
+
+            this.server.listen(this.bindPort, this.bindHost, () => {
+                Logger.info('Server listening on %s:%s', this.bindHost, this.bindPort);
+
+                return resolve();
+            });
+        });
+    }
+
+    /**
+     * Stops the server from listening for new requests
+     */
+    public async stop (): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.server.close(error => {
+                if (error) {
+                    return reject(error);
+                }
+
+                return resolve();
+            });
+        });
+    }
+
+    /**
+     * Adds a route to the server
+     * @param method the HTTP method
+     * @param path the path, parameters are captured by the groups in the expression
+     * @param handler the handler for the route
+     * @param raw whether the handler receives the request body without it being parsed as JSON
+     */
+    protected route (method: string, path: RegExp, handler: RouteHandler, raw = false) {
+        this.routes.push({ method, path, handler, raw });
+    }
+
+    /**
+     * Registers the routes that mirror the daemon REST API
+     * @private
+     */
+    private registerRoutes () {
+        this.route('GET', /^\/fee$/, async () => {
+            const fee = await this.database.fee();
+
+            return ok({ address: fee.address, amount: fee.amount.toJSNumber() });
+        });
+
+        this.route('GET', /^\/height$/, async () => ok(await this.database.height()));
+
+        this.route('GET', /^\/info$/, async () => {
+            const info = await this.database.info();
+
+            const version = (typeof info.version === 'object')
+                ? [info.version.major, info.version.minor, info.version.patch].join('.')
+                : info.version;
+
+            return ok({ ...info, version: version });
+        });
+
+        this.route('GET', /^\/peers$/, async () => {
+            const peers = await this.database.peers();
+
+            const format = (peer: { host: string, port: number } | string) =>
+                (typeof peer === 'string') ? peer : peer.host + ':' + peer.port;
+
+            return ok({
+                peers: peers.peers.map(format),
+                greyPeers: peers.greyPeers.map(format)
+            });
+        });
+
+        this.route('GET', /^\/block\/count$/, async () => ok(await this.database.blockCount()));
+
+        this.route('GET', /^\/block\/last$/, async () => ok(await this.database.lastBlock()));
+
+        this.route('GET', /^\/block\/headers\/(\d+)$/, async params =>
+            ok(await this.database.blockHeaders(toInteger(params[0]))));
+
+        this.route('GET', /^\/block\/([0-9a-f]{64}|\d+)\/raw$/, async params =>
+            ok(await this.database.rawBlock(toBlock(params[0]))));
+
+        this.route('GET', /^\/block\/([0-9a-f]{64}|\d+)$/, async params =>
+            ok(await this.database.block(toBlock(params[0]))));
+
+        this.route('POST', /^\/block\/template$/, async (params, body) => {
+            if (typeof body !== 'object' || typeof body.address !== 'string') {
+                throw new TypeError('Address must be supplied');
+            }
+
+            const reserveSize = (body.reserveSize !== undefined) ? toInteger(body.reserveSize) : 6;
+
+            return ok(await this.database.blockTemplate(body.address, reserveSize));
+        });
+
+        this.route('POST', /^\/block$/, async (params, body) => {
+            if (typeof body !== 'string') {
+                throw new TypeError('Block must be supplied as a hexadecimal string');
+            }
+
+            return { status: 202, body: await this.database.submitBlock(body) };
+        });
+
+        this.route('POST', /^\/transaction$/, async (params, body) => {
+            if (typeof body !== 'string') {
+                throw new TypeError('Transaction must be supplied as a hexadecimal string');
+            }
+
+            return { status: 202, body: await this.database.submitTransaction(body) };
+        });
+
+        this.route('GET', /^\/transaction\/pool$/, async () => ok(await this.database.transactionPool()));
+
+        this.route('GET', /^\/transaction\/pool\/raw$/, async () => ok(await this.database.rawTransactionPool()));
+
+        this.route('POST', /^\/transaction\/pool\/delta$/, async (params, body) => {
+            if (typeof body !== 'object' || typeof body.lastKnownBlock !== 'string') {
+                throw new TypeError('Last known block must be supplied');
+            }
+
+            return ok(await this.database.transactionPoolChanges(
+                body.lastKnownBlock, toStringArray(body.transactions || [])));
+        });
+
+        this.route('POST', /^\/transaction\/status$/, async (params, body) =>
+            ok(await this.database.transactionsStatus(toStringArray(body))));
+
+        this.route('GET', /^\/transaction\/([0-9a-f]{64})\/raw$/, async params =>
+            ok(await this.database.rawTransaction(params[0])));
+
+        this.route('GET', /^\/transaction\/([0-9a-f]{64})$/, async params =>
+            ok(await this.database.transaction(params[0])));
+
+        this.route('POST', /^\/indexes\/random$/, async (params, body) => {
+            if (typeof body !== 'object' || !Array.isArray(body.amounts)) {
+                throw new TypeError('Amounts must be supplied');
+            }
+
+            const amounts = body.amounts.map((amount: any) => toInteger(amount));
+
+            const count = (body.count !== undefined) ? toInteger(body.count) : 3;
+
+            return ok(await this.database.randomIndexes(amounts, count));
+        });
+
+        this.route('GET', /^\/indexes\/(\d+)\/(\d+)$/, async params => {
+            const startHeight = toInteger(params[0]);
+
+            const endHeight = toInteger(params[1]);
+
+            if (endHeight < startHeight) {
+                throw new RangeError('End height must be greater than or equal to start height');
+            }
+
+            return ok(await this.database.indexes(
+                startHeight, Math.min(endHeight, startHeight + MAX_INDEXES_RANGE - 1)));
+        });
+
+        this.route('POST', /^\/sync$/, async (params, body) => {
+            const request = toSyncRequest(body);
+
+            return ok(await this.database.sync(request.checkpoints, request.height, request.timestamp,
+                request.skipCoinbaseTransactions, request.count));
+        });
+
+        this.route('POST', /^\/sync\/raw$/, async (params, body) => {
+            const request = toSyncRequest(body);
+
+            return ok(await this.database.rawSync(request.checkpoints, request.height, request.timestamp,
+                request.skipCoinbaseTransactions, request.count));
+        });
+
+        // JSON-RPC errors, including malformed requests, are returned in the response body
+        this.route('POST', /^\/json_rpc$/, async (params, body) => ok(await this.legacy.handle(body)), true);
+    }
+
+    /**
+     * Handles an incoming request
+     * @param request the incoming request
+     * @param response the response to the request
+     * @private
+     */
+    private async handle (request: IncomingMessage, response: ServerResponse) {
+        const method = (request.method || 'GET').toUpperCase();
+
+        const path = (request.url || '/').split('?')[0].replace(/\/+$/, '') || '/';
+
+        let result: IServerResponse;
+
+        try {
+            const routes = this.routes.filter(route => route.path.test(path));
+
+            if (routes.length === 0) {
+                result = failure(404, 'Not Found');
+            } else {
+                const route = routes.filter(route => route.method === method).shift();
+
+                if (!route) {
+                    result = failure(405, 'Method Not Allowed');
+                } else {
+                    const params = (route.path.exec(path) || []).slice(1);
+
+                    let body = (method === 'POST') ? await readBody(request) : undefined;
+
+                    if (!route.raw) {
+                        body = parseBody(body);
+                    }
+
+                    result = await route.handler(params, body);
+                }
+            }
+        } catch (error) {
+            result = toFailure(error);
+
+            if (result.status === 500) {
+                Logger.error('Error handling request %s %s: %s', method, path, error.toString());
+
+                if (this.listenerCount('error') !== 0) {
+                    this.emit('error', error);
+                }
+            }
+        }
+
+        const payload = (result.body !== undefined) ? JSON.stringify(result.body, replacer) : '';
+
+        response.writeHead(result.status, {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(payload)
+        });
+
+        response.end(payload);
+
+        this.emit('request', {
+            method: method,
+            url: request.url || '/',
+            status: result.status,
+            address: request.socket.remoteAddress
+        });
+    }
+}
+
+/**
+ * Constructs a successful response
+ * @param body the response body
+ * @ignore
+ */
+function ok (body: any): IServerResponse {
+    return { status: 200, body: body };
+}
+
+/**
+ * Constructs an error response in the same form as the daemon
+ * @param status the HTTP status code
+ * @param message the error message
+ * @ignore
+ */
+function failure (status: number, message: string): IServerResponse {
+    return { status: status, body: { error: { code: status, message: message } } };
+}
+
+/**
+ * Maps an error encountered while handling a request to an error response
+ * @param error the error
+ * @ignore
+ */
+function toFailure (error: Error): IServerResponse {
+    if (error instanceof ReferenceError) {
+        return failure(404, error.message);
+    } else if (error instanceof RangeError || error instanceof TypeError || error instanceof SyntaxError) {
+        return failure(400, error.message);
+    } else if (error instanceof NotAvailableError) {
+        return failure(501, error.message);
+    }
+
+    return failure(500, 'Internal Server Error');
+}
+
+/**
+ * Serializes values in the same form as the daemon: dates are represented
+ * as unix timestamps in seconds and big integers as numbers (when safe)
+ * @ignore
+ */
+export function replacer (this: any, key: string, value: any): any {
+    const raw = this[key];
+
+    if (raw instanceof Date) {
+        return Math.floor(raw.getTime() / 1000);
+    }
+
+    if (BigInteger.isInstance(raw)) {
+        return (raw.lesserOrEquals(Number.MAX_SAFE_INTEGER)) ? raw.toJSNumber() : raw.toString();
+    }
+
+    return value;
+}
+
+/**
+ * Reads the body of the request
+ * @param request the incoming request
+ * @ignore
+ */
+async function readBody (request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+
+        let size = 0;
+
+        request.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+
+            if (size > MAX_BODY_SIZE) {
+                request.destroy();
+
+                return reject(new RangeError('Request body too large'));
+            }
+
+            chunks.push(chunk);
+        });
+
+        request.on('error', error => reject(error));
+
+        request.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    });
+}
+
+/**
+ * Parses the JSON body of the request
+ * @param body the request body
+ * @ignore
+ */
+function parseBody (body?: string): any {
+    if (!body || body.length === 0) {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(body);
+    } catch {
+        throw new SyntaxError('Malformed JSON in request body');
+    }
+}
+
+/**
+ * Converts the value to a non-negative integer
+ * @param value the value to convert
+ * @ignore
+ */
+function toInteger (value: any): number {
+    const result = (typeof value === 'number') ? value : parseInt(value, 10);
+
+    if (!Number.isSafeInteger(result) || result < 0) {
+        throw new TypeError('Value must be a non-negative integer: ' + value);
+    }
+
+    return result;
+}
+
+/**
+ * Converts a block parameter to a height or hash
+ * @param value the parameter value
+ * @ignore
+ */
+function toBlock (value: string): string | number {
+    return (value.length === 64) ? value : toInteger(value);
+}
+
+/**
+ * Verifies that the value is an array of strings
+ * @param value the value to verify
+ * @ignore
+ */
+function toStringArray (value: any): string[] {
+    if (!Array.isArray(value) || value.filter(elem => typeof elem !== 'string').length !== 0) {
+        throw new TypeError('Value must be an array of strings');
+    }
+
+    return value;
+}
+
+/**
+ * Converts the body of a sync request using the same defaults as the daemon
+ * @param body the request body
+ * @ignore
+ */
+function toSyncRequest (body: any): {
+    checkpoints: string[],
+    height: number,
+    timestamp: number,
+    skipCoinbaseTransactions: boolean,
+    count: number
+} {
+    body = body || {};
+
+    return {
+        checkpoints: toStringArray(body.checkpoints || []),
+        height: (body.height !== undefined) ? toInteger(body.height) : 0,
+        timestamp: (body.timestamp !== undefined) ? toInteger(body.timestamp) : 0,
+        skipCoinbaseTransactions: !!body.skipCoinbaseTransactions,
+        count: Math.min((body.count !== undefined) ? toInteger(body.count) : MAX_SYNC_COUNT, MAX_SYNC_COUNT)
+    };
+}
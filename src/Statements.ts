@@ -22,6 +22,9 @@ export async function prepareProcessedBlockStatements (
     block: ProcessedBlock): Promise<IBulkQuery[]> {
     let result: IBulkQuery[] = [];
 
+    // the block may have previously been removed from the main chain during a rewind
+    result.push({ query: 'DELETE FROM alt_blocks WHERE hash = ?', values: [block.hash] });
+
     result = combine(result,
         await prepareMultiInsert(database, 'blocks',
             ['hash', 'data'], block.blocks));
@@ -38,10 +41,18 @@ export async function prepareProcessedBlockStatements (
         await prepareMultiInsert(database, 'transaction_meta',
             ['hash', 'fee', 'amount', 'size'], block.transaction_meta));
 
+    result = combine(result,
+        await prepareMultiInsert(database, 'transaction_unlocks',
+            ['hash', 'height', 'unlocktime'], block.unlocks));
+
     result = combine(result,
         await prepareMultiInsert(database, 'transaction_inputs',
             ['hash', 'keyimage'], block.inputs));
 
+    result = combine(result,
+        await prepareMultiInsert(database, 'transaction_input_rings',
+            ['hash', 'keyimage', 'idx', 'amount', 'ringidx', 'globalidx'], block.rings));
+
     result = combine(result,
         await prepareMultiInsert(database, 'transaction_outputs',
             ['hash', 'idx', 'amount', 'outputkey'], block.outputs));
@@ -50,6 +61,10 @@ export async function prepareProcessedBlockStatements (
         await prepareMultiInsert(database, 'transaction_paymentids',
             ['hash', 'paymentid'], block.paymentIds));
 
+    result = combine(result,
+        await prepareMultiInsert(database, 'transaction_extra',
+            ['hash', 'idx', 'tag', 'subtag', 'value', 'depth'], block.extra));
+
     return result;
 }
 
@@ -82,6 +97,53 @@ export async function prepareMultiInsert (
     return result;
 }
 
+/**
+ * The rollup tables of network statistics and the length (in seconds) of their periods
+ * @ignore
+ */
+export const ChainStatsRollups: { table: string, period: number }[] = [
+    { table: 'chain_stats_hourly', period: 3600 },
+    { table: 'chain_stats_daily', period: 86400 }
+];
+
+/**
+ * Prepares the statements that rebuild the rollups of network statistics for every
+ * period touched by the given block timestamp range from the blocks in the database
+ * @param startTime the lowest block timestamp (seconds) affected
+ * @param endTime the highest block timestamp (seconds) affected
+ * @ignore
+ */
+export function prepareChainStatsRollup (startTime: number, endTime: number): IBulkQuery[] {
+    const stmts: IBulkQuery[] = [];
+
+    for (const rollup of ChainStatsRollups) {
+        const start = startTime - (startTime % rollup.period);
+
+        const end = Math.min(endTime - (endTime % rollup.period) + rollup.period, Number.MAX_SAFE_INTEGER);
+
+        const bucket = 'blockchain.utctimestamp - (blockchain.utctimestamp % ' + rollup.period + ')';
+
+        stmts.push({
+            query: 'DELETE FROM ' + rollup.table + ' WHERE period >= ? AND period < ?',
+            values: [start, end]
+        });
+
+        stmts.push({
+            query: 'INSERT INTO ' + rollup.table + ' (period, blocks, sumdifficulty, mindifficulty, ' +
+                'maxdifficulty, sumintervals, totalfees, transactions, sumsize, penalties) ' +
+                'SELECT ' + bucket + ', COUNT(*), SUM(difficulty), MIN(difficulty), MAX(difficulty), ' +
+                'COALESCE(SUM(blockchain.utctimestamp - previous.utctimestamp), 0), SUM(totalfeeamount), ' +
+                'SUM(transactionscount), SUM(size), SUM(CASE WHEN penalty > 0 THEN 1 ELSE 0 END) ' +
+                'FROM blockchain JOIN block_meta ON block_meta.hash = blockchain.hash ' +
+                'LEFT JOIN blockchain previous ON previous.height = blockchain.height - 1 ' +
+                'WHERE blockchain.utctimestamp >= ? AND blockchain.utctimestamp < ? GROUP BY ' + bucket,
+            values: [start, end]
+        });
+    }
+
+    return stmts;
+}
+
 /** @ignore */
 export async function saveRawBlock (
     database: IDatabase,
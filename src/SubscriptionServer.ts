@@ -0,0 +1,533 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { BlockchainDB } from './BlockchainDB';
+import { Collector, ICollectorBlocksEvent, ICollectorPoolEvent, ICollectorRewindEvent } from './Collector';
+import { IDatabase } from 'db-abstraction';
+import { EventEmitter } from 'events';
+import { Logger } from '@turtlepay/logger';
+import { replacer } from './Server';
+import { Transaction } from 'turtlecoin-utils';
+import * as WebSocket from 'ws';
+import { randomBytes } from 'crypto';
+
+/** @ignore */
+const DEFAULT_BUFFER_SIZE = 10000;
+
+/**
+ * The maximum size (bytes) of a request sent by a client
+ * @ignore
+ */
+const MAX_PAYLOAD = 64 * 1024;
+
+/**
+ * The interval (ms) at which clients are pinged. Clients that have not responded
+ * to the previous ping are disconnected
+ * @ignore
+ */
+const HEARTBEAT_INTERVAL = 30000;
+
+/**
+ * The topics that a client may subscribe to
+ */
+export enum SubscriptionTopic {
+    BLOCK = 'block',
+    TRANSACTION = 'transaction',
+    REORG = 'reorg',
+    POOL = 'pool',
+    PAYMENT = 'payment'
+}
+
+/**
+ * Represents a message sent to subscribed clients. The token may be supplied
+ * when reconnecting to receive the messages that were missed while disconnected
+ */
+export interface ISubscriptionMessage {
+    topic: SubscriptionTopic;
+    token: string;
+    data: any;
+}
+
+/** @ignore */
+interface IBufferedMessage {
+    sequence: number;
+    paymentId?: string;
+    message: ISubscriptionMessage;
+}
+
+/** @ignore */
+interface IClient {
+    socket: WebSocket;
+    topics: Set<SubscriptionTopic>;
+    paymentIds: Set<string>;
+    alive: boolean;
+}
+
+/**
+ * A fixed size buffer that overwrites its oldest item once it is full
+ * @ignore
+ */
+class RingBuffer<T> {
+    private readonly items: T[] = [];
+    private readonly size: number;
+    private start = 0;
+    private count = 0;
+
+    /**
+     * Constructs a new ring buffer
+     * @param size the maximum number of items kept
+     */
+    constructor (size: number) {
+        this.size = size;
+    }
+
+    /**
+     * The number of items in the buffer
+     */
+    public get length (): number {
+        return this.count;
+    }
+
+    /**
+     * Adds an item to the buffer, removing the oldest item if the buffer is full
+     * @param item the item to add
+     */
+    public push (item: T) {
+        if (this.size <= 0) {
+            return;
+        }
+
+        this.items[(this.start + this.count) % this.size] = item;
+
+        if (this.count < this.size) {
+            this.count++;
+        } else {
+            this.start = (this.start + 1) % this.size;
+        }
+    }
+
+    /**
+     * Retrieves the item at the given index, where index 0 is the oldest item
+     * @param index the index of the item
+     */
+    public get (index: number): T {
+        return this.items[(this.start + index) % this.size];
+    }
+}
+
+export declare interface SubscriptionServer {
+    /**
+     * Emitted when a client connects
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'connect', listener: (address?: string) => void): this;
+
+    /**
+     * Emitted when a client disconnects
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'disconnect', listener: (address?: string) => void): this;
+
+    /**
+     * Emitted when an error is encountered while publishing messages
+     * @param event the event name
+     * @param listener the listener
+     */
+    on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * Represents a WebSocket server that publishes new blocks, the transactions in
+ * new blocks, reorgs, transaction pool changes and payments to subscribed clients
+ * as they are collected.
+ *
+ * Clients send JSON requests in the form:
+ *
+ * { "action": "subscribe", "topics": ["block", "reorg"], "paymentIds": [], "token": "..." }
+ * { "action": "unsubscribe", "topics": ["block"], "paymentIds": [] }
+ *
+ * Subscribing to a payment ID implies the payment topic. If a token from a previously
+ * received message is supplied, the messages published since that message that match
+ * the subscription are replayed before any new messages are sent
+ */
+export class SubscriptionServer extends EventEmitter {
+    private readonly database: BlockchainDB;
+    private readonly server: WebSocket.Server;
+    private readonly clients: Set<IClient> = new Set<IClient>();
+    private readonly buffer: RingBuffer<IBufferedMessage>;
+    private readonly instance: string = randomBytes(4).toString('hex');
+    private readonly heartbeat: NodeJS.Timeout;
+    private sequence = 0;
+    private queue: Promise<void> = Promise.resolve();
+
+    /**
+     * Constructs a new instance of the subscription server
+     * @param collector the collector to publish the changes of
+     * @param database the underlying database to use
+     * @param bindPort the port to listen on
+     * @param bindHost the host/ip to listen on
+     * @param bufferSize the number of messages kept to replay to reconnecting clients
+     */
+    constructor (
+        collector: Collector,
+        database: IDatabase,
+        bindPort = 11899,
+        bindHost = '0.0.0.0',
+        bufferSize = DEFAULT_BUFFER_SIZE
+    ) {
+        super();
+
+        this.database = new BlockchainDB(database);
+
+        this.buffer = new RingBuffer<IBufferedMessage>(bufferSize);
+
+        this.server = new WebSocket.Server({ port: bindPort, host: bindHost, maxPayload: MAX_PAYLOAD });
+
+        this.heartbeat = setInterval(() => this.ping(), HEARTBEAT_INTERVAL);
+
+        this.server.on('listening', () => Logger.info('Subscription server listening on %s:%s', bindHost, bindPort));
+
+        this.server.on('connection', (socket, request) => this.connect(socket, request.socket.remoteAddress));
+
+        collector.on('blocks', event => this.enqueue(() => this.publishBlocks(event)));
+
+        collector.on('rewind', event => this.enqueue(async () => this.publishRewind(event)));
+
+        collector.on('pool', event => this.enqueue(() => this.publishPool(event)));
+    }
+
+    /**
+     * Stops the server and disconnects all clients
+     */
+    public async stop (): Promise<void> {
+        clearInterval(this.heartbeat);
+
+        for (const client of this.clients) {
+            client.socket.terminate();
+        }
+
+        return new Promise((resolve, reject) => {
+            this.server.close(error => {
+                if (error) {
+                    return reject(error);
+                }
+
+                return resolve();
+            });
+        });
+    }
+
+    /**
+     * Handles a new client connection
+     * @param socket the client socket
+     * @param address the client address
+     * @private
+     */
+    private connect (socket: WebSocket, address?: string) {
+        const client: IClient = {
+            socket: socket,
+            topics: new Set<SubscriptionTopic>(),
+            paymentIds: new Set<string>(),
+            alive: true
+        };
+
+        this.clients.add(client);
+
+        this.emit('connect', address);
+
+        socket.on('message', data => this.request(client, data.toString()));
+
+        socket.on('pong', () => {
+            client.alive = true;
+        });
+
+        socket.on('close', () => {
+            this.clients.delete(client);
+
+            this.emit('disconnect', address);
+        });
+
+        socket.on('error', error => Logger.debug('Subscription client error: %s', error.toString()));
+    }
+
+    /**
+     * Disconnects the clients that did not respond to the previous ping and pings the rest
+     * @private
+     */
+    private ping () {
+        for (const client of this.clients) {
+            if (!client.alive) {
+                Logger.debug('Disconnecting unresponsive subscription client');
+
+                client.socket.terminate();
+
+                continue;
+            }
+
+            client.alive = false;
+
+            client.socket.ping();
+        }
+    }
+
+    /**
+     * Handles a request from a client
+     * @param client the client
+     * @param data the request data
+     * @private
+     */
+    private request (client: IClient, data: string) {
+        let request: any;
+
+        try {
+            request = JSON.parse(data);
+        } catch {
+            return this.send(client, { error: 'Malformed JSON in request' });
+        }
+
+        if (typeof request !== 'object' || request === null ||
+            (request.action !== 'subscribe' && request.action !== 'unsubscribe')) {
+            return this.send(client, { error: 'Unknown action' });
+        }
+
+        const topics: string[] = (Array.isArray(request.topics)) ? request.topics : [];
+
+        const paymentIds: string[] = (Array.isArray(request.paymentIds)) ? request.paymentIds : [];
+
+        const valid: string[] = Object.values(SubscriptionTopic);
+
+        if (topics.filter(topic => valid.indexOf(topic) === -1).length !== 0) {
+            return this.send(client, { error: 'Unknown topic' });
+        }
+
+        if (paymentIds.filter(id => typeof id !== 'string' || !/^[0-9a-f]{64}$/i.test(id)).length !== 0) {
+            return this.send(client, { error: 'Payment IDs must be 64 character hexadecimal strings' });
+        }
+
+        if (request.action === 'subscribe') {
+            topics.forEach(topic => client.topics.add(topic as SubscriptionTopic));
+
+            paymentIds.forEach(id => client.paymentIds.add(id.toLowerCase()));
+
+            if (paymentIds.length !== 0) {
+                client.topics.add(SubscriptionTopic.PAYMENT);
+            }
+        } else {
+            topics.forEach(topic => client.topics.delete(topic as SubscriptionTopic));
+
+            paymentIds.forEach(id => client.paymentIds.delete(id.toLowerCase()));
+        }
+
+        this.send(client, {
+            subscribed: {
+                topics: Array.from(client.topics),
+                paymentIds: Array.from(client.paymentIds)
+            },
+            token: this.token(this.sequence)
+        });
+
+        if (request.action === 'subscribe' && typeof request.token === 'string') {
+            this.resume(client, request.token);
+        }
+    }
+
+    /**
+     * Replays the buffered messages published after the given token to the client
+     * @param client the client
+     * @param token the token of the last message received by the client
+     * @private
+     */
+    private resume (client: IClient, token: string) {
+        const [instance, sequence] = token.split(':');
+
+        const from = parseInt(sequence, 10);
+
+        const oldest = (this.buffer.length !== 0) ? this.buffer.get(0).sequence : this.sequence + 1;
+
+        // if the server has restarted or the messages following the token have
+        // been removed from the buffer, the client must resynchronize itself
+        if (instance !== this.instance || isNaN(from) || from > this.sequence || from + 1 < oldest) {
+            return this.send(client, { error: 'Resume token expired', resync: true, token: this.token(this.sequence) });
+        }
+
+        // the buffered messages have consecutive sequences
+        for (let i = Math.max(from + 1 - oldest, 0); i < this.buffer.length; i++) {
+            const buffered = this.buffer.get(i);
+
+            if (this.isSubscribed(client, buffered)) {
+                this.send(client, buffered.message);
+            }
+        }
+    }
+
+    /**
+     * Queues the publishing of collector events so that messages are published
+     * in the same order as the events were emitted
+     * @param publisher the function that publishes the messages for the event
+     * @private
+     */
+    private enqueue (publisher: () => Promise<void>) {
+        this.queue = this.queue
+            .then(() => publisher())
+            .catch(error => this.emitError(error));
+    }
+
+    /**
+     * Publishes the headers, transactions and payments of new blocks
+     * @param event the blocks event
+     * @private
+     */
+    private async publishBlocks (event: ICollectorBlocksEvent) {
+        for (const hash of event.hashes) {
+            const block = await this.database.block(hash);
+
+            const { transactions, ...header } = block;
+
+            this.publish(SubscriptionTopic.BLOCK, header);
+
+            for (const transaction of transactions) {
+                this.publish(SubscriptionTopic.TRANSACTION, {
+                    ...transaction,
+                    blockHash: block.hash,
+                    height: block.height
+                });
+            }
+
+            for (const payment of await this.database.blockPaymentIds(hash)) {
+                this.publish(SubscriptionTopic.PAYMENT, {
+                    ...payment,
+                    blockHash: block.hash,
+                    height: block.height,
+                    inPool: false
+                }, payment.paymentId);
+            }
+        }
+    }
+
+    /**
+     * Publishes a rewind of the database
+     * @param event the rewind event
+     * @private
+     */
+    private publishRewind (event: ICollectorRewindEvent) {
+        this.publish(SubscriptionTopic.REORG, event);
+    }
+
+    /**
+     * Publishes the changes to the transaction pool and the payments of
+     * the transactions added to the transaction pool
+     * @param event the pool event
+     * @private
+     */
+    private async publishPool (event: ICollectorPoolEvent) {
+        this.publish(SubscriptionTopic.POOL, event);
+
+        if (event.added.length === 0) {
+            return;
+        }
+
+        for (const data of await this.database.rawTransactionPool(event.added)) {
+            if (!data) {
+                continue;
+            }
+
+            const tx = await Transaction.from(data);
+
+            const hash = await tx.hash();
+
+            if (tx.paymentId) {
+                this.publish(SubscriptionTopic.PAYMENT, {
+                    hash: hash,
+                    paymentId: tx.paymentId,
+                    inPool: true
+                }, tx.paymentId);
+            }
+        }
+    }
+
+    /**
+     * Buffers a message and sends it to the subscribed clients
+     * @param topic the message topic
+     * @param data the message data
+     * @param paymentId the payment ID the message relates to
+     * @private
+     */
+    private publish (topic: SubscriptionTopic, data: any, paymentId?: string) {
+        this.sequence++;
+
+        const buffered: IBufferedMessage = {
+            sequence: this.sequence,
+            paymentId: paymentId,
+            message: {
+                topic: topic,
+                token: this.token(this.sequence),
+                data: data
+            }
+        };
+
+        this.buffer.push(buffered);
+
+        for (const client of this.clients) {
+            if (this.isSubscribed(client, buffered)) {
+                this.send(client, buffered.message);
+            }
+        }
+    }
+
+    /**
+     * Checks whether the client is subscribed to the message
+     * @param client the client
+     * @param buffered the message
+     * @private
+     */
+    private isSubscribed (client: IClient, buffered: IBufferedMessage): boolean {
+        if (!client.topics.has(buffered.message.topic)) {
+            return false;
+        }
+
+        if (buffered.message.topic === SubscriptionTopic.PAYMENT) {
+            return (buffered.paymentId !== undefined && client.paymentIds.has(buffered.paymentId));
+        }
+
+        return true;
+    }
+
+    /**
+     * Sends a message to the client
+     * @param client the client
+     * @param message the message
+     * @private
+     */
+    private send (client: IClient, message: any) {
+        if (client.socket.readyState !== WebSocket.OPEN) {
+            return;
+        }
+
+        client.socket.send(JSON.stringify(message, replacer));
+    }
+
+    /**
+     * Constructs the resume token for the given sequence
+     * @param sequence the message sequence
+     * @private
+     */
+    private token (sequence: number): string {
+        return this.instance + ':' + sequence;
+    }
+
+    /**
+     * Emits an error if there are listeners for errors
+     * @param error the error
+     * @private
+     */
+    private emitError (error: Error) {
+        Logger.error('Could not publish subscription messages: %s', error.toString());
+
+        if (this.listenerCount('error') !== 0) {
+            this.emit('error', error);
+        }
+    }
+}
@@ -0,0 +1,164 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+/** @ignore */
+const DEFAULT_MAX_LENGTH = 10000;
+
+/**
+ * The maximum number of rows that may be requested at once
+ * @ignore
+ */
+export const MAX_LIMIT = 1000;
+
+/**
+ * The maximum length, in hexadecimal characters, of a block or transaction blob
+ * @ignore
+ */
+export const MAX_BLOB_LENGTH = 2 * 1024 * 1024;
+
+/**
+ * Represents invalid input supplied to a public method of the database. As a
+ * TypeError, it is reported to API clients as a bad request
+ */
+export class ValidationError extends TypeError {
+    /**
+     * Constructs a new validation error
+     * @param parameter the name of the invalid parameter
+     * @param message the error message
+     */
+    constructor (public readonly parameter: string, message: string) {
+        super(message);
+
+        this.name = 'ValidationError';
+    }
+}
+
+/**
+ * Verifies that the value is a 64 character hexadecimal string, such as a hash,
+ * key image or payment ID, and returns it in lowercase
+ * @param value the value to verify
+ * @param parameter the name of the parameter
+ * @ignore
+ */
+export function validateHash (value: any, parameter: string): string {
+    if (typeof value !== 'string' || !/^[0-9a-f]{64}$/i.test(value)) {
+        throw new ValidationError(parameter, parameter + ' must be a 64 character hexadecimal string');
+    }
+
+    return value.toLowerCase();
+}
+
+/**
+ * Verifies that the value is an array of 64 character hexadecimal strings and
+ * returns them in lowercase
+ * @param values the values to verify
+ * @param parameter the name of the parameter
+ * @param maxLength the maximum number of values
+ * @ignore
+ */
+export function validateHashes (values: any, parameter: string, maxLength = DEFAULT_MAX_LENGTH): string[] {
+    return validateArray(values, parameter, maxLength).map(value => validateHash(value, parameter));
+}
+
+/**
+ * Verifies that the value is an array of no more than the given length
+ * @param values the values to verify
+ * @param parameter the name of the parameter
+ * @param maxLength the maximum number of values
+ * @ignore
+ */
+export function validateArray (values: any, parameter: string, maxLength = DEFAULT_MAX_LENGTH): any[] {
+    if (!Array.isArray(values)) {
+        throw new ValidationError(parameter, parameter + ' must be an array');
+    }
+
+    if (values.length > maxLength) {
+        throw new ValidationError(parameter, parameter + ' must not contain more than ' + maxLength + ' elements');
+    }
+
+    return values;
+}
+
+/**
+ * Verifies that the value is an integer within the given bounds (inclusive)
+ * @param value the value to verify
+ * @param parameter the name of the parameter
+ * @param min the minimum value
+ * @param max the maximum value
+ * @ignore
+ */
+export function validateInteger (
+    value: any,
+    parameter: string,
+    min = 0,
+    max = Number.MAX_SAFE_INTEGER
+): number {
+    if (!Number.isSafeInteger(value) || value < min || value > max) {
+        throw new ValidationError(parameter, parameter + ' must be an integer between ' + min + ' and ' + max);
+    }
+
+    return value;
+}
+
+/**
+ * Verifies that the value is a finite number within the given bounds (inclusive)
+ * @param value the value to verify
+ * @param parameter the name of the parameter
+ * @param min the minimum value
+ * @param max the maximum value
+ * @ignore
+ */
+export function validateNumber (value: any, parameter: string, min: number, max: number): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        throw new ValidationError(parameter, parameter + ' must be a number between ' + min + ' and ' + max);
+    }
+
+    return value;
+}
+
+/**
+ * Verifies that the value is a hexadecimal string of no more than the given length
+ * @param value the value to verify
+ * @param parameter the name of the parameter
+ * @param maxLength the maximum number of hexadecimal characters
+ * @ignore
+ */
+export function validateHex (value: any, parameter: string, maxLength: number): string {
+    if (typeof value !== 'string' || value.length % 2 !== 0 || value.length > maxLength ||
+        !/^[0-9a-f]*$/i.test(value)) {
+        throw new ValidationError(parameter,
+            parameter + ' must be a hexadecimal string of no more than ' + maxLength + ' characters');
+    }
+
+    return value;
+}
+
+/**
+ * Verifies that the value is a block height or a block hash
+ * @param value the value to verify
+ * @param parameter the name of the parameter
+ * @ignore
+ */
+export function validateBlock (value: any, parameter: string): string | number {
+    if (typeof value === 'number') {
+        return validateInteger(value, parameter);
+    }
+
+    return validateHash(value, parameter);
+}
+
+/**
+ * Verifies that the value is one of the allowed values
+ * @param value the value to verify
+ * @param parameter the name of the parameter
+ * @param allowed the allowed values
+ * @ignore
+ */
+export function validateOneOf<T> (value: any, parameter: string, allowed: T[]): T {
+    if (allowed.indexOf(value) === -1) {
+        throw new ValidationError(parameter, parameter + ' must be one of: ' + allowed.join(', '));
+    }
+
+    return value;
+}
@@ -0,0 +1,231 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { Logger } from '@turtlepay/logger';
+import { SQLite } from 'db-abstraction';
+import {
+    Block,
+    KeyOutput,
+    Transaction,
+    TransactionInputs,
+    TransactionOutputs,
+    TurtleCoindTypes as TurtleCoindInterfaces
+} from 'turtlecoin-utils';
+import * as BigInteger from 'big-integer';
+import { randomBytes } from 'crypto';
+import { existsSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BlockchainDB } from './BlockchainDB';
+import { PerformanceTimer } from './PerformanceTimer';
+
+/** @ignore */
+const REWARD = 2900000;
+
+/** @ignore */
+const AMOUNT = 1000;
+
+/**
+ * Generates a random key
+ * @ignore
+ */
+function randomKey (): string {
+    return randomBytes(32).toString('hex');
+}
+
+/**
+ * Generates a transaction spending a single input into two outputs
+ * @ignore
+ */
+function generateTransaction (): Transaction {
+    const tx = new Transaction();
+
+    tx.version = 1;
+
+    tx.unlockTime = 0;
+
+    tx.inputs = [new TransactionInputs.KeyInput(AMOUNT, [0, 1, 1], randomKey())];
+
+    tx.outputs = [
+        new TransactionOutputs.KeyOutput(AMOUNT / 2, randomKey()),
+        new TransactionOutputs.KeyOutput(AMOUNT / 2 - 10, randomKey())
+    ];
+
+    tx.signatures = [[0, 1, 2].map(() => randomBytes(64).toString('hex'))];
+
+    return tx;
+}
+
+/**
+ * Generates a chain of blocks in a temporary SQLite database and measures the time
+ * taken, and the number of queries used, to answer wallet sync, block header and
+ * global index requests of increasing sizes
+ */
+(async () => {
+    const blockCount = (process.env.BENCHMARK_BLOCKS) ? parseInt(process.env.BENCHMARK_BLOCKS, 10) : 2000;
+    const transactionCount = (process.env.BENCHMARK_TRANSACTIONS)
+        ? parseInt(process.env.BENCHMARK_TRANSACTIONS, 10)
+        : 5;
+    const iterations = (process.env.BENCHMARK_ITERATIONS) ? parseInt(process.env.BENCHMARK_ITERATIONS, 10) : 5;
+    const path = process.env.BENCHMARK_PATH || join(tmpdir(), 'blockchain-benchmark.sqlite3');
+
+    // the cache would otherwise answer every iteration after the first
+    process.env.CACHE_SIZE = '0';
+
+    if (existsSync(path)) {
+        unlinkSync(path);
+    }
+
+    const database = new SQLite(path);
+
+    let queryCount = 0;
+
+    const query = database.query.bind(database);
+
+    database.query = async (sql: string, values?: any[]) => {
+        queryCount++;
+
+        return query(sql, values);
+    };
+
+    const blockchain = new BlockchainDB(database);
+
+    await blockchain.init();
+
+    Logger.info('Generating %s blocks with %s transactions each in %s...', blockCount, transactionCount, path);
+
+    const generateTimer = new PerformanceTimer();
+
+    const globalIndexes: Map<number, number> = new Map<number, number>();
+
+    let prevHash = '0'.repeat(64);
+
+    for (let start = 0; start < blockCount; start += 100) {
+        const blocks: TurtleCoindInterfaces.IRawBlock[] = [];
+        const headers: TurtleCoindInterfaces.IBlockHeader[] = [];
+        const indexes: TurtleCoindInterfaces.ITransactionIndexes[] = [];
+
+        for (let height = start; height < Math.min(start + 100, blockCount); height++) {
+            const coinbase = new Transaction();
+
+            coinbase.version = 1;
+
+            coinbase.unlockTime = height + 40;
+
+            coinbase.inputs = [new TransactionInputs.CoinbaseInput(height)];
+
+            coinbase.outputs = [new TransactionOutputs.KeyOutput(REWARD, randomKey())];
+
+            const transactions = (height === 0) ? [] : [...Array(transactionCount)].map(() => generateTransaction());
+
+            const block = new Block();
+
+            block.majorVersion = 1;
+
+            block.minorVersion = 0;
+
+            block.timestamp = new Date((1600000000 + height * 30) * 1000);
+
+            block.previousBlockHash = prevHash;
+
+            block.minerTransaction = coinbase;
+
+            for (const tx of transactions) {
+                block.transactions.push(await tx.hash());
+            }
+
+            const hash = await block.hash();
+
+            for (const tx of [coinbase, ...transactions]) {
+                indexes.push({
+                    hash: await tx.hash(),
+                    indexes: tx.outputs.map(output => {
+                        const amount = (output as KeyOutput).amount.toJSNumber();
+
+                        const index = globalIndexes.get(amount) || 0;
+
+                        globalIndexes.set(amount, index + 1);
+
+                        return index;
+                    })
+                });
+            }
+
+            const fees = transactions.reduce((total, tx) => total + tx.fee, 0);
+
+            const size = [coinbase, ...transactions].reduce((total, tx) => total + tx.size, 0);
+
+            headers.push({
+                alreadyGeneratedCoins: BigInteger(REWARD).multiply(height + 1),
+                alreadyGeneratedTransactions: height * (transactionCount + 1) + 1,
+                baseReward: REWARD,
+                depth: 0,
+                difficulty: 1000,
+                hash: hash,
+                height: height,
+                majorVersion: 1,
+                minorVersion: 0,
+                nonce: 0,
+                orphan: false,
+                penalty: 0,
+                prevHash: prevHash,
+                reward: REWARD + fees,
+                size: block.size,
+                sizeMedian: size,
+                timestamp: block.timestamp,
+                totalFeeAmount: fees,
+                transactionCount: transactions.length + 1,
+                transactionsCumulativeSize: size
+            });
+
+            blocks.push({
+                blob: block.toString(),
+                transactions: transactions.map(tx => tx.toString())
+            });
+
+            prevHash = hash;
+        }
+
+        await blockchain.saveRawBlocks(blocks);
+
+        await blockchain.saveOutputGlobalIndexes(indexes);
+
+        await blockchain.saveBlocksMeta(headers);
+    }
+
+    Logger.info('Generated %s blocks in %s seconds', blockCount, generateTimer.elapsed.seconds);
+
+    const measure = async (name: string, request: () => Promise<any>) => {
+        const queries = queryCount;
+
+        const timer = new PerformanceTimer();
+
+        for (let i = 0; i < iterations; i++) {
+            await request();
+        }
+
+        Logger.info('%s %s ms %s queries',
+            name.padEnd(32),
+            (timer.elapsed.milliseconds / iterations).toFixed(1).padStart(10),
+            ((queryCount - queries) / iterations).toFixed(0).padStart(6));
+    };
+
+    const topHeight = blockCount - 1;
+
+    for (const count of [10, 100, 1000].filter(elem => elem < blockCount)) {
+        const height = blockCount - count;
+
+        await measure('sync (' + count + ' blocks)', () => blockchain.sync([], height, 0, false, count));
+
+        await measure('rawSync (' + count + ' blocks)', () => blockchain.rawSync([], height, 0, false, count));
+
+        await measure('indexes (' + count + ' blocks)', () => blockchain.indexes(height, topHeight));
+    }
+
+    await measure('blockHeaders (30 blocks)', () => blockchain.blockHeaders(topHeight));
+
+    unlinkSync(path);
+
+    process.exit(0);
+})();
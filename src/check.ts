@@ -3,7 +3,7 @@
 // Please see the included LICENSE file for more information.
 
 import { Logger } from '@turtlepay/logger';
-import { BlockchainDB } from './BlockchainDB';
+import { BlockchainDB, RewindCause } from './BlockchainDB';
 import { getDatabase, checkProduction } from './Common';
 
 (async () => {
@@ -34,7 +34,7 @@ import { getDatabase, checkProduction } from './Common';
 
         Logger.warn('Attempting rewind of database to: %s', lowestHeight);
 
-        await blockchain.rewind(lowestHeight);
+        await blockchain.rewind(lowestHeight, RewindCause.CONSISTENCY_CHECK);
 
         [consistency, inconsistentRows] = await blockchain.checkConsistency();
 
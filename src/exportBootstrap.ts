@@ -0,0 +1,45 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { Logger } from '@turtlepay/logger';
+import { BlockchainDB } from './BlockchainDB';
+import { getDatabase, checkProduction } from './Common';
+
+(async () => {
+    checkProduction();
+
+    const path = process.argv[2];
+
+    if (!path) {
+        Logger.error('Usage: yarn export-bootstrap <path> [startHeight] [endHeight]');
+
+        process.exit(1);
+    }
+
+    const database = await getDatabase();
+
+    const blockchain = new BlockchainDB(database);
+
+    Logger.info('Connected to database...');
+
+    try {
+        const startHeight = (process.argv[3]) ? parseInt(process.argv[3], 10) : 0;
+
+        const endHeight = (process.argv[4])
+            ? parseInt(process.argv[4], 10)
+            : (await blockchain.blockCount()) - 1;
+
+        Logger.info('Exporting blocks %s to %s to: %s', startHeight, endHeight, path);
+
+        const manifest = await blockchain.exportBootstrap(path, startHeight, endHeight);
+
+        Logger.info('Exported %s blocks with SHA-256 digest: %s', manifest.blocks, manifest.sha256);
+    } catch (e) {
+        Logger.error('Could not export bootstrap file: %s', e.toString());
+
+        process.exit(1);
+    }
+
+    process.exit(0);
+})();
@@ -0,0 +1,41 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { Logger } from '@turtlepay/logger';
+import { BlockchainDB } from './BlockchainDB';
+import { getDatabase, checkProduction } from './Common';
+
+(async () => {
+    checkProduction();
+
+    const path = process.argv[2];
+
+    if (!path) {
+        Logger.error('Usage: yarn import-bootstrap <path>');
+
+        process.exit(1);
+    }
+
+    const database = await getDatabase();
+
+    const blockchain = new BlockchainDB(database);
+
+    Logger.info('Connected to database...');
+
+    try {
+        await blockchain.init();
+
+        Logger.info('Importing blocks from: %s', path);
+
+        const manifest = await blockchain.importBootstrap(path);
+
+        Logger.info('Imported blocks %s to %s', manifest.startHeight, manifest.endHeight);
+    } catch (e) {
+        Logger.error('Could not import bootstrap file: %s', e.toString());
+
+        process.exit(1);
+    }
+
+    process.exit(0);
+})();
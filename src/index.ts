@@ -2,6 +2,18 @@
 //
 // Please see the included LICENSE file for more information.
 
-export { BlockchainDB } from './BlockchainDB';
+export {
+    BlockchainDB,
+    ChainChangeType,
+    ChainStatsGranularity,
+    NotAvailableError,
+    PoolOutcome,
+    RewindCause
+} from './BlockchainDB';
+export { ExtraNonceTagType, ExtraTagType } from './BlockLoader';
 export { Collector } from './Collector';
-export { getDatabase } from './Common';
+export { getDatabase, getReplicaDatabases } from './Common';
+export { Random } from './Random';
+export { Server } from './Server';
+export { SubscriptionServer, SubscriptionTopic } from './SubscriptionServer';
+export { ValidationError } from './Validation';
@@ -3,6 +3,7 @@
 // Please see the included LICENSE file for more information.
 
 import { Collector } from './Collector';
+import { SubscriptionServer } from './SubscriptionServer';
 import { Logger } from '@turtlepay/logger';
 import { getDatabase, getNode, checkProduction } from './Common';
 
@@ -15,6 +16,13 @@ import { getDatabase, getNode, checkProduction } from './Common';
 
     const collector = new Collector(database, node.host, node.port, node.ssl);
 
+    if (process.env.SUBSCRIPTION_PORT) {
+        const subscriptions = new SubscriptionServer(collector, database,
+            parseInt(process.env.SUBSCRIPTION_PORT, 10), process.env.SUBSCRIPTION_HOST || '0.0.0.0');
+
+        subscriptions.on('error', error => Logger.error('Subscription server error: %s', error.toString()));
+    }
+
     Logger.info('Collector starting...');
 
     await collector.init();
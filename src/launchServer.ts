@@ -0,0 +1,40 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { Server } from './Server';
+import { Logger } from '@turtlepay/logger';
+import { getDatabase, getRelay, getReplicaDatabases, checkProduction } from './Common';
+
+(async () => {
+    checkProduction();
+
+    const database = await getDatabase();
+
+    const replicas = await getReplicaDatabases();
+
+    const port = (process.env.SERVER_PORT) ? parseInt(process.env.SERVER_PORT, 10) : 11898;
+
+    const host = process.env.SERVER_HOST || '0.0.0.0';
+
+    const relay = await getRelay();
+
+    if (relay) {
+        Logger.info('Relaying block templates, blocks and transactions to %s:%s', relay.host, relay.port);
+    }
+
+    const server = new Server(database, port, host, relay, replicas);
+
+    server.on('request', event =>
+        Logger.debug('[%s] %s %s => %s', event.address, event.method, event.url, event.status));
+
+    Logger.info('Server starting...');
+
+    try {
+        await server.start();
+    } catch (e) {
+        Logger.error('Could not start server: %s \nExiting...', e.toString());
+
+        process.exit(1);
+    }
+})();
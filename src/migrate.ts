@@ -0,0 +1,50 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { Logger } from '@turtlepay/logger';
+import { BlockchainDB } from './BlockchainDB';
+import { getDatabase, checkProduction } from './Common';
+import { SCHEMA_VERSION } from './Migrations';
+
+(async () => {
+    checkProduction();
+
+    const database = await getDatabase();
+
+    const dryRun = process.argv.indexOf('--dry-run') !== -1;
+
+    const blockchain = new BlockchainDB(database);
+
+    Logger.info('Connected to database...');
+
+    Logger.info('Database schema version: %s, package schema version: %s',
+        await blockchain.schemaVersion(), SCHEMA_VERSION);
+
+    try {
+        const result = await blockchain.migrate(dryRun);
+
+        if (result.applied.length === 0) {
+            Logger.info('Database schema is up to date');
+        } else if (dryRun) {
+            Logger.info('[DRY RUN] %s migrations pending to migrate from schema version %s to %s',
+                result.applied.length, result.from, result.to);
+
+            for (const migration of result.applied) {
+                Logger.info('[DRY RUN] %s: %s', migration.version, migration.description);
+
+                for (const stmt of migration.statements) {
+                    Logger.info('[DRY RUN]     %s', stmt.query);
+                }
+            }
+        } else {
+            Logger.info('Migrated database schema from version %s to %s', result.from, result.to);
+        }
+    } catch (e) {
+        Logger.error('Could not migrate database: %s', e.toString());
+
+        process.exit(1);
+    }
+
+    process.exit(0);
+})();
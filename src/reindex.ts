@@ -0,0 +1,35 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { Logger } from '@turtlepay/logger';
+import { BlockchainDB } from './BlockchainDB';
+import { getDatabase, checkProduction } from './Common';
+
+(async () => {
+    checkProduction();
+
+    const database = await getDatabase();
+
+    const blockchain = new BlockchainDB(database);
+
+    Logger.info('Connected to database...');
+
+    try {
+        const startHeight = (process.argv[2]) ? parseInt(process.argv[2], 10) : 0;
+
+        const endHeight = (process.argv[3]) ? parseInt(process.argv[3], 10) : undefined;
+
+        await blockchain.init();
+
+        const count = await blockchain.reindex(startHeight, endHeight);
+
+        Logger.info('Reindexed %s transactions', count);
+    } catch (e) {
+        Logger.error('Could not reindex transactions: %s', e.toString());
+
+        process.exit(1);
+    }
+
+    process.exit(0);
+})();
@@ -3,7 +3,7 @@
 // Please see the included LICENSE file for more information.
 
 import { Logger } from '@turtlepay/logger';
-import { BlockchainDB } from './BlockchainDB';
+import { BlockchainDB, RewindCause } from './BlockchainDB';
 import { getDatabase, checkProduction } from './Common';
 
 (async () => {
@@ -20,7 +20,7 @@ import { getDatabase, checkProduction } from './Common';
     Logger.info('Rewinding to: %s', rewindTo);
 
     try {
-        await blockchain.rewind(rewindTo);
+        await blockchain.rewind(rewindTo, RewindCause.MANUAL);
     } catch (e) {
         Logger.error('Could not rewind database to %s. Please try again: %s', rewindTo, e.toString());
 
@@ -0,0 +1,95 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { TestChain } from './helpers/TestChain';
+
+describe('Alternate blocks', () => {
+    let chain: TestChain;
+
+    beforeEach(async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(10);
+    });
+
+    afterEach(async () => {
+        await chain.destroy();
+    });
+
+    it('returns no alternate blocks before a rewind', async () => {
+        assert.deepStrictEqual(await chain.blockchain.altBlocks(), []);
+    });
+
+    it('moves the rewound blocks and their transactions to the alternate chain', async () => {
+        const removed = chain.blocks.slice(7);
+
+        await chain.rewind(7);
+
+        assert.strictEqual(await chain.blockchain.blockCount(), 7);
+
+        const altBlocks = await chain.blockchain.altBlocks();
+
+        assert.deepStrictEqual(altBlocks.map(block => block.hash), removed.map(block => block.hash).reverse());
+
+        for (const altBlock of altBlocks) {
+            const block = removed.find(elem => elem.hash === altBlock.hash);
+
+            assert.ok(block);
+
+            assert.strictEqual(altBlock.height, block.height);
+
+            assert.strictEqual(altBlock.prevHash, block.header.prevHash);
+
+            assert.strictEqual(altBlock.orphan, true);
+
+            assert.strictEqual(altBlock.reorgHeight, 7);
+
+            assert.ok(altBlock.reorgTime instanceof Date);
+
+            const hashes = await Promise.all(block.transactions.map(tx => tx.hash()));
+
+            assert.deepStrictEqual(altBlock.transactions.map(tx => tx.hash).sort(), hashes.sort());
+        }
+
+        for (const block of removed) {
+            await assert.rejects(chain.blockchain.block(block.hash));
+
+            await assert.rejects(chain.blockchain.transaction(await block.transactions[1].hash()));
+        }
+    });
+
+    it('keeps the blocks of the main chain as not orphaned', async () => {
+        await chain.rewind(7);
+
+        for (const block of chain.blocks) {
+            const header = await chain.blockchain.block(block.hash);
+
+            assert.strictEqual(header.orphan, false);
+        }
+    });
+
+    it('retrieves the alternate blocks at or below the given height', async () => {
+        await chain.rewind(5);
+
+        const altBlocks = await chain.blockchain.altBlocks(7, 2);
+
+        assert.deepStrictEqual(altBlocks.map(block => block.height), [7, 6]);
+    });
+
+    it('keeps the alternate blocks of every rewind', async () => {
+        await chain.rewind(8);
+
+        await chain.mine(2);
+
+        await chain.rewind(6);
+
+        const altBlocks = await chain.blockchain.altBlocks();
+
+        assert.deepStrictEqual(altBlocks.map(block => block.height), [9, 9, 8, 8, 7, 6]);
+
+        assert.deepStrictEqual(altBlocks.map(block => block.reorgHeight).sort(), [6, 6, 6, 6, 8, 8]);
+    });
+});
@@ -0,0 +1,143 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { after, before, describe, it } from 'mocha';
+import { decodeTransactionExtra, ExtraNonceTagType, ExtraTagType } from '../src/BlockLoader';
+import { generateTransaction, randomKey, TestChain } from './helpers/TestChain';
+
+describe('Transaction extra', () => {
+    const decode = (hex: string) => decodeTransactionExtra(Buffer.from(hex, 'hex'));
+
+    const firstKey = randomKey();
+
+    const secondKey = randomKey();
+
+    const paymentId = randomKey();
+
+    describe('decodeTransactionExtra()', () => {
+        it('decodes a public key', () => {
+            assert.deepStrictEqual(decode('01' + firstKey), [
+                [0, ExtraTagType.PUBLIC_KEY, null, firstKey, null]
+            ]);
+        });
+
+        it('keeps every repeated tag, such as additional public keys, in order', () => {
+            assert.deepStrictEqual(decode('01' + firstKey + '01' + secondKey + '04' + firstKey), [
+                [0, ExtraTagType.PUBLIC_KEY, null, firstKey, null],
+                [33, ExtraTagType.PUBLIC_KEY, null, secondKey, null],
+                [66, ExtraTagType.RECIPIENT_PUBLIC_VIEW_KEY, null, firstKey, null]
+            ]);
+        });
+
+        it('decodes each nonce sub-tag into a row of its own', () => {
+            assert.deepStrictEqual(decode('01' + firstKey + '0226' + '00' + paymentId + '7f03aabbcc'), [
+                [0, ExtraTagType.PUBLIC_KEY, null, firstKey, null],
+                [35, ExtraTagType.NONCE, ExtraNonceTagType.PAYMENT_ID, paymentId, null],
+                [68, ExtraTagType.NONCE, ExtraNonceTagType.EXTRA_DATA, 'aabbcc', null]
+            ]);
+        });
+
+        it('decodes an empty nonce', () => {
+            assert.deepStrictEqual(decode('0200'), [
+                [2, ExtraTagType.NONCE, null, '', null]
+            ]);
+        });
+
+        it('decodes a merged mining tag as its merkle root and depth', () => {
+            // a depth of 300 is encoded as the two byte varint ac02
+            assert.deepStrictEqual(decode('0322ac02' + firstKey), [
+                [0, ExtraTagType.MERGED_MINING, null, firstKey, 300]
+            ]);
+        });
+
+        it('decodes a pool nonce', () => {
+            assert.deepStrictEqual(decode('0703aabbcc'), [
+                [0, ExtraTagType.POOL_NONCE, null, 'aabbcc', null]
+            ]);
+        });
+
+        it('decodes padding to the end of the extra field', () => {
+            assert.deepStrictEqual(decode('01' + firstKey + '000000'), [
+                [0, ExtraTagType.PUBLIC_KEY, null, firstKey, null],
+                [33, ExtraTagType.PADDING, null, '0000', null]
+            ]);
+        });
+
+        it('stores the remainder of the extra field as the value of an unknown tag', () => {
+            assert.deepStrictEqual(decode('01' + firstKey + '09ffff01' + secondKey), [
+                [0, ExtraTagType.PUBLIC_KEY, null, firstKey, null],
+                [33, 9, null, 'ffff01' + secondKey, null]
+            ]);
+        });
+
+        it('stores the remainder of the extra field as the value of a truncated tag', () => {
+            assert.deepStrictEqual(decode('01aabb'), [
+                [0, ExtraTagType.PUBLIC_KEY, null, 'aabb', null]
+            ]);
+        });
+
+        it('stores the remainder of the nonce as the value of an unknown nonce sub-tag', () => {
+            assert.deepStrictEqual(decode('020305aabb'), [
+                [2, ExtraTagType.NONCE, 5, 'aabb', null]
+            ]);
+        });
+
+        it('decodes nothing from an empty extra field', () => {
+            assert.deepStrictEqual(decode(''), []);
+        });
+    });
+
+    describe('BlockchainDB', () => {
+        let chain: TestChain;
+
+        const tx = generateTransaction(0, paymentId);
+
+        before(async () => {
+            chain = await TestChain.create();
+
+            await chain.mine(2);
+
+            await chain.mine(1, () => [tx]);
+        });
+
+        after(async () => {
+            await chain.destroy();
+        });
+
+        it('stores the decoded tags of the transactions in a block', async () => {
+            const tags = await chain.blockchain.transactionExtra(await tx.hash());
+
+            assert.deepStrictEqual(tags, decodeTransactionExtra(tx.extra).map(([position, tag, subtag, value, depth]) => {
+                return {
+                    position: position,
+                    tag: tag,
+                    subtag: (subtag !== null) ? subtag : undefined,
+                    value: value,
+                    depth: (depth !== null) ? depth : undefined
+                };
+            }));
+
+            assert.ok(tags.find(elem => elem.subtag === ExtraNonceTagType.PAYMENT_ID && elem.value === paymentId));
+        });
+
+        it('rejects an unknown transaction', async () => {
+            await assert.rejects(chain.blockchain.transactionExtra(randomKey()), ReferenceError);
+        });
+
+        it('finds the transactions whose extra field contains a tag', async () => {
+            const matches = await chain.blockchain.transactionsByExtraTag(ExtraTagType.NONCE, paymentId);
+
+            assert.strictEqual(matches.length, 1);
+
+            assert.strictEqual(matches[0].hash, await tx.hash());
+
+            assert.strictEqual(matches[0].blockHash, chain.blocks[2].hash);
+
+            assert.strictEqual(matches[0].height, 2);
+
+            assert.deepStrictEqual(await chain.blockchain.transactionsByExtraTag(ExtraTagType.MERGED_MINING), []);
+        });
+    });
+});
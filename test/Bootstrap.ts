@@ -0,0 +1,218 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { after, afterEach, before, beforeEach, describe, it } from 'mocha';
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { IBootstrapManifest, manifestPath } from '../src/Bootstrap';
+import { ValidationError } from '../src/Validation';
+import { TestChain } from './helpers/TestChain';
+
+describe('Bootstrap', () => {
+    let source: TestChain;
+
+    let target: TestChain;
+
+    let path: string;
+
+    /**
+     * Verifies that the blocks of the target chain, below the given height, match the source chain
+     * @param count the number of blocks to compare
+     */
+    const assertImported = async (count: number) => {
+        assert.strictEqual(await target.blockchain.blockCount(), count);
+
+        assert.deepStrictEqual(await target.blockchain.indexes(0, count - 1),
+            await source.blockchain.indexes(0, count - 1));
+
+        for (let height = 0; height < count; height += 7) {
+            assert.deepStrictEqual(await target.blockchain.rawBlock(height), await source.blockchain.rawBlock(height));
+
+            const { depth, ...expected } = await source.blockchain.block(height);
+
+            const { depth: importedDepth, ...imported } = await target.blockchain.block(height);
+
+            assert.deepStrictEqual(imported, expected);
+
+            assert.strictEqual(depth - importedDepth, source.topHeight - (count - 1));
+        }
+
+        const txHash = await source.blocks[count - 1].transactions[1].hash();
+
+        assert.strictEqual((await target.blockchain.transaction(txHash)).block.hash, source.blocks[count - 1].hash);
+    };
+
+    /**
+     * Saves the raw blocks of the source chain to the target chain, as an import that did not
+     * complete would, and their global indexes and headers below the given height
+     * @param count the number of raw blocks to save
+     * @param connected the number of blocks to save the global indexes and headers of
+     */
+    const partialImport = async (count: number, connected: number) => {
+        const blocks = source.blocks.slice(0, count);
+
+        await target.blockchain.saveRawBlocks(blocks.map(block => block.raw));
+
+        await target.blockchain.saveOutputGlobalIndexes(
+            blocks.slice(0, connected).reduce((indexes, block) => indexes.concat(block.indexes), [] as any[]));
+
+        await target.blockchain.saveBlocksMeta(blocks.slice(0, connected).map(block => block.header));
+    };
+
+    before(async () => {
+        source = await TestChain.create();
+
+        await source.mine(70);
+    });
+
+    after(async () => {
+        await source.destroy();
+    });
+
+    beforeEach(async () => {
+        target = await TestChain.create();
+
+        path = join(tmpdir(), 'bootstrap-test-' + randomBytes(8).toString('hex') + '.ndjson.gz');
+    });
+
+    afterEach(async () => {
+        await target.destroy();
+
+        for (const file of [path, manifestPath(path)]) {
+            if (existsSync(file)) {
+                unlinkSync(file);
+            }
+        }
+    });
+
+    it('exports the blocks to a compressed file with a checksum manifest', async () => {
+        const manifest = await source.blockchain.exportBootstrap(path, 0, 69);
+
+        assert.deepStrictEqual(JSON.parse(readFileSync(manifestPath(path)).toString()), manifest);
+
+        assert.deepStrictEqual({ ...manifest, created: 0 }, {
+            version: 1,
+            format: 'ndjson+gzip',
+            startHeight: 0,
+            endHeight: 69,
+            blocks: 70,
+            prevHash: source.blocks[0].header.prevHash,
+            firstHash: source.blocks[0].hash,
+            lastHash: source.blocks[69].hash,
+            sha256: createHash('sha256').update(readFileSync(path)).digest('hex'),
+            created: 0
+        });
+
+        const records = gunzipSync(readFileSync(path)).toString().trim().split('\n').map(line => JSON.parse(line));
+
+        assert.deepStrictEqual(records.map(record => record.hash), source.blocks.map(block => block.hash));
+
+        const byHash = (a: { hash: string }, b: { hash: string }) => a.hash.localeCompare(b.hash);
+
+        assert.deepStrictEqual(records[5].indexes.sort(byHash), [...source.blocks[5].indexes].sort(byHash));
+    });
+
+    it('imports the blocks, their headers and global indexes into an empty database', async () => {
+        await source.blockchain.exportBootstrap(path, 0, 69);
+
+        const manifest: IBootstrapManifest = await target.blockchain.importBootstrap(path);
+
+        assert.strictEqual(manifest.blocks, 70);
+
+        await assertImported(70);
+    });
+
+    it('imports a range that follows the last block in the database', async () => {
+        await source.blockchain.exportBootstrap(path, 0, 39);
+
+        await target.blockchain.importBootstrap(path);
+
+        await assertImported(40);
+
+        await source.blockchain.exportBootstrap(path, 40, 69);
+
+        await target.blockchain.importBootstrap(path);
+
+        await assertImported(70);
+    });
+
+    it('resumes an import that did not complete', async () => {
+        await source.blockchain.exportBootstrap(path, 0, 69);
+
+        // the last ten blocks saved do not have their global indexes or headers
+        await partialImport(45, 35);
+
+        await target.blockchain.importBootstrap(path);
+
+        await assertImported(70);
+
+        // importing the file again verifies the blocks already in the database
+        await target.blockchain.importBootstrap(path);
+
+        await assertImported(70);
+    });
+
+    it('refuses a file that does not follow the blocks in the database', async () => {
+        await source.blockchain.exportBootstrap(path, 40, 69);
+
+        await assert.rejects(target.blockchain.importBootstrap(path), RangeError);
+
+        const other = await TestChain.create(source.startTime + 1);
+
+        try {
+            const blocks = await other.mine(40);
+
+            await target.save(blocks);
+        } finally {
+            await other.destroy();
+        }
+
+        await assert.rejects(target.blockchain.importBootstrap(path),
+            /Bootstrap file does not follow the last block in the database/);
+
+        assert.strictEqual(await target.blockchain.blockCount(), 40);
+    });
+
+    it('refuses a file that does not match its manifest', async () => {
+        await assert.rejects(target.blockchain.importBootstrap(path), ReferenceError);
+
+        await source.blockchain.exportBootstrap(path, 0, 9);
+
+        const lines = gunzipSync(readFileSync(path)).toString().trim().split('\n');
+
+        // removes the block at height 4 so that the block at height 5 follows the block at height 3
+        lines.splice(4, 1);
+
+        writeFileSync(path, gzipSync(lines.join('\n') + '\n'));
+
+        await assert.rejects(target.blockchain.importBootstrap(path), /checksum does not match the manifest/);
+
+        const manifest = JSON.parse(readFileSync(manifestPath(path)).toString());
+
+        writeFileSync(manifestPath(path), JSON.stringify({
+            ...manifest,
+            sha256: createHash('sha256').update(readFileSync(path)).digest('hex')
+        }));
+
+        await assert.rejects(target.blockchain.importBootstrap(path),
+            /Malformed bootstrap record at height 4/);
+
+        assert.strictEqual(await target.blockchain.blockCount(), 0);
+    });
+
+    it('removes the partially written file when the export fails', async () => {
+        // the first batch of blocks is written before the blocks above the top block are reached
+        await assert.rejects(source.blockchain.exportBootstrap(path, 30, 99), RangeError);
+
+        assert.ok(!existsSync(path));
+
+        assert.ok(!existsSync(manifestPath(path)));
+
+        await assert.rejects(source.blockchain.exportBootstrap(path, 10, 9), ValidationError);
+    });
+});
@@ -0,0 +1,198 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { IDatabase } from 'db-abstraction';
+import { BlockchainDB } from '../src/BlockchainDB';
+import { Cache } from '../src/Cache';
+import { TestChain } from './helpers/TestChain';
+
+describe('Cache', () => {
+    it('evicts the least recently used entry once full', () => {
+        const cache = new Cache<string, number>(2);
+
+        cache.set('a', 1, 0);
+
+        cache.set('b', 2, 0);
+
+        assert.strictEqual(cache.get('a'), 1);
+
+        cache.set('c', 3, 0);
+
+        assert.strictEqual(cache.get('b'), undefined);
+
+        assert.strictEqual(cache.get('a'), 1);
+
+        assert.strictEqual(cache.get('c'), 3);
+
+        assert.deepStrictEqual(cache.stats, { hits: 3, misses: 1, size: 2, capacity: 2 });
+    });
+
+    it('removes the entries derived from blocks at, or above, the height', () => {
+        const cache = new Cache<string, number>(10);
+
+        cache.set('a', 1, 5);
+
+        cache.set('b', 2, 6);
+
+        cache.set('c', 3, 7);
+
+        cache.invalidate(6);
+
+        assert.strictEqual(cache.get('a'), 1);
+
+        assert.strictEqual(cache.get('b'), undefined);
+
+        assert.strictEqual(cache.get('c'), undefined);
+
+        cache.clear();
+
+        assert.strictEqual(cache.stats.size, 0);
+    });
+
+    it('caches nothing without any capacity', () => {
+        const cache = new Cache<string, number>(0);
+
+        cache.set('a', 1, 0);
+
+        assert.strictEqual(cache.get('a'), undefined);
+
+        assert.strictEqual(cache.stats.size, 0);
+    });
+});
+
+describe('BlockchainDB caching', () => {
+    let chain: TestChain;
+
+    /**
+     * Constructs another instance using the database, as another process would, that counts the
+     * number of times it reads the chain state and refreshes it at most once per interval
+     * @param interval the refresh interval (ms)
+     */
+    const reader = (interval: number): { blockchain: BlockchainDB, refreshes: () => number } => {
+        let refreshes = 0;
+
+        const database = new Proxy(chain.database, {
+            get: (target: any, property) => {
+                if (property === 'query') {
+                    return (query: string, values?: any[]) => {
+                        if (query.indexOf('FROM sequences') !== -1) {
+                            refreshes++;
+                        }
+
+                        return target.query(query, values);
+                    };
+                }
+
+                return (typeof target[property] === 'function') ? target[property].bind(target) : target[property];
+            }
+        }) as IDatabase;
+
+        process.env.CHAIN_REFRESH_INTERVAL = interval.toString();
+
+        try {
+            return { blockchain: new BlockchainDB(database), refreshes: () => refreshes };
+        } finally {
+            delete process.env.CHAIN_REFRESH_INTERVAL;
+        }
+    };
+
+    beforeEach(async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(10);
+    });
+
+    afterEach(async () => {
+        await chain.destroy();
+    });
+
+    it('serves repeated lookups from the cache', async () => {
+        const hash = chain.blocks[5].hash;
+
+        const txHash = await chain.blocks[5].transactions[1].hash();
+
+        const first = await chain.blockchain.block(hash);
+
+        const transaction = await chain.blockchain.transaction(txHash);
+
+        const stats = chain.blockchain.cacheStats;
+
+        assert.deepStrictEqual(await chain.blockchain.block(hash), first);
+
+        assert.deepStrictEqual(await chain.blockchain.transaction(txHash), transaction);
+
+        assert.ok(chain.blockchain.cacheStats.headers.hits > stats.headers.hits);
+
+        assert.strictEqual(chain.blockchain.cacheStats.transactions.hits, stats.transactions.hits + 1);
+    });
+
+    it('reports the depth against the current top block on a cache hit', async () => {
+        const txHash = await chain.blocks[5].transactions[1].hash();
+
+        assert.strictEqual((await chain.blockchain.transaction(txHash)).block.depth, 4);
+
+        await chain.mine(2);
+
+        assert.strictEqual((await chain.blockchain.transaction(txHash)).block.depth, 6);
+    });
+
+    it('removes the rewound blocks from the cache as they are rewound', async () => {
+        const removed = chain.blocks[8];
+
+        const txHash = await removed.transactions[1].hash();
+
+        await chain.blockchain.block(removed.hash);
+
+        await chain.blockchain.transaction(txHash);
+
+        await chain.blockchain.rawBlock(removed.hash);
+
+        await chain.rewind(8);
+
+        await assert.rejects(chain.blockchain.block(removed.hash), ReferenceError);
+
+        await assert.rejects(chain.blockchain.transaction(txHash), ReferenceError);
+
+        await assert.rejects(chain.blockchain.rawBlock(removed.hash), ReferenceError);
+
+        const [replacement] = await chain.mine(1);
+
+        assert.strictEqual((await chain.blockchain.block(8)).hash, replacement.hash);
+    });
+
+    it('reads the chain changes of another instance at most once per interval', async () => {
+        const { blockchain, refreshes } = reader(60000);
+
+        const txHash = await chain.blocks[9].transactions[1].hash();
+
+        // concurrent lookups share a single read of the chain state
+        await Promise.all([...Array(10)].map(() => blockchain.transaction(txHash)));
+
+        for (let i = 0; i < 10; i++) {
+            await blockchain.block(chain.blocks[i].hash);
+        }
+
+        assert.strictEqual(refreshes(), 1);
+    });
+
+    it('removes the blocks another instance has rewound once the interval has elapsed', async () => {
+        const { blockchain } = reader(100);
+
+        const removed = chain.blocks[8];
+
+        assert.strictEqual((await blockchain.block(8)).hash, removed.hash);
+
+        await chain.rewind(7);
+
+        const [, replacement] = await chain.mine(2);
+
+        await new Promise(resolve => setTimeout(resolve, 150));
+
+        assert.strictEqual((await blockchain.block(8)).hash, replacement.hash);
+
+        await assert.rejects(blockchain.block(removed.hash), ReferenceError);
+    });
+});
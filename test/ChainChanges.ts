@@ -0,0 +1,171 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { ChainChangeType, IChainChange } from '../src/BlockchainDB';
+import { ValidationError } from '../src/Validation';
+import { TestChain } from './helpers/TestChain';
+
+describe('Chain changes', () => {
+    let chain: TestChain;
+
+    /**
+     * Retrieves every change following the cursor, a page at a time
+     * @param cursor the cursor to start from
+     * @param limit the size of each page
+     */
+    const follow = async (cursor = 0, limit = 3): Promise<{ changes: IChainChange[], cursor: number }> => {
+        const changes: IChainChange[] = [];
+
+        for (;;) {
+            const page = await chain.blockchain.changesSince(cursor, limit);
+
+            assert.ok(page.changes.length <= limit);
+
+            if (page.changes.length === 0) {
+                assert.strictEqual(page.cursor, cursor);
+
+                return { changes, cursor };
+            }
+
+            changes.push(...page.changes);
+
+            cursor = page.cursor;
+        }
+    };
+
+    beforeEach(async () => {
+        chain = await TestChain.create();
+    });
+
+    afterEach(async () => {
+        await chain.destroy();
+    });
+
+    it('starts empty', async () => {
+        assert.deepStrictEqual(await chain.blockchain.changesSince(), { changes: [], cursor: 0 });
+    });
+
+    it('logs the connection of each block in height order with consecutive ids', async () => {
+        await chain.mine(5);
+
+        await chain.mine(3);
+
+        const { changes, cursor } = await follow();
+
+        assert.deepStrictEqual(changes.map(change => [change.id, change.type, change.hash, change.height]),
+            chain.blocks.map((block, index) => [index + 1, ChainChangeType.CONNECT, block.hash, block.height]));
+
+        assert.strictEqual(cursor, 8);
+
+        assert.ok(changes.every(change => change.timestamp instanceof Date));
+    });
+
+    it('returns the changes that follow the cursor a page at a time', async () => {
+        await chain.mine(7);
+
+        const first = await chain.blockchain.changesSince(0, 3);
+
+        assert.deepStrictEqual(first.changes.map(change => change.id), [1, 2, 3]);
+
+        assert.strictEqual(first.cursor, 3);
+
+        const second = await chain.blockchain.changesSince(first.cursor, 3);
+
+        assert.deepStrictEqual(second.changes.map(change => change.id), [4, 5, 6]);
+
+        const third = await chain.blockchain.changesSince(second.cursor, 3);
+
+        assert.deepStrictEqual(third.changes.map(change => change.id), [7]);
+
+        assert.deepStrictEqual(await chain.blockchain.changesSince(third.cursor, 3), { changes: [], cursor: 7 });
+    });
+
+    it('does not log a block whose meta data is saved again', async () => {
+        const [block] = await chain.mine(1);
+
+        await chain.blockchain.saveBlocksMeta([block.header]);
+
+        assert.strictEqual((await follow()).changes.length, 1);
+    });
+
+    it('logs the disconnection of rewound blocks from the top down', async () => {
+        await chain.mine(6);
+
+        const { cursor } = await follow();
+
+        const removed = chain.blocks.slice(3).reverse();
+
+        await chain.rewind(3);
+
+        const { changes } = await follow(cursor);
+
+        assert.deepStrictEqual(changes.map(change => [change.id, change.type, change.hash, change.height]),
+            removed.map((block, index) => [cursor + index + 1, ChainChangeType.DISCONNECT, block.hash, block.height]));
+    });
+
+    it('follows the main chain through a rewind when the changes are applied in order', async () => {
+        await chain.mine(5);
+
+        // a consumer that has followed the chain part of the way
+        const consumer: string[] = [];
+
+        const apply = (changes: IChainChange[]) => {
+            for (const change of changes) {
+                if (change.type === ChainChangeType.CONNECT) {
+                    assert.strictEqual(change.height, consumer.length);
+
+                    consumer.push(change.hash);
+                } else {
+                    assert.strictEqual(consumer[consumer.length - 1], change.hash);
+
+                    consumer.pop();
+                }
+            }
+        };
+
+        let { changes, cursor } = await follow(0, 2);
+
+        apply(changes);
+
+        await chain.rewind(2);
+
+        await chain.mine(4);
+
+        await chain.rewind(5);
+
+        await chain.mine(1);
+
+        ({ changes, cursor } = await follow(cursor, 2));
+
+        apply(changes);
+
+        assert.deepStrictEqual(consumer, chain.blocks.map(block => block.hash));
+
+        assert.strictEqual(cursor, 5 + 3 + 4 + 1 + 1);
+    });
+
+    it('does not log the disconnection of a block that was never connected', async () => {
+        await chain.mine(3);
+
+        const [block] = await chain.generate(1);
+
+        await chain.blockchain.saveRawBlocks([block.raw]);
+
+        const { cursor } = await follow();
+
+        await chain.rewind(3);
+
+        assert.deepStrictEqual(await chain.blockchain.changesSince(cursor), { changes: [], cursor: cursor });
+    });
+
+    it('rejects an invalid cursor or limit', async () => {
+        await assert.rejects(chain.blockchain.changesSince(-1), ValidationError);
+
+        await assert.rejects(chain.blockchain.changesSince(0, 0), ValidationError);
+
+        await assert.rejects(chain.blockchain.changesSince(0, 1.5), ValidationError);
+    });
+});
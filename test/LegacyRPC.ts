@@ -0,0 +1,265 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { after, before, describe, it } from 'mocha';
+import { KeyInput } from 'turtlecoin-utils';
+import { LegacyRPC, LegacyRPCErrorCode } from '../src/LegacyRPC';
+import { Server } from '../src/Server';
+import { freePort, request } from './helpers/HTTP';
+import { AMOUNT, generateTransaction, IGeneratedBlock, randomKey, TestChain } from './helpers/TestChain';
+
+describe('Legacy JSON-RPC', () => {
+    let chain: TestChain;
+
+    let rpc: LegacyRPC;
+
+    const paymentId = randomKey();
+
+    const call = async (method: string, params?: any, id: any = 1) =>
+        rpc.handle(JSON.stringify({ jsonrpc: '2.0', id: id, method: method, params: params }));
+
+    /**
+     * The legacy block header expected for the block
+     * @param block the generated block
+     */
+    const expectedHeader = (block: IGeneratedBlock) => {
+        return {
+            block_size: block.header.size,
+            depth: chain.topHeight - block.height,
+            difficulty: block.header.difficulty,
+            hash: block.hash,
+            height: block.height,
+            major_version: block.header.majorVersion,
+            minor_version: block.header.minorVersion,
+            nonce: block.header.nonce,
+            num_txes: block.transactions.length,
+            orphan_status: false,
+            prev_hash: block.header.prevHash,
+            reward: block.header.reward,
+            timestamp: chain.startTime + block.height * 30
+        };
+    };
+
+    before(async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(5);
+
+        await chain.mine(1, () => [generateTransaction(0, paymentId)]);
+
+        rpc = new LegacyRPC(chain.blockchain);
+    });
+
+    after(async () => {
+        await chain.destroy();
+    });
+
+    it('getblockcount', async () => {
+        assert.deepStrictEqual(await call('getblockcount'), {
+            jsonrpc: '2.0',
+            id: 1,
+            result: { count: 6, status: 'OK' }
+        });
+    });
+
+    it('getlastblockheader', async () => {
+        assert.deepStrictEqual(await call('getlastblockheader'), {
+            jsonrpc: '2.0',
+            id: 1,
+            result: { block_header: expectedHeader(chain.blocks[5]), status: 'OK' }
+        });
+    });
+
+    it('getblockheaderbyhash', async () => {
+        assert.deepStrictEqual(await call('getblockheaderbyhash', { hash: chain.blocks[2].hash.toUpperCase() }), {
+            jsonrpc: '2.0',
+            id: 1,
+            result: { block_header: expectedHeader(chain.blocks[2]), status: 'OK' }
+        });
+    });
+
+    it('getblockheaderbyheight', async () => {
+        assert.deepStrictEqual(await call('getblockheaderbyheight', { height: 3 }), {
+            jsonrpc: '2.0',
+            id: 1,
+            result: { block_header: expectedHeader(chain.blocks[3]), status: 'OK' }
+        });
+    });
+
+    it('f_block_json', async () => {
+        const block = chain.blocks[5];
+
+        const response = await call('f_block_json', { hash: block.hash });
+
+        assert.deepStrictEqual(response.result.block, {
+            ...expectedHeader(block),
+            alreadyGeneratedCoins: block.header.alreadyGeneratedCoins.toString(),
+            alreadyGeneratedTransactions: block.header.alreadyGeneratedTransactions,
+            baseReward: block.header.baseReward,
+            blockSize: block.header.size,
+            effectiveSizeMedian: block.header.sizeMedian,
+            penalty: block.header.penalty,
+            sizeMedian: block.header.sizeMedian,
+            totalFeeAmount: block.header.totalFeeAmount,
+            transactions: response.result.block.transactions,
+            transactionsCumulativeSize: block.header.transactionsCumulativeSize
+        });
+
+        assert.deepStrictEqual(response.result.block.transactions.map((tx: any) => Object.keys(tx).sort()),
+            [['amount_out', 'fee', 'hash', 'size'], ['amount_out', 'fee', 'hash', 'size']]);
+
+        assert.deepStrictEqual(response.result.block.transactions.map((tx: any) => tx.hash).sort(),
+            (await Promise.all(block.transactions.map(tx => tx.hash()))).sort());
+
+        assert.strictEqual(response.result.status, 'OK');
+    });
+
+    it('f_transaction_json', async () => {
+        const block = chain.blocks[5];
+
+        const tx = block.transactions[1];
+
+        const hash = await tx.hash();
+
+        const input = tx.inputs[0] as KeyInput;
+
+        const response = await call('f_transaction_json', { hash: hash });
+
+        assert.strictEqual(response.result.status, 'OK');
+
+        assert.deepStrictEqual(response.result.block, {
+            cumul_size: block.header.transactionsCumulativeSize,
+            difficulty: block.header.difficulty,
+            hash: block.hash,
+            height: block.height,
+            timestamp: chain.startTime + block.height * 30,
+            tx_count: 2
+        });
+
+        assert.deepStrictEqual(response.result.tx.vin, [{
+            type: '02',
+            value: {
+                amount: AMOUNT,
+                k_image: input.keyImage,
+                key_offsets: [0, 1, 1]
+            }
+        }]);
+
+        assert.deepStrictEqual(response.result.tx.vout.map((output: any) => output.target.type), ['02', '02']);
+
+        assert.strictEqual(response.result.tx.unlock_time, 0);
+
+        assert.strictEqual(response.result.txDetails.hash, hash);
+
+        assert.strictEqual(response.result.txDetails.fee, tx.fee);
+
+        assert.strictEqual(response.result.txDetails.paymentId, paymentId);
+
+        const coinbase = await call('f_transaction_json', { hash: await block.transactions[0].hash() });
+
+        assert.deepStrictEqual(coinbase.result.tx.vin, [{ type: 'ff', value: { height: 5 } }]);
+    });
+
+    it('f_on_transactions_pool_json', async () => {
+        const tx = generateTransaction();
+
+        await chain.blockchain.saveTransactionPool([tx.toString()]);
+
+        assert.deepStrictEqual(await call('f_on_transactions_pool_json'), {
+            jsonrpc: '2.0',
+            id: 1,
+            result: {
+                transactions: [{ amount_out: tx.amount, fee: tx.fee, hash: await tx.hash(), size: tx.size }],
+                status: 'OK'
+            }
+        });
+    });
+
+    it('returns the daemon errors for missing blocks and transactions', async () => {
+        const hash = randomKey();
+
+        assert.deepStrictEqual((await call('getblockheaderbyhash', { hash: hash })).error,
+            { code: LegacyRPCErrorCode.INTERNAL_ERROR, message: 'Cannot find block: ' + hash });
+
+        assert.deepStrictEqual((await call('f_transaction_json', { hash: hash })).error,
+            { code: LegacyRPCErrorCode.INTERNAL_ERROR, message: 'Cannot find transaction: ' + hash });
+
+        assert.deepStrictEqual((await call('getblockheaderbyheight', { height: 6 })).error,
+            { code: LegacyRPCErrorCode.TOO_BIG_HEIGHT, message: 'To big height: 6, current blockchain height = 5' });
+    });
+
+    it('rejects wrong parameters', async () => {
+        assert.strictEqual((await call('getblockheaderbyhash', { hash: 'abc' })).error.code,
+            LegacyRPCErrorCode.WRONG_PARAM);
+
+        assert.strictEqual((await call('getblockheaderbyheight', { height: -1 })).error.code,
+            LegacyRPCErrorCode.WRONG_PARAM);
+
+        assert.strictEqual((await call('f_block_json')).error.code, LegacyRPCErrorCode.WRONG_PARAM);
+    });
+
+    it('returns the JSON-RPC errors for malformed requests', async () => {
+        assert.deepStrictEqual(await rpc.handle('{'), {
+            jsonrpc: '2.0',
+            id: null,
+            error: { code: LegacyRPCErrorCode.PARSE_ERROR, message: 'Parse error' }
+        });
+
+        assert.deepStrictEqual(await rpc.handle('[]'), {
+            jsonrpc: '2.0',
+            id: null,
+            error: { code: LegacyRPCErrorCode.INVALID_REQUEST, message: 'Invalid Request' }
+        });
+
+        assert.deepStrictEqual(await rpc.handle('{"id":1}'), {
+            jsonrpc: '2.0',
+            id: null,
+            error: { code: LegacyRPCErrorCode.INVALID_REQUEST, message: 'Invalid Request' }
+        });
+
+        assert.deepStrictEqual(await call('getinfo', {}, 'abc'), {
+            jsonrpc: '2.0',
+            id: 'abc',
+            error: { code: LegacyRPCErrorCode.METHOD_NOT_FOUND, message: 'Method not found' }
+        });
+    });
+
+    it('handles batched requests in order', async () => {
+        const response = await rpc.handle(JSON.stringify([
+            { jsonrpc: '2.0', id: 1, method: 'getblockcount' },
+            { jsonrpc: '2.0', id: 2, method: 'unknown' },
+            5
+        ]));
+
+        assert.deepStrictEqual(response, [
+            { jsonrpc: '2.0', id: 1, result: { count: 6, status: 'OK' } },
+            { jsonrpc: '2.0', id: 2, error: { code: LegacyRPCErrorCode.METHOD_NOT_FOUND, message: 'Method not found' } },
+            { jsonrpc: '2.0', id: null, error: { code: LegacyRPCErrorCode.INVALID_REQUEST, message: 'Invalid Request' } }
+        ]);
+    });
+
+    it('is served with a 200 status, including errors, at /json_rpc', async () => {
+        const port = await freePort();
+
+        const server = new Server(chain.database, port, '127.0.0.1');
+
+        await server.start();
+
+        try {
+            assert.deepStrictEqual(await request(port, 'POST', '/json_rpc',
+                { jsonrpc: '2.0', id: 7, method: 'getblockcount' }), {
+                status: 200,
+                body: { jsonrpc: '2.0', id: 7, result: { count: 6, status: 'OK' } }
+            });
+
+            assert.deepStrictEqual(await request(port, 'POST', '/json_rpc', '{'), {
+                status: 200,
+                body: { jsonrpc: '2.0', id: null, error: { code: LegacyRPCErrorCode.PARSE_ERROR, message: 'Parse error' } }
+            });
+        } finally {
+            await server.stop();
+        }
+    });
+});
@@ -0,0 +1,159 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { after, beforeEach, describe, it } from 'mocha';
+import { SQLite } from 'db-abstraction';
+import { existsSync, unlinkSync } from 'fs';
+import { BlockchainDB } from '../src/BlockchainDB';
+import { getSchemaVersion, migrate, Migrations, SCHEMA_VERSION } from '../src/Migrations';
+import { temporaryPath } from './helpers/TestChain';
+
+describe('Migrations', () => {
+    const paths: string[] = [];
+
+    let database: SQLite;
+
+    /**
+     * Applies the migrations up to, and including, the given version in the same way as migrate()
+     * @param version the version to stop at
+     */
+    const applyUpTo = async (version: number) => {
+        for (const migration of Migrations.filter(elem => elem.version <= version)) {
+            await database.transaction(migration.prepare(database).concat([{
+                query: 'INSERT INTO schema_version (version, description, appliedat) VALUES (?,?,?)',
+                values: [migration.version, migration.description, 0]
+            }]));
+        }
+    };
+
+    beforeEach(() => {
+        paths.push(temporaryPath());
+
+        database = new SQLite(paths[paths.length - 1]);
+    });
+
+    after(() => {
+        for (const path of paths.filter(elem => existsSync(elem))) {
+            unlinkSync(path);
+        }
+    });
+
+    it('numbers the migrations consecutively from 1', () => {
+        assert.deepStrictEqual(Migrations.map(migration => migration.version),
+            [...Array(SCHEMA_VERSION)].map((_, i) => i + 1));
+    });
+
+    it('applies every migration, in order, to an empty database', async () => {
+        assert.strictEqual(await getSchemaVersion(database), 0);
+
+        const result = await migrate(database);
+
+        assert.strictEqual(result.from, 0);
+
+        assert.strictEqual(result.to, SCHEMA_VERSION);
+
+        assert.strictEqual(result.dryRun, false);
+
+        assert.deepStrictEqual(result.applied.map(migration => migration.version),
+            Migrations.map(migration => migration.version));
+
+        assert.strictEqual(await getSchemaVersion(database), SCHEMA_VERSION);
+
+        const [count] = await database.query('SELECT version FROM schema_version');
+
+        assert.strictEqual(count, SCHEMA_VERSION);
+
+        await database.close();
+    });
+
+    it('applies nothing to a database that is up to date', async () => {
+        await migrate(database);
+
+        const result = await migrate(database);
+
+        assert.strictEqual(result.from, SCHEMA_VERSION);
+
+        assert.strictEqual(result.to, SCHEMA_VERSION);
+
+        assert.deepStrictEqual(result.applied, []);
+
+        await database.close();
+    });
+
+    it('only prepares the pending migrations in a dry run', async () => {
+        const result = await migrate(database, true);
+
+        assert.strictEqual(result.dryRun, true);
+
+        assert.strictEqual(result.from, 0);
+
+        assert.strictEqual(result.to, SCHEMA_VERSION);
+
+        assert.strictEqual(result.applied.length, Migrations.length);
+
+        for (const migration of result.applied) {
+            const last = migration.statements[migration.statements.length - 1];
+
+            assert.ok(last.query.startsWith('INSERT INTO schema_version'));
+
+            assert.strictEqual(last.values && last.values[0], migration.version);
+        }
+
+        assert.strictEqual(await getSchemaVersion(database), 0);
+
+        await database.close();
+    });
+
+    it('applies only the migrations after the stored version', async () => {
+        await applyUpTo(5);
+
+        assert.strictEqual(await getSchemaVersion(database), 5);
+
+        const result = await migrate(database);
+
+        assert.strictEqual(result.from, 5);
+
+        assert.deepStrictEqual(result.applied.map(migration => migration.version),
+            Migrations.filter(migration => migration.version > 5).map(migration => migration.version));
+
+        assert.strictEqual(await getSchemaVersion(database), SCHEMA_VERSION);
+
+        await database.close();
+    });
+
+    it('rolls back a migration that fails along with the record of its version', async () => {
+        await applyUpTo(SCHEMA_VERSION - 1);
+
+        // the last migration creates, and fills, this table
+        await database.query('CREATE TABLE sequences (name VARCHAR(64) PRIMARY KEY, value BIGINT)');
+
+        await database.query('INSERT INTO sequences (name, value) VALUES (?, ?)', ['chain_changes', 0]);
+
+        await assert.rejects(migrate(database));
+
+        assert.strictEqual(await getSchemaVersion(database), SCHEMA_VERSION - 1);
+
+        await database.close();
+    });
+
+    it('refuses a database with a newer schema', async () => {
+        await migrate(database);
+
+        await database.query('INSERT INTO schema_version (version, description, appliedat) VALUES (?,?,?)',
+            [SCHEMA_VERSION + 1, 'From the future', 0]);
+
+        await assert.rejects(migrate(database), /newer than the supported schema/);
+
+        await assert.rejects(migrate(database, true), /newer than the supported schema/);
+
+        const blockchain = new BlockchainDB(database);
+
+        await assert.rejects(blockchain.init(), /newer than the supported schema/);
+
+        assert.strictEqual(await blockchain.schemaVersion(), SCHEMA_VERSION + 1);
+
+        await blockchain.close();
+    });
+});
@@ -0,0 +1,65 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { Random } from '../src/Random';
+
+describe('Random', () => {
+    it('produces the SHA-256 based sequence of the seed', () => {
+        const random = new Random('turtlecoin');
+
+        // the first block of the sequence is SHA-256(SHA-256(seed) || 0) and the second
+        // block, from which the fifth number is taken, is SHA-256(SHA-256(seed) || 1)
+        assert.deepStrictEqual([...Array(5)].map(() => random.next()), [
+            0.4939825956899857,
+            0.7133448558146078,
+            0.9299915161810371,
+            0.27620839488314153,
+            0.7061897777654238
+        ]);
+    });
+
+    it('produces the same sequence for the same seed', () => {
+        const first = new Random(42);
+
+        const second = new Random('42');
+
+        for (let i = 0; i < 100; i++) {
+            assert.strictEqual(first.next(), second.next());
+        }
+    });
+
+    it('produces different sequences for different seeds', () => {
+        const first = new Random(1);
+
+        const second = new Random(2);
+
+        assert.notDeepStrictEqual(
+            [...Array(10)].map(() => first.next()),
+            [...Array(10)].map(() => second.next()));
+    });
+
+    it('produces numbers in the range [0, 1)', () => {
+        const random = new Random('range');
+
+        for (let i = 0; i < 1000; i++) {
+            const value = random.next();
+
+            assert.ok(value >= 0 && value < 1);
+        }
+    });
+
+    it('produces integers in the range [0, max)', () => {
+        const random = new Random(42);
+
+        assert.deepStrictEqual([...Array(8)].map(() => random.integer(100)), [80, 38, 86, 9, 35, 64, 81, 92]);
+
+        for (let i = 0; i < 1000; i++) {
+            const value = random.integer(7);
+
+            assert.ok(Number.isInteger(value) && value >= 0 && value < 7);
+        }
+    });
+});
@@ -0,0 +1,193 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { after, before, describe, it } from 'mocha';
+import { KeyOutput } from 'turtlecoin-utils';
+import { Random } from '../src/Random';
+import { ValidationError } from '../src/Validation';
+import { AMOUNT, generateTransaction, REWARD, TestChain } from './helpers/TestChain';
+
+/**
+ * The amount of the first output of every generated transaction
+ */
+const DECOY_AMOUNT = AMOUNT / 2;
+
+describe('randomIndexes()', () => {
+    /**
+     * Retrieves the output keys of the given amount in the chain by their global index
+     * @param chain the chain
+     * @param amount the amount
+     */
+    const outputKeys = (chain: TestChain, amount: number): Map<number, string> => {
+        const keys: Map<number, string> = new Map<number, string>();
+
+        for (const block of chain.blocks) {
+            block.transactions.forEach((tx, i) => {
+                tx.outputs.forEach((output, j) => {
+                    const keyOutput = output as KeyOutput;
+
+                    if (keyOutput.amount.toJSNumber() === amount) {
+                        keys.set(block.indexes[i].indexes[j], keyOutput.key);
+                    }
+                });
+            });
+        }
+
+        return keys;
+    };
+
+    describe('with every output unlocked', () => {
+        let chain: TestChain;
+
+        before(async () => {
+            chain = await TestChain.create();
+
+            // every block after the genesis block contains two outputs of the decoy amount
+            await chain.mine(60, () => [generateTransaction(), generateTransaction()]);
+        });
+
+        after(async () => {
+            await chain.destroy();
+        });
+
+        it('selects the same outputs for the same seed', async () => {
+            const first = await chain.blockchain.randomIndexes([DECOY_AMOUNT, REWARD], 10, new Random('seed'));
+
+            const second = await chain.blockchain.randomIndexes([DECOY_AMOUNT, REWARD], 10, new Random('seed'));
+
+            assert.deepStrictEqual(first, second);
+
+            const other = await chain.blockchain.randomIndexes([DECOY_AMOUNT, REWARD], 10, new Random('other'));
+
+            assert.notDeepStrictEqual(first, other);
+        });
+
+        it('selects distinct outputs in ascending order with their keys', async () => {
+            const keys = outputKeys(chain, DECOY_AMOUNT);
+
+            const [result] = await chain.blockchain.randomIndexes([DECOY_AMOUNT], 20, new Random(1));
+
+            assert.strictEqual(result.amount, DECOY_AMOUNT);
+
+            assert.strictEqual(result.outputs.length, 20);
+
+            const indexes = result.outputs.map(output => output.index);
+
+            assert.deepStrictEqual(indexes, [...new Set(indexes)].sort((a, b) => a - b));
+
+            for (const output of result.outputs) {
+                assert.strictEqual(output.key, keys.get(output.index));
+            }
+        });
+
+        it('picks the global indexes from a triangular distribution of the eligible outputs', async () => {
+            // the outputs of the blocks at, or below, height 59 - 40 = 19 are eligible
+            const available = 19 * 2;
+
+            const random = new Random('triangular');
+
+            const expected: Set<number> = new Set<number>();
+
+            const replay = new Random('triangular');
+
+            while (expected.size < 10) {
+                expected.add(Math.floor(Math.sqrt(replay.next()) * available));
+            }
+
+            const [result] = await chain.blockchain.randomIndexes([DECOY_AMOUNT], 10, random);
+
+            assert.deepStrictEqual(result.outputs.map(output => output.index),
+                [...expected].sort((a, b) => a - b));
+
+            // the probability of picking an index increases linearly with the index
+            let total = 0;
+
+            for (let seed = 0; seed < 100; seed++) {
+                const [single] = await chain.blockchain.randomIndexes([DECOY_AMOUNT], 1, new Random(seed));
+
+                total += single.outputs[0].index / available;
+            }
+
+            assert.ok(total / 100 > 0.55 && total / 100 < 0.78, 'mean of ' + total / 100);
+        });
+
+        it('only selects outputs at least 40 blocks below the top block', async () => {
+            // the coinbase transactions of the blocks at, or below, height 19 are eligible
+            const [result] = await chain.blockchain.randomIndexes([REWARD], 20, new Random(2));
+
+            assert.deepStrictEqual(result.outputs.map(output => output.index), [...Array(20)].map((_, i) => i));
+
+            await assert.rejects(chain.blockchain.randomIndexes([REWARD], 21, new Random(2)),
+                /Not enough outputs available to satisfy request/);
+
+            await chain.mine(1);
+
+            const [next] = await chain.blockchain.randomIndexes([REWARD], 21, new Random(2));
+
+            assert.strictEqual(next.outputs[20].index, 20);
+        });
+
+        it('rejects a request for an amount without enough outputs', async () => {
+            await assert.rejects(chain.blockchain.randomIndexes([DECOY_AMOUNT, 12345], 1, new Random(3)),
+                error => error instanceof RangeError && /Not enough outputs/.test(error.message));
+
+            assert.deepStrictEqual(await chain.blockchain.randomIndexes([12345], 0, new Random(3)),
+                [{ amount: 12345, outputs: [] }]);
+        });
+
+        it('rejects an invalid count', async () => {
+            await assert.rejects(chain.blockchain.randomIndexes([DECOY_AMOUNT], 101), ValidationError);
+
+            await assert.rejects(chain.blockchain.randomIndexes([DECOY_AMOUNT], -1), ValidationError);
+        });
+    });
+
+    describe('with locked outputs', () => {
+        let chain: TestChain;
+
+        before(async () => {
+            chain = await TestChain.create();
+
+            // each block after the genesis block contains one output of the decoy amount, which is
+            // locked by height, locked by timestamp, unlocked by timestamp or not locked
+            await chain.mine(60, height => {
+                switch (height % 4) {
+                case 0:
+                    return [generateTransaction(1000)];
+                case 1:
+                    return [generateTransaction(chain.startTime)];
+                case 2:
+                    return [generateTransaction(chain.startTime + 1000000)];
+                default:
+                    return [generateTransaction()];
+                }
+            });
+        });
+
+        after(async () => {
+            await chain.destroy();
+        });
+
+        it('skips the outputs that are still locked', async () => {
+            // of the eligible blocks (1 to 19), the outputs of the odd height blocks are unlocked
+            const unlocked = [...Array(10)].map((_, i) => i * 2);
+
+            for (let seed = 0; seed < 5; seed++) {
+                const [result] = await chain.blockchain.randomIndexes([DECOY_AMOUNT], 10, new Random(seed));
+
+                assert.deepStrictEqual(result.outputs.map(output => output.index), unlocked);
+            }
+
+            const [partial] = await chain.blockchain.randomIndexes([DECOY_AMOUNT], 4, new Random(4));
+
+            assert.ok(partial.outputs.every(output => unlocked.indexOf(output.index) !== -1));
+        });
+
+        it('rejects a request that the unlocked outputs cannot satisfy', async () => {
+            await assert.rejects(chain.blockchain.randomIndexes([DECOY_AMOUNT], 11, new Random(5)),
+                error => error instanceof RangeError && /Not enough outputs/.test(error.message));
+        });
+    });
+});
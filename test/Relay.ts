@@ -0,0 +1,232 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { after, afterEach, before, beforeEach, describe, it } from 'mocha';
+import { createServer, IncomingMessage, Server as HTTPServer, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { BlockchainDB, NotAvailableError } from '../src/BlockchainDB';
+import { Server } from '../src/Server';
+import { ValidationError } from '../src/Validation';
+import { freePort, IResponse, request } from './helpers/HTTP';
+import { generateTransaction, TestChain } from './helpers/TestChain';
+
+/**
+ * Represents a request received by the stand-in daemon
+ */
+interface IDaemonRequest {
+    method: string;
+    url: string;
+    body: any;
+}
+
+/**
+ * A local HTTP server standing in for the upstream daemon that records the
+ * requests it receives and responds with the configured response
+ */
+class StandInDaemon {
+    public readonly requests: IDaemonRequest[] = [];
+    public response: IResponse = { status: 200 };
+    private readonly server: HTTPServer;
+
+    constructor () {
+        this.server = createServer((request, response) => this.handle(request, response));
+    }
+
+    /**
+     * The port the daemon is listening on
+     */
+    public get port (): number {
+        return (this.server.address() as AddressInfo).port;
+    }
+
+    /**
+     * Starts the daemon listening on a free port of the loopback interface
+     */
+    public async start (): Promise<void> {
+        return new Promise(resolve => this.server.listen(0, '127.0.0.1', () => resolve()));
+    }
+
+    /**
+     * Stops the daemon
+     */
+    public async stop (): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Records the request and sends the configured response
+     * @param request the incoming request
+     * @param response the response to the request
+     */
+    private handle (request: IncomingMessage, response: ServerResponse) {
+        const chunks: Buffer[] = [];
+
+        request.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+        request.on('end', () => {
+            const body = Buffer.concat(chunks).toString();
+
+            this.requests.push({
+                method: request.method || '',
+                url: request.url || '',
+                body: (body.length !== 0) ? JSON.parse(body) : undefined
+            });
+
+            const payload = (this.response.body !== undefined) ? JSON.stringify(this.response.body) : '';
+
+            response.writeHead(this.response.status, { 'Content-Type': 'application/json' });
+
+            response.end(payload);
+        });
+    }
+}
+
+describe('Relay', () => {
+    const address = 'TRTLv2Fyavy8CXG8BPEbNeCHFZ1fuDCYCZ3vW5H5LXN4K2M2MHUpTENip9bbavpHvvPwb4NDkBWrNgURAd5DB38FHXWZyoBh4wW';
+
+    let chain: TestChain;
+
+    let daemon: StandInDaemon;
+
+    let blockchain: BlockchainDB;
+
+    before(async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(2);
+    });
+
+    after(async () => {
+        await chain.destroy();
+    });
+
+    beforeEach(async () => {
+        daemon = new StandInDaemon();
+
+        await daemon.start();
+
+        blockchain = new BlockchainDB(chain.database, { host: '127.0.0.1', port: daemon.port, ssl: false });
+    });
+
+    afterEach(async () => {
+        await daemon.stop();
+    });
+
+    it('forwards block template requests to the daemon', async () => {
+        const template = { blob: 'aabb', difficulty: 1000, height: 2, reservedOffset: 100 };
+
+        daemon.response = { status: 200, body: template };
+
+        assert.deepStrictEqual(await blockchain.blockTemplate(address, 8), template);
+
+        assert.deepStrictEqual(daemon.requests, [{
+            method: 'POST',
+            url: '/block/template',
+            body: { address: address, reserveSize: 8 }
+        }]);
+    });
+
+    it('forwards submitted blocks to the daemon', async () => {
+        const [block] = await chain.generate(1);
+
+        daemon.response = { status: 202, body: block.hash };
+
+        assert.strictEqual(await blockchain.submitBlock(block.raw.blob), block.hash);
+
+        assert.deepStrictEqual(daemon.requests, [{ method: 'POST', url: '/block', body: block.raw.blob }]);
+    });
+
+    it('forwards submitted transactions to the daemon and saves them to the transaction pool', async () => {
+        const tx = generateTransaction();
+
+        const hash = await tx.hash();
+
+        daemon.response = { status: 202, body: hash };
+
+        assert.strictEqual(await blockchain.submitTransaction(tx.toString()), hash);
+
+        assert.deepStrictEqual(daemon.requests, [{ method: 'POST', url: '/transaction', body: tx.toString() }]);
+
+        assert.deepStrictEqual((await blockchain.transactionPool()).map(elem => elem.hash), [hash]);
+
+        assert.deepStrictEqual(await blockchain.rawTransactionPool([hash]), [tx.toString()]);
+
+        const history = await blockchain.transactionPoolHistory(hash);
+
+        assert.strictEqual(history.fee, tx.fee);
+
+        // the collector finds the transaction already in the pool
+        assert.deepStrictEqual(await blockchain.saveTransactionPool([tx.toString()]), { added: [], removed: [] });
+
+        assert.strictEqual(await blockchain.submitTransaction(tx.toString()), hash);
+
+        assert.strictEqual((await blockchain.transactionPool()).length, 1);
+
+        await blockchain.saveTransactionPool([]);
+    });
+
+    it('reports the requests the daemon rejected as a RangeError', async () => {
+        const tx = generateTransaction();
+
+        daemon.response = { status: 400, body: { error: { code: 400, message: 'Transaction rejected' } } };
+
+        await assert.rejects(blockchain.submitTransaction(tx.toString()),
+            error => error instanceof RangeError && error.message === 'Transaction rejected');
+
+        assert.deepStrictEqual(await blockchain.transactionPool(), []);
+
+        daemon.response = { status: 404, body: {} };
+
+        await assert.rejects(blockchain.submitBlock('aabb'),
+            error => error instanceof RangeError && error.message === 'Upstream daemon returned status 404');
+    });
+
+    it('reports other daemon failures as an Error', async () => {
+        daemon.response = { status: 500, body: { error: { code: 500, message: 'Internal Server Error' } } };
+
+        await assert.rejects(blockchain.submitBlock('aabb'),
+            error => !(error instanceof RangeError) && error.message === 'Internal Server Error');
+    });
+
+    it('validates the request before forwarding it', async () => {
+        await assert.rejects(blockchain.submitTransaction('xyz'), ValidationError);
+
+        await assert.rejects(blockchain.blockTemplate('0OIl', 8), ValidationError);
+
+        await assert.rejects(blockchain.blockTemplate(address, 256), ValidationError);
+
+        assert.deepStrictEqual(daemon.requests, []);
+    });
+
+    it('returns the daemon rejection as a 400 from the server', async () => {
+        const port = await freePort();
+
+        const server = new Server(chain.database, port, '127.0.0.1',
+            { host: '127.0.0.1', port: daemon.port, ssl: false });
+
+        await server.start();
+
+        daemon.response = { status: 400, body: { error: { code: 400, message: 'Block rejected' } } };
+
+        try {
+            assert.deepStrictEqual(await request(port, 'POST', '/block', JSON.stringify('aabb')),
+                { status: 400, body: { error: { code: 400, message: 'Block rejected' } } });
+        } finally {
+            await server.stop();
+        }
+    });
+
+    it('reports the methods as not available without a daemon', async () => {
+        const standalone = new BlockchainDB(chain.database);
+
+        await assert.rejects(standalone.blockTemplate(address, 8), NotAvailableError);
+
+        await assert.rejects(standalone.submitBlock('aabb'), NotAvailableError);
+
+        await assert.rejects(standalone.submitTransaction(generateTransaction().toString()), NotAvailableError);
+
+        assert.deepStrictEqual(daemon.requests, []);
+    });
+});
@@ -0,0 +1,108 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { afterEach, beforeEach, describe, it } from 'mocha';
+import { RewindCause } from '../src/BlockchainDB';
+import { randomKey, TestChain } from './helpers/TestChain';
+
+describe('Reorg events', () => {
+    let chain: TestChain;
+
+    beforeEach(async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(10);
+    });
+
+    afterEach(async () => {
+        await chain.destroy();
+    });
+
+    it('records the fork height, depth, tips and cause of a rewind', async () => {
+        const oldTip = chain.blocks[9].hash;
+
+        const newTip = chain.blocks[5].hash;
+
+        const event = await chain.rewind(6, RewindCause.CONSISTENCY_CHECK);
+
+        assert.ok(event);
+
+        assert.strictEqual(event.forkHeight, 6);
+
+        assert.strictEqual(event.depth, 4);
+
+        assert.strictEqual(event.oldTip, oldTip);
+
+        assert.strictEqual(event.newTip, newTip);
+
+        assert.strictEqual(event.cause, RewindCause.CONSISTENCY_CHECK);
+
+        assert.deepStrictEqual(await chain.blockchain.reorgEvents(), [event]);
+    });
+
+    it('records the daemon block that replaced the old chain', async () => {
+        const newTip = randomKey();
+
+        const event = await chain.rewind(8, RewindCause.DAEMON_FORK, newTip);
+
+        assert.ok(event);
+
+        assert.strictEqual(event.newTip, newTip);
+
+        const [stored] = await chain.blockchain.reorgEvents();
+
+        assert.strictEqual(stored.newTip, newTip);
+
+        assert.strictEqual(stored.cause, RewindCause.DAEMON_FORK);
+    });
+
+    it('records no event when there is nothing to rewind', async () => {
+        assert.strictEqual(await chain.rewind(10), undefined);
+
+        assert.deepStrictEqual(await chain.blockchain.reorgEvents(), []);
+    });
+
+    it('retrieves the events in descending order of occurrence', async () => {
+        await chain.rewind(9, RewindCause.SYNC_ERROR);
+
+        await chain.rewind(7, RewindCause.MANUAL);
+
+        await chain.rewind(5, RewindCause.CONSISTENCY_CHECK);
+
+        const events = await chain.blockchain.reorgEvents();
+
+        assert.deepStrictEqual(events.map(event => event.id), [3, 2, 1]);
+
+        assert.deepStrictEqual(events.map(event => event.cause),
+            [RewindCause.CONSISTENCY_CHECK, RewindCause.MANUAL, RewindCause.SYNC_ERROR]);
+
+        assert.deepStrictEqual(events.map(event => event.depth), [2, 2, 1]);
+
+        assert.deepStrictEqual((await chain.blockchain.reorgEvents(0, Number.MAX_SAFE_INTEGER, 1))
+            .map(event => event.id), [3]);
+    });
+
+    it('retrieves only the events within the time range', async () => {
+        await chain.rewind(9);
+
+        const [event] = await chain.blockchain.reorgEvents();
+
+        const timestamp = Math.floor(event.timestamp.getTime() / 1000);
+
+        assert.strictEqual((await chain.blockchain.reorgEvents(timestamp, timestamp)).length, 1);
+
+        assert.strictEqual((await chain.blockchain.reorgEvents(timestamp + 1)).length, 0);
+
+        assert.strictEqual((await chain.blockchain.reorgEvents(0, timestamp - 1)).length, 0);
+    });
+
+    it('rejects an unknown cause', async () => {
+        await assert.rejects(chain.blockchain.rewind(5, 'unknown' as RewindCause));
+
+        assert.strictEqual(await chain.blockchain.blockCount(), 10);
+
+        assert.deepStrictEqual(await chain.blockchain.reorgEvents(), []);
+    });
+});
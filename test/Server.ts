@@ -0,0 +1,196 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { after, before, describe, it } from 'mocha';
+import { TurtleCoind } from 'turtlecoin-utils';
+import { BlockchainDB } from '../src/BlockchainDB';
+import { IServerRequestEvent, Server } from '../src/Server';
+import { freePort, request } from './helpers/HTTP';
+import { generateTransaction, randomKey, TestChain } from './helpers/TestChain';
+
+/**
+ * Exposes the database of the server so that its methods can be replaced
+ */
+class TestServer extends Server {
+    public get blockchain (): BlockchainDB {
+        return this.database;
+    }
+}
+
+describe('Server', () => {
+    let chain: TestChain;
+
+    let server: TestServer;
+
+    let port: number;
+
+    before(async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(110, () => []);
+
+        await chain.mine(1);
+
+        port = await freePort();
+
+        server = new TestServer(chain.database, port, '127.0.0.1');
+
+        await server.start();
+    });
+
+    after(async () => {
+        await server.stop();
+
+        await chain.destroy();
+    });
+
+    it('responds in the form expected by the daemon client', async () => {
+        const client = new TurtleCoind('127.0.0.1', port);
+
+        const block = chain.blocks[chain.topHeight];
+
+        assert.strictEqual(await client.blockCount(), chain.blocks.length);
+
+        const header = await client.block(block.hash);
+
+        assert.strictEqual(header.hash, block.hash);
+
+        assert.strictEqual(header.height, block.height);
+
+        assert.deepStrictEqual(header.timestamp, block.header.timestamp);
+
+        assert.deepStrictEqual(header.transactions.map(tx => tx.hash).sort(),
+            (await Promise.all(block.transactions.map(tx => tx.hash()))).sort());
+
+        assert.strictEqual(await client.rawTransaction(await block.transactions[1].hash()),
+            block.raw.transactions[0]);
+
+        assert.deepStrictEqual((await client.lastBlock()).hash, block.hash);
+    });
+
+    it('serializes dates as unix timestamps in seconds', async () => {
+        const response = await request(port, 'GET', '/block/10');
+
+        assert.strictEqual(response.status, 200);
+
+        assert.strictEqual(response.body.timestamp, chain.startTime + 10 * 30);
+    });
+
+    it('returns 404 for an unknown block or transaction', async () => {
+        for (const path of ['/block/' + randomKey(), '/block/1000', '/transaction/' + randomKey()]) {
+            const response = await request(port, 'GET', path);
+
+            assert.strictEqual(response.status, 404, path);
+
+            assert.strictEqual(response.body.error.code, 404);
+
+            assert.strictEqual(typeof response.body.error.message, 'string');
+        }
+    });
+
+    it('returns 404 for an unknown path and 405 for an unsupported method', async () => {
+        assert.deepStrictEqual(await request(port, 'GET', '/unknown'),
+            { status: 404, body: { error: { code: 404, message: 'Not Found' } } });
+
+        assert.deepStrictEqual(await request(port, 'POST', '/height'),
+            { status: 405, body: { error: { code: 405, message: 'Method Not Allowed' } } });
+    });
+
+    it('returns 400 for a malformed request', async () => {
+        const malformed = await request(port, 'POST', '/transaction/status', '[');
+
+        assert.strictEqual(malformed.status, 400);
+
+        assert.strictEqual(malformed.body.error.message, 'Malformed JSON in request body');
+
+        assert.strictEqual((await request(port, 'POST', '/transaction', { transaction: 'aa' })).status, 400);
+
+        assert.strictEqual((await request(port, 'POST', '/transaction/status', ['zz'])).status, 400);
+
+        assert.strictEqual((await request(port, 'GET', '/block/headers/1000')).status, 400);
+
+        assert.strictEqual((await request(port, 'GET', '/indexes/5/2')).status, 400);
+    });
+
+    it('returns 501 for the methods that require an upstream daemon', async () => {
+        const response = await request(port, 'POST', '/transaction', JSON.stringify(generateTransaction().toString()));
+
+        assert.strictEqual(response.status, 501);
+
+        assert.deepStrictEqual(response.body, { error: { code: 501, message: 'Method not available' } });
+
+        assert.strictEqual((await request(port, 'POST', '/block/template',
+            { address: 'TRTL', reserveSize: 6 })).status, 501);
+    });
+
+    it('returns 500 without the details of an unexpected error and emits the error', async () => {
+        const blockCount = server.blockchain.blockCount;
+
+        let emitted: Error | undefined;
+
+        server.blockchain.blockCount = async () => {
+            throw new Error('Connection lost to 10.0.0.1');
+        };
+
+        server.once('error', error => { emitted = error; });
+
+        try {
+            assert.deepStrictEqual(await request(port, 'GET', '/block/count'),
+                { status: 500, body: { error: { code: 500, message: 'Internal Server Error' } } });
+        } finally {
+            server.blockchain.blockCount = blockCount;
+        }
+
+        assert.ok(emitted);
+
+        assert.strictEqual(emitted.message, 'Connection lost to 10.0.0.1');
+    });
+
+    it('caps the number of blocks for which global indexes are returned', async () => {
+        const response = await request(port, 'GET', '/indexes/0/500');
+
+        assert.strictEqual(response.status, 200);
+
+        assert.strictEqual(response.body.length, 100);
+
+        assert.deepStrictEqual(response.body.map((elem: { hash: string }) => elem.hash),
+            await Promise.all(chain.blocks.slice(0, 100).map(block => block.transactions[0].hash())));
+    });
+
+    it('returns the pool transactions the client does not know as added', async () => {
+        const tx = generateTransaction();
+
+        const unknown = randomKey();
+
+        await chain.blockchain.saveTransactionPool([tx.toString()]);
+
+        const response = await request(port, 'POST', '/transaction/pool/delta', {
+            lastKnownBlock: chain.blocks[chain.topHeight].hash,
+            transactions: [unknown]
+        });
+
+        assert.deepStrictEqual(response, {
+            status: 200,
+            body: { added: [tx.toString()], deleted: [unknown], synced: true }
+        });
+    });
+
+    it('emits each handled request', async () => {
+        const events: IServerRequestEvent[] = [];
+
+        const listener = (event: IServerRequestEvent) => events.push(event);
+
+        server.on('request', listener);
+
+        await request(port, 'GET', '/block/count');
+
+        await request(port, 'GET', '/unknown?query=1');
+
+        server.removeListener('request', listener);
+
+        assert.deepStrictEqual(events.map(event => [event.method, event.url, event.status]),
+            [['GET', '/block/count', 200], ['GET', '/unknown?query=1', 404]]);
+    });
+});
@@ -0,0 +1,353 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { after, afterEach, before, beforeEach, describe, it } from 'mocha';
+import { EventEmitter } from 'events';
+import * as WebSocket from 'ws';
+import { RewindCause } from '../src/BlockchainDB';
+import { Collector } from '../src/Collector';
+import { SubscriptionServer, SubscriptionTopic } from '../src/SubscriptionServer';
+import { freePort } from './helpers/HTTP';
+import { generateTransaction, randomKey, TestChain } from './helpers/TestChain';
+
+/**
+ * A subscription client that queues the messages it receives
+ */
+class TestClient {
+    private readonly messages: any[] = [];
+    private readonly waiting: ((message: any) => void)[] = [];
+
+    /**
+     * Constructs a new client using an open socket
+     * @param socket the socket
+     */
+    private constructor (private readonly socket: WebSocket) {
+        socket.on('message', data => {
+            const message = JSON.parse(data.toString());
+
+            const resolve = this.waiting.shift();
+
+            if (resolve) {
+                resolve(message);
+            } else {
+                this.messages.push(message);
+            }
+        });
+    }
+
+    /**
+     * Connects to the subscription server, retrying until the server is listening
+     * @param port the port of the server
+     */
+    public static async connect (port: number): Promise<TestClient> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const socket = new WebSocket('ws://127.0.0.1:' + port);
+
+                await new Promise((resolve, reject) => {
+                    socket.once('open', resolve);
+
+                    socket.once('error', reject);
+                });
+
+                return new TestClient(socket);
+            } catch (error) {
+                if (attempt >= 20) {
+                    throw error;
+                }
+
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }
+        }
+    }
+
+    /**
+     * Sends a request to the server
+     * @param request the request
+     */
+    public send (request: any): void {
+        this.socket.send((typeof request === 'string') ? request : JSON.stringify(request));
+    }
+
+    /**
+     * Retrieves the next message received from the server
+     */
+    public async next (): Promise<any> {
+        const message = this.messages.shift();
+
+        if (message !== undefined) {
+            return message;
+        }
+
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    /**
+     * Sends a request to the server and retrieves the response
+     * @param request the request
+     */
+    public async request (request: any): Promise<any> {
+        this.send(request);
+
+        return this.next();
+    }
+
+    /**
+     * Closes the connection to the server
+     */
+    public async close (): Promise<void> {
+        if (this.socket.readyState === WebSocket.CLOSED) {
+            return;
+        }
+
+        return new Promise(resolve => {
+            this.socket.once('close', () => resolve());
+
+            this.socket.close();
+        });
+    }
+}
+
+describe('SubscriptionServer', () => {
+    let chain: TestChain;
+
+    let collector: Collector;
+
+    let server: SubscriptionServer;
+
+    let port: number;
+
+    const clients: TestClient[] = [];
+
+    const paymentId = randomKey();
+
+    const connect = async () => {
+        clients.push(await TestClient.connect(port));
+
+        return clients[clients.length - 1];
+    };
+
+    /**
+     * Mines a block and emits it from the collector
+     */
+    const publishBlock = async () => {
+        const [block] = await chain.mine(1, () => [generateTransaction(0, paymentId)]);
+
+        collector.emit('blocks', {
+            startHeight: block.height,
+            endHeight: block.height,
+            hashes: [block.hash],
+            transactionCount: 2
+        });
+
+        return block;
+    };
+
+    before(async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(2);
+    });
+
+    after(async () => {
+        await chain.destroy();
+    });
+
+    beforeEach(async () => {
+        collector = new EventEmitter() as Collector;
+
+        port = await freePort();
+
+        server = new SubscriptionServer(collector, chain.database, port, '127.0.0.1', 10);
+    });
+
+    afterEach(async () => {
+        for (const client of clients.splice(0)) {
+            await client.close();
+        }
+
+        await server.stop();
+    });
+
+    it('acknowledges a subscription with the current token', async () => {
+        const client = await connect();
+
+        const response = await client.request({ action: 'subscribe', topics: ['block'], paymentIds: [paymentId] });
+
+        assert.deepStrictEqual(response.subscribed, { topics: ['block', 'payment'], paymentIds: [paymentId] });
+
+        assert.ok(/^[0-9a-f]{8}:0$/.test(response.token));
+
+        assert.deepStrictEqual((await client.request({ action: 'unsubscribe', topics: ['payment'] })).subscribed,
+            { topics: ['block'], paymentIds: [paymentId] });
+    });
+
+    it('rejects malformed requests', async () => {
+        const client = await connect();
+
+        assert.deepStrictEqual(await client.request('{'), { error: 'Malformed JSON in request' });
+
+        assert.deepStrictEqual(await client.request({ action: 'publish' }), { error: 'Unknown action' });
+
+        assert.deepStrictEqual(await client.request({ action: 'subscribe', topics: ['blocks'] }),
+            { error: 'Unknown topic' });
+
+        assert.deepStrictEqual(await client.request({ action: 'subscribe', paymentIds: ['abc'] }),
+            { error: 'Payment IDs must be 64 character hexadecimal strings' });
+    });
+
+    it('publishes new blocks, their transactions and payments to the subscribed clients', async () => {
+        const client = await connect();
+
+        await client.request({ action: 'subscribe', topics: ['block', 'transaction'], paymentIds: [paymentId] });
+
+        const block = await publishBlock();
+
+        const header = await client.next();
+
+        assert.strictEqual(header.topic, SubscriptionTopic.BLOCK);
+
+        assert.strictEqual(header.data.hash, block.hash);
+
+        assert.strictEqual(header.data.timestamp, chain.startTime + block.height * 30);
+
+        assert.strictEqual(header.data.transactions, undefined);
+
+        const hashes = [await client.next(), await client.next()].map(message => {
+            assert.strictEqual(message.topic, SubscriptionTopic.TRANSACTION);
+
+            assert.strictEqual(message.data.blockHash, block.hash);
+
+            return message.data.hash;
+        });
+
+        assert.deepStrictEqual(hashes.sort(), (await Promise.all(block.transactions.map(tx => tx.hash()))).sort());
+
+        const payment = await client.next();
+
+        assert.strictEqual(payment.topic, SubscriptionTopic.PAYMENT);
+
+        assert.deepStrictEqual(payment.data, {
+            hash: await block.transactions[1].hash(),
+            paymentId: paymentId,
+            blockHash: block.hash,
+            height: block.height,
+            inPool: false
+        });
+    });
+
+    it('publishes only the topics and payment IDs a client is subscribed to', async () => {
+        const client = await connect();
+
+        await client.request({ action: 'subscribe', topics: ['reorg', 'payment'], paymentIds: [randomKey()] });
+
+        await publishBlock();
+
+        const event = await chain.rewind(chain.topHeight, RewindCause.MANUAL);
+
+        assert.ok(event);
+
+        collector.emit('rewind', {
+            fromHeight: chain.topHeight + 1,
+            toHeight: chain.topHeight,
+            cause: RewindCause.MANUAL,
+            reorg: event
+        });
+
+        const message = await client.next();
+
+        assert.strictEqual(message.topic, SubscriptionTopic.REORG);
+
+        assert.strictEqual(message.data.cause, RewindCause.MANUAL);
+
+        assert.strictEqual(message.data.reorg.oldTip, event.oldTip);
+    });
+
+    it('publishes pool changes and the payments of the added transactions', async () => {
+        const client = await connect();
+
+        await client.request({ action: 'subscribe', topics: ['pool'], paymentIds: [paymentId] });
+
+        const tx = generateTransaction(0, paymentId);
+
+        const event = await chain.blockchain.saveTransactionPool([tx.toString(), generateTransaction().toString()]);
+
+        collector.emit('pool', event);
+
+        const pool = await client.next();
+
+        assert.strictEqual(pool.topic, SubscriptionTopic.POOL);
+
+        assert.deepStrictEqual(pool.data, event);
+
+        const payment = await client.next();
+
+        assert.strictEqual(payment.topic, SubscriptionTopic.PAYMENT);
+
+        assert.deepStrictEqual(payment.data, { hash: await tx.hash(), paymentId: paymentId, inPool: true });
+    });
+
+    it('replays the messages published since the resume token', async () => {
+        const watcher = await connect();
+
+        await watcher.request({ action: 'subscribe', topics: ['block'] });
+
+        const client = await connect();
+
+        const { token } = await client.request({ action: 'subscribe', topics: ['block'] });
+
+        await client.close();
+
+        const blocks = [await publishBlock(), await publishBlock()];
+
+        const first = await watcher.next();
+
+        await watcher.next();
+
+        const resumed = await connect();
+
+        assert.ok((await resumed.request({ action: 'subscribe', topics: ['block'], token: token })).subscribed);
+
+        assert.deepStrictEqual([await resumed.next(), await resumed.next()].map(message => message.data.hash),
+            blocks.map(block => block.hash));
+
+        const again = await connect();
+
+        assert.ok((await again.request({ action: 'subscribe', topics: ['block'], token: first.token })).subscribed);
+
+        assert.strictEqual((await again.next()).data.hash, blocks[1].hash);
+    });
+
+    it('asks the client to resynchronize once the messages since the token are no longer buffered', async () => {
+        const watcher = await connect();
+
+        await watcher.request({ action: 'subscribe', paymentIds: [paymentId] });
+
+        const client = await connect();
+
+        const { token } = await client.request({ action: 'subscribe', topics: ['block'] });
+
+        await client.close();
+
+        // each block publishes four messages so the first message is overwritten by the third block
+        for (let i = 0; i < 3; i++) {
+            await publishBlock();
+
+            await watcher.next();
+        }
+
+        const latest = token.split(':')[0] + ':12';
+
+        const resumed = await connect();
+
+        assert.ok((await resumed.request({ action: 'subscribe', topics: ['block'], token: token })).subscribed);
+
+        assert.deepStrictEqual(await resumed.next(), { error: 'Resume token expired', resync: true, token: latest });
+
+        assert.ok((await resumed.request({ action: 'subscribe', token: 'ffffffff:1' })).subscribed);
+
+        assert.deepStrictEqual(await resumed.next(), { error: 'Resume token expired', resync: true, token: latest });
+    });
+});
@@ -0,0 +1,182 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { afterEach, describe, it } from 'mocha';
+import { PoolOutcome } from '../src/BlockchainDB';
+import { generateTransaction, randomKey, TestChain } from './helpers/TestChain';
+
+describe('Transaction pool history', () => {
+    let chain: TestChain;
+
+    afterEach(async () => {
+        await chain.destroy();
+    });
+
+    it('reports the transactions added to, and removed from, the pool', async () => {
+        chain = await TestChain.create();
+
+        const [first, second, third] = [generateTransaction(), generateTransaction(), generateTransaction()];
+
+        let result = await chain.blockchain.saveTransactionPool([first.toString(), second.toString()]);
+
+        assert.deepStrictEqual(result.added.sort(), [await first.hash(), await second.hash()].sort());
+
+        assert.deepStrictEqual(result.removed, []);
+
+        result = await chain.blockchain.saveTransactionPool([second.toString(), third.toString()]);
+
+        assert.deepStrictEqual(result.added, [await third.hash()]);
+
+        assert.deepStrictEqual(result.removed, [await first.hash()]);
+
+        assert.deepStrictEqual((await chain.blockchain.transactionPool()).map(tx => tx.hash).sort(),
+            [await second.hash(), await third.hash()].sort());
+    });
+
+    it('records when a transaction was seen in the pool', async () => {
+        chain = await TestChain.create();
+
+        const tx = generateTransaction();
+
+        const hash = await tx.hash();
+
+        await chain.blockchain.saveTransactionPool([tx.toString()]);
+
+        const history = await chain.blockchain.transactionPoolHistory(hash);
+
+        assert.strictEqual(history.hash, hash);
+
+        assert.strictEqual(history.fee, tx.fee);
+
+        assert.strictEqual(history.size, tx.size);
+
+        assert.strictEqual(history.amountOut, tx.amount);
+
+        assert.ok(history.lastSeen.getTime() >= history.firstSeen.getTime());
+
+        assert.strictEqual(history.removedAt, undefined);
+
+        assert.strictEqual(history.outcome, undefined);
+    });
+
+    it('rejects a transaction that was never in the pool', async () => {
+        chain = await TestChain.create();
+
+        await assert.rejects(chain.blockchain.transactionPoolHistory(randomKey()), ReferenceError);
+    });
+
+    it('resolves a transaction that left the pool in a block as mined', async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(2);
+
+        const tx = generateTransaction();
+
+        const hash = await tx.hash();
+
+        await chain.blockchain.saveTransactionPool([tx.toString()]);
+
+        const [block] = await chain.mine(1, () => [tx]);
+
+        await chain.blockchain.saveTransactionPool([]);
+
+        const history = await chain.blockchain.transactionPoolHistory(hash);
+
+        assert.strictEqual(history.outcome, PoolOutcome.MINED);
+
+        assert.deepStrictEqual(history.block, { hash: block.hash, height: block.height });
+
+        assert.deepStrictEqual(history.resolvedAt, block.header.timestamp);
+
+        assert.ok(history.removedAt);
+    });
+
+    it('resolves a transaction whose key image was spent by another transaction as replaced', async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(2);
+
+        const tx = generateTransaction();
+
+        const replacement = generateTransaction();
+
+        replacement.inputs = tx.inputs;
+
+        await chain.blockchain.saveTransactionPool([tx.toString()]);
+
+        await chain.blockchain.saveTransactionPool([replacement.toString()]);
+
+        const history = await chain.blockchain.transactionPoolHistory(await tx.hash());
+
+        assert.strictEqual(history.outcome, PoolOutcome.REPLACED);
+
+        assert.strictEqual(history.block, undefined);
+
+        assert.ok(history.resolvedAt);
+    });
+
+    it('resolves a transaction as evicted only once later blocks do not contain it', async () => {
+        const now = Math.floor(Date.now() / 1000);
+
+        chain = await TestChain.create(now);
+
+        await chain.mine(2);
+
+        const tx = generateTransaction();
+
+        const hash = await tx.hash();
+
+        await chain.blockchain.saveTransactionPool([tx.toString()]);
+
+        await chain.blockchain.saveTransactionPool([]);
+
+        let history = await chain.blockchain.transactionPoolHistory(hash);
+
+        assert.ok(history.removedAt);
+
+        assert.strictEqual(history.outcome, undefined);
+
+        // the blocks are 30 seconds apart so the last block is created more than 600 seconds later
+        await chain.mine(20);
+
+        await chain.blockchain.saveTransactionPool([]);
+
+        history = await chain.blockchain.transactionPoolHistory(hash);
+
+        assert.strictEqual(history.outcome, PoolOutcome.EVICTED);
+
+        assert.strictEqual(history.block, undefined);
+    });
+
+    it('clears the outcome of a transaction that returns to the pool', async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(2);
+
+        const tx = generateTransaction();
+
+        const hash = await tx.hash();
+
+        await chain.blockchain.saveTransactionPool([tx.toString()]);
+
+        await chain.mine(1, () => [tx]);
+
+        await chain.blockchain.saveTransactionPool([]);
+
+        assert.strictEqual((await chain.blockchain.transactionPoolHistory(hash)).outcome, PoolOutcome.MINED);
+
+        await chain.rewind(2);
+
+        await chain.blockchain.saveTransactionPool([tx.toString()]);
+
+        const history = await chain.blockchain.transactionPoolHistory(hash);
+
+        assert.strictEqual(history.removedAt, undefined);
+
+        assert.strictEqual(history.outcome, undefined);
+
+        assert.strictEqual(history.block, undefined);
+    });
+});
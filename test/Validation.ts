@@ -0,0 +1,202 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import * as assert from 'assert';
+import { after, before, describe, it } from 'mocha';
+import { KeyInput } from 'turtlecoin-utils';
+import {
+    validateArray,
+    validateBlock,
+    validateHash,
+    validateHashes,
+    validateHex,
+    validateInteger,
+    validateNumber,
+    validateOneOf,
+    ValidationError
+} from '../src/Validation';
+import { generateTransaction, randomKey, TestChain } from './helpers/TestChain';
+
+/**
+ * Creates a predicate that matches a validation error of the given parameter
+ * @param parameter the name of the invalid parameter
+ */
+const invalid = (parameter: string) => (error: any): boolean => {
+    assert.ok(error instanceof ValidationError, String(error));
+
+    assert.strictEqual(error.parameter, parameter);
+
+    return true;
+};
+
+describe('Validation', () => {
+    it('reports the invalid parameter as a TypeError', () => {
+        const error = new ValidationError('hash', 'hash is invalid');
+
+        assert.ok(error instanceof TypeError);
+
+        assert.strictEqual(error.name, 'ValidationError');
+
+        assert.strictEqual(error.parameter, 'hash');
+
+        assert.strictEqual(error.message, 'hash is invalid');
+    });
+
+    it('accepts 64 character hexadecimal strings in either case and returns them in lowercase', () => {
+        const key = randomKey();
+
+        assert.strictEqual(validateHash(key.toUpperCase(), 'hash'), key);
+
+        assert.deepStrictEqual(validateHashes([key, key.toUpperCase()], 'hashes'), [key, key]);
+
+        for (const value of [key.slice(1), key + '0', 'g' + key.slice(1), '\' OR \'1\'=\'1', 1, undefined]) {
+            assert.throws(() => validateHash(value, 'hash'), invalid('hash'));
+        }
+
+        assert.throws(() => validateHashes([key, 'abc'], 'hashes'), invalid('hashes'));
+    });
+
+    it('limits the number of elements of an array', () => {
+        assert.deepStrictEqual(validateArray([1, 2], 'values', 2), [1, 2]);
+
+        assert.throws(() => validateArray([1, 2, 3], 'values', 2), invalid('values'));
+
+        assert.throws(() => validateArray('1,2', 'values'), invalid('values'));
+
+        assert.throws(() => validateHashes([...Array(3)].map(() => randomKey()), 'hashes', 2), invalid('hashes'));
+    });
+
+    it('bounds integers and numbers', () => {
+        assert.strictEqual(validateInteger(0, 'height'), 0);
+
+        assert.strictEqual(validateInteger(10, 'limit', 1, 10), 10);
+
+        for (const value of [-1, 1.5, NaN, Infinity, Number.MAX_SAFE_INTEGER + 1, '1', null]) {
+            assert.throws(() => validateInteger(value, 'height'), invalid('height'));
+        }
+
+        assert.throws(() => validateInteger(11, 'limit', 1, 10), invalid('limit'));
+
+        assert.strictEqual(validateNumber(99.5, 'percentile', 0, 100), 99.5);
+
+        for (const value of [-0.1, 100.1, NaN, Infinity, '50']) {
+            assert.throws(() => validateNumber(value, 'percentile', 0, 100), invalid('percentile'));
+        }
+    });
+
+    it('accepts hexadecimal strings of an even length up to the maximum length', () => {
+        assert.strictEqual(validateHex('', 'blob', 4), '');
+
+        assert.strictEqual(validateHex('aBcD', 'blob', 4), 'aBcD');
+
+        for (const value of ['abc', 'abcdef', 'xy', 12]) {
+            assert.throws(() => validateHex(value, 'blob', 4), invalid('blob'));
+        }
+    });
+
+    it('accepts a block height or a block hash', () => {
+        const key = randomKey();
+
+        assert.strictEqual(validateBlock(5, 'block'), 5);
+
+        assert.strictEqual(validateBlock(key.toUpperCase(), 'block'), key);
+
+        for (const value of [-5, '5', 'xyz']) {
+            assert.throws(() => validateBlock(value, 'block'), invalid('block'));
+        }
+    });
+
+    it('accepts only the allowed values', () => {
+        assert.strictEqual(validateOneOf('day', 'granularity', ['hour', 'day']), 'day');
+
+        assert.throws(() => validateOneOf('week', 'granularity', ['hour', 'day']),
+            error => invalid('granularity')(error) && error.message === 'granularity must be one of: hour, day');
+    });
+});
+
+describe('BlockchainDB input validation', () => {
+    let chain: TestChain;
+
+    before(async () => {
+        chain = await TestChain.create();
+
+        await chain.mine(5);
+    });
+
+    after(async () => {
+        await chain.destroy();
+    });
+
+    it('rejects invalid hashes and heights', async () => {
+        await assert.rejects(chain.blockchain.block('xyz'), invalid('block'));
+
+        await assert.rejects(chain.blockchain.block(-1), invalid('block'));
+
+        await assert.rejects(chain.blockchain.transaction('abc'), invalid('hash'));
+
+        await assert.rejects(chain.blockchain.blockHeaders(1.5), invalid('height'));
+
+        await assert.rejects(chain.blockchain.paymentIdTransactions(randomKey(), { limit: 1001 }), invalid('limit'));
+
+        // a valid hash that does not exist is not a validation error
+        await assert.rejects(chain.blockchain.transaction(randomKey()), ReferenceError);
+    });
+
+    it('looks up blocks by hash in either case', async () => {
+        const block = chain.blocks[3];
+
+        assert.strictEqual((await chain.blockchain.block(block.hash.toUpperCase())).height, block.height);
+    });
+
+    it('binds the checkpoints when determining the sync height', async () => {
+        const checkpoints = [chain.blocks[2].hash, randomKey(), chain.blocks[4].hash.toUpperCase()];
+
+        assert.strictEqual(await chain.blockchain.getSyncHeight(checkpoints), 5);
+
+        assert.strictEqual(await chain.blockchain.getSyncHeight([randomKey()], 3), 3);
+
+        await assert.rejects(chain.blockchain.getSyncHeight(['\' OR \'1\'=\'1']), invalid('checkpoints'));
+
+        await assert.rejects(chain.blockchain.getSyncHeight([...Array(1001)].map(() => randomKey())),
+            invalid('checkpoints'));
+
+        await assert.rejects(chain.blockchain.getSyncHeight([], -1), invalid('height'));
+
+        await assert.rejects(chain.blockchain.getSyncHeight([], 0, 1.5), invalid('timestamp'));
+    });
+
+    it('checks each distinct key image once', async () => {
+        const spent = (chain.blocks[1].transactions[1].inputs[0] as KeyInput).keyImage;
+
+        const pooled = generateTransaction();
+
+        await chain.blockchain.saveTransactionPool([pooled.toString()]);
+
+        const inPool = (pooled.inputs[0] as KeyInput).keyImage;
+
+        const unspent = randomKey();
+
+        try {
+            const status = await chain.blockchain.keyImagesStatus([spent, spent.toUpperCase(), inPool, unspent]);
+
+            assert.deepStrictEqual(status.inBlock.map(elem => elem.keyImage), [spent]);
+
+            assert.deepStrictEqual(status.inPool.map(elem => elem.keyImage), [inPool]);
+
+            assert.deepStrictEqual(status.unspent, [unspent]);
+
+            await assert.rejects(chain.blockchain.keyImagesStatus([spent, 'abc']), invalid('keyImages'));
+        } finally {
+            await chain.blockchain.saveTransactionPool([]);
+        }
+    });
+
+    it('rejects invalid counts, limits and ranges', async () => {
+        await assert.rejects(chain.blockchain.randomIndexes([1000], 101), invalid('count'));
+
+        await assert.rejects(chain.blockchain.changesSince(0, 1001), invalid('limit'));
+
+        await assert.rejects(chain.blockchain.altBlocks(0, 0), invalid('limit'));
+    });
+});
@@ -0,0 +1,65 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { createServer, request as createRequest } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Represents the response to a request
+ */
+export interface IResponse {
+    status: number;
+    body?: any;
+}
+
+/**
+ * Finds a port on the loopback interface that is free to listen on
+ */
+export async function freePort (): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = createServer();
+
+        server.once('error', error => reject(error));
+
+        server.listen(0, '127.0.0.1', () => {
+            const port = (server.address() as AddressInfo).port;
+
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+/**
+ * Sends a request to the server on the loopback interface
+ * @param port the port of the server
+ * @param method the HTTP method
+ * @param path the path
+ * @param body the request body, objects are sent as JSON
+ */
+export async function request (port: number, method: string, path: string, body?: any): Promise<IResponse> {
+    const payload = (body === undefined || typeof body === 'string') ? body : JSON.stringify(body);
+
+    return new Promise((resolve, reject) => {
+        const req = createRequest({ host: '127.0.0.1', port: port, method: method, path: path }, response => {
+            const chunks: Buffer[] = [];
+
+            response.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+            response.on('error', error => reject(error));
+
+            response.on('end', () => {
+                const data = Buffer.concat(chunks).toString();
+
+                return resolve({
+                    status: response.statusCode || 0,
+                    body: (data.length !== 0) ? JSON.parse(data) : undefined
+                });
+            });
+        });
+
+        req.on('error', error => reject(error));
+
+        req.end(payload);
+    });
+}
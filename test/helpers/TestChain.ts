@@ -0,0 +1,337 @@
+// Copyright (c) 2020, TurtlePay Developers
+//
+// Please see the included LICENSE file for more information.
+
+import { SQLite } from 'db-abstraction';
+import {
+    Block,
+    KeyOutput,
+    Transaction,
+    TransactionInputs,
+    TransactionOutputs,
+    TurtleCoindTypes as TurtleCoindInterfaces
+} from 'turtlecoin-utils';
+import * as BigInteger from 'big-integer';
+import { randomBytes } from 'crypto';
+import { existsSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BlockchainDB, IReorgEvent, RewindCause } from '../../src/BlockchainDB';
+
+/**
+ * The base reward of every generated block
+ */
+export const REWARD = 2900000;
+
+/**
+ * The amount of the input of every generated transaction
+ */
+export const AMOUNT = 1000;
+
+/**
+ * Represents a generated block and the data saved to the database for it
+ */
+export interface IGeneratedBlock {
+    hash: string;
+    height: number;
+    raw: TurtleCoindInterfaces.IRawBlock;
+    header: TurtleCoindInterfaces.IBlockHeader;
+    indexes: TurtleCoindInterfaces.ITransactionIndexes[];
+    /**
+     * The coinbase transaction followed by the other transactions of the block
+     */
+    transactions: Transaction[];
+}
+
+/**
+ * Generates a random key
+ */
+export function randomKey (): string {
+    return randomBytes(32).toString('hex');
+}
+
+/**
+ * Generates a path for a temporary SQLite database
+ */
+export function temporaryPath (): string {
+    return join(tmpdir(), 'blockchain-test-' + randomBytes(8).toString('hex') + '.sqlite3');
+}
+
+/**
+ * Generates a transaction spending a single input into two outputs
+ * @param unlockTime the unlock time of the transaction
+ * @param paymentId the payment ID to include in the transaction extra, if any
+ */
+export function generateTransaction (unlockTime = 0, paymentId?: string): Transaction {
+    const tx = new Transaction();
+
+    tx.version = 1;
+
+    tx.unlockTime = unlockTime;
+
+    tx.inputs = [new TransactionInputs.KeyInput(AMOUNT, [0, 1, 1], randomKey())];
+
+    tx.outputs = [
+        new TransactionOutputs.KeyOutput(AMOUNT / 2, randomKey()),
+        new TransactionOutputs.KeyOutput(AMOUNT / 2 - 10, randomKey())
+    ];
+
+    if (paymentId) {
+        tx.addPaymentId(paymentId);
+    }
+
+    tx.signatures = [[0, 1, 2].map(() => randomBytes(64).toString('hex'))];
+
+    return tx;
+}
+
+/**
+ * A chain of generated blocks saved to a temporary SQLite database
+ */
+export class TestChain {
+    /**
+     * The blocks of the main chain in the database
+     */
+    public readonly blocks: IGeneratedBlock[] = [];
+
+    public readonly path: string;
+
+    public readonly database: SQLite;
+
+    public readonly blockchain: BlockchainDB;
+
+    /**
+     * The timestamp (seconds) of the genesis block, each following block is 30 seconds later
+     */
+    public readonly startTime: number;
+
+    /**
+     * Constructs a new test chain
+     * @param path the path of the SQLite database
+     * @param database the database connection
+     * @param blockchain the blockchain database using the connection
+     * @param startTime the timestamp (seconds) of the genesis block
+     */
+    private constructor (path: string, database: SQLite, blockchain: BlockchainDB, startTime: number) {
+        this.path = path;
+
+        this.database = database;
+
+        this.blockchain = blockchain;
+
+        this.startTime = startTime;
+    }
+
+    /**
+     * Creates an empty chain in a new temporary database with every schema migration applied
+     * @param startTime the timestamp (seconds) of the genesis block
+     */
+    public static async create (startTime = 1600000000): Promise<TestChain> {
+        const path = temporaryPath();
+
+        const database = new SQLite(path);
+
+        const blockchain = new BlockchainDB(database);
+
+        await blockchain.init();
+
+        return new TestChain(path, database, blockchain, startTime);
+    }
+
+    /**
+     * The height of the top block of the chain
+     */
+    public get topHeight (): number {
+        return this.blocks.length - 1;
+    }
+
+    /**
+     * Generates blocks on top of the chain without saving them
+     * @param count the number of blocks to generate
+     * @param transactions generates the transactions, other than the coinbase transaction, of each block
+     */
+    public async generate (
+        count: number,
+        transactions: (height: number) => Transaction[] = () => [generateTransaction(), generateTransaction()]
+    ): Promise<IGeneratedBlock[]> {
+        const globalIndexes: Map<number, number> = new Map<number, number>();
+
+        for (const block of this.blocks) {
+            for (const tx of block.transactions) {
+                for (const output of tx.outputs) {
+                    const amount = (output as KeyOutput).amount.toJSNumber();
+
+                    globalIndexes.set(amount, (globalIndexes.get(amount) || 0) + 1);
+                }
+            }
+        }
+
+        const results: IGeneratedBlock[] = [];
+
+        let prevHash = (this.blocks.length !== 0) ? this.blocks[this.blocks.length - 1].hash : '0'.repeat(64);
+
+        let generatedCoins = (this.blocks.length !== 0)
+            ? this.blocks[this.blocks.length - 1].header.alreadyGeneratedCoins
+            : BigInteger.zero;
+
+        let generatedTransactions = (this.blocks.length !== 0)
+            ? this.blocks[this.blocks.length - 1].header.alreadyGeneratedTransactions
+            : 0;
+
+        for (let height = this.blocks.length; height < this.blocks.length + count; height++) {
+            const coinbase = new Transaction();
+
+            coinbase.version = 1;
+
+            coinbase.unlockTime = height + 40;
+
+            coinbase.inputs = [new TransactionInputs.CoinbaseInput(height)];
+
+            coinbase.outputs = [new TransactionOutputs.KeyOutput(REWARD, randomKey())];
+
+            const txs = (height === 0) ? [] : transactions(height);
+
+            const block = new Block();
+
+            block.majorVersion = 1;
+
+            block.minorVersion = 0;
+
+            block.timestamp = new Date((this.startTime + height * 30) * 1000);
+
+            block.previousBlockHash = prevHash;
+
+            block.minerTransaction = coinbase;
+
+            for (const tx of txs) {
+                block.transactions.push(await tx.hash());
+            }
+
+            const hash = await block.hash();
+
+            const indexes: TurtleCoindInterfaces.ITransactionIndexes[] = [];
+
+            for (const tx of [coinbase, ...txs]) {
+                indexes.push({
+                    hash: await tx.hash(),
+                    indexes: tx.outputs.map(output => {
+                        const amount = (output as KeyOutput).amount.toJSNumber();
+
+                        const index = globalIndexes.get(amount) || 0;
+
+                        globalIndexes.set(amount, index + 1);
+
+                        return index;
+                    })
+                });
+            }
+
+            const fees = txs.reduce((total, tx) => total + tx.fee, 0);
+
+            const size = [coinbase, ...txs].reduce((total, tx) => total + tx.size, 0);
+
+            generatedCoins = generatedCoins.add(REWARD);
+
+            generatedTransactions += txs.length + 1;
+
+            results.push({
+                hash: hash,
+                height: height,
+                raw: {
+                    blob: block.toString(),
+                    transactions: txs.map(tx => tx.toString())
+                },
+                header: {
+                    alreadyGeneratedCoins: generatedCoins,
+                    alreadyGeneratedTransactions: generatedTransactions,
+                    baseReward: REWARD,
+                    depth: 0,
+                    difficulty: 1000,
+                    hash: hash,
+                    height: height,
+                    majorVersion: 1,
+                    minorVersion: 0,
+                    nonce: 0,
+                    orphan: false,
+                    penalty: 0,
+                    prevHash: prevHash,
+                    reward: REWARD + fees,
+                    size: block.size,
+                    sizeMedian: size,
+                    timestamp: block.timestamp,
+                    totalFeeAmount: fees,
+                    transactionCount: txs.length + 1,
+                    transactionsCumulativeSize: size
+                },
+                indexes: indexes,
+                transactions: [coinbase, ...txs]
+            });
+
+            prevHash = hash;
+        }
+
+        return results;
+    }
+
+    /**
+     * Saves generated blocks, their global indexes and block headers to the database, in the
+     * same order as the collector, and adds them to the chain
+     * @param blocks the generated blocks
+     */
+    public async save (blocks: IGeneratedBlock[]): Promise<void> {
+        await this.blockchain.saveRawBlocks(blocks.map(block => block.raw));
+
+        await this.blockchain.saveOutputGlobalIndexes(
+            blocks.reduce((indexes: TurtleCoindInterfaces.ITransactionIndexes[], block) =>
+                indexes.concat(block.indexes), []));
+
+        await this.blockchain.saveBlocksMeta(blocks.map(block => block.header));
+
+        this.blocks.push(...blocks);
+    }
+
+    /**
+     * Generates blocks on top of the chain and saves them to the database
+     * @param count the number of blocks to generate
+     * @param transactions generates the transactions, other than the coinbase transaction, of each block
+     */
+    public async mine (
+        count: number,
+        transactions?: (height: number) => Transaction[]
+    ): Promise<IGeneratedBlock[]> {
+        const blocks = await this.generate(count, transactions);
+
+        await this.save(blocks);
+
+        return blocks;
+    }
+
+    /**
+     * Rewinds the database, and the chain, to the given height
+     * @param height the height to rewind to
+     * @param cause the reason for the rewind
+     * @param newTip the hash of the block that replaces the rewound blocks, if known
+     */
+    public async rewind (
+        height: number,
+        cause: RewindCause = RewindCause.MANUAL,
+        newTip?: string
+    ): Promise<IReorgEvent | undefined> {
+        const event = await this.blockchain.rewind(height, cause, newTip);
+
+        this.blocks.splice(height);
+
+        return event;
+    }
+
+    /**
+     * Closes the database and removes it
+     */
+    public async destroy (): Promise<void> {
+        await this.blockchain.close();
+
+        if (existsSync(this.path)) {
+            unlinkSync(this.path);
+        }
+    }
+}